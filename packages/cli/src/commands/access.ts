@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { GitHubSecurityScanner, formatAccessMatrixCSV, formatAccessMatrixMarkdown } from '@ghsec/core';
+import { resolveCredentials } from '../utils/credentials';
+
+export const accessCommand = new Command('access')
+  .description('Export who can access each repository and how, for user access reviews (SOC 2 CC6.2)')
+  .option('-t, --token <token>', 'GitHub personal access token (or set GITHUB_TOKEN env)')
+  .option('--app-id <id>', 'GitHub App ID, to authenticate as an app installation (or set GITHUB_APP_ID env)')
+  .option('--app-installation-id <id>', 'GitHub App installation ID (or set GITHUB_APP_INSTALLATION_ID env)')
+  .option('--app-private-key <file>', 'GitHub App private key PEM file (or set GITHUB_APP_PRIVATE_KEY / GITHUB_APP_PRIVATE_KEY_PATH env)')
+  .option('--base-url <url>', 'GitHub Enterprise Server API URL (or set GITHUB_API_URL env)')
+  .option('--api-version <version>', 'REST API version header, e.g. 2022-11-28 (or set GITHUB_API_VERSION env)')
+  .option('-r, --repos <repos...>', 'Specific repositories to review (owner/repo format)')
+  .option('-o, --org <org>', 'Review all repositories in an organization')
+  .option('--include-archived', 'Include archived repositories')
+  .option('--include-forks', 'Include forked repositories')
+  .option('--concurrency <n>', 'Number of repositories to review in parallel', '4')
+  .option('--format <format>', 'Output format (markdown|csv|json)', 'markdown')
+  .option('--output <file>', 'Write the access matrix to file')
+  .action(async (options) => {
+    const credentials = resolveCredentials(options);
+
+    if (!['markdown', 'csv', 'json'].includes(options.format)) { console.error(chalk.red('Error: --format must be markdown, csv or json.')); process.exit(1); }
+    const concurrency = parseInt(options.concurrency, 10);
+    if (!Number.isInteger(concurrency) || concurrency < 1) { console.error(chalk.red('Error: --concurrency must be a positive integer.')); process.exit(1); }
+
+    const scanner = new GitHubSecurityScanner({ ...credentials, baseUrl: options.baseUrl || process.env.GITHUB_API_URL, apiVersion: options.apiVersion || process.env.GITHUB_API_VERSION, repos: options.repos, org: options.org, includeArchived: options.includeArchived, includeForks: options.includeForks, concurrency });
+    let reposToReview: string[] = options.repos || [];
+
+    if (reposToReview.length === 0) {
+      const spinner = ora('Fetching available repositories...').start();
+      try {
+        const availableRepos = await scanner.listAvailableRepos();
+        spinner.stop();
+        if (availableRepos.length === 0) { console.log(chalk.yellow('No repositories found.')); process.exit(0); }
+        // An organization review covers every repository without prompting
+        if (options.org) reposToReview = availableRepos.map(r => r.fullName);
+        else {
+          const { selectedRepos } = await inquirer.prompt([{ type: 'checkbox', name: 'selectedRepos', message: 'Select repositories to review:', choices: availableRepos.map(r => ({ name: r.fullName, value: r.fullName })), pageSize: 20, validate: (answer) => answer.length === 0 ? 'Please select at least one repository.' : true }]);
+          reposToReview = selectedRepos;
+        }
+      } catch (error) { spinner.stop(); console.error(chalk.red('Error fetching repositories:'), error); process.exit(1); }
+    }
+
+    const progress = ora(`Reviewing access to ${reposToReview.length} repositories...`).start();
+    const { reviews, failedRepos } = await scanner.reviewAccess(reposToReview);
+    progress.succeed(`Reviewed ${reviews.length} repositories${failedRepos.length > 0 ? chalk.red(` (${failedRepos.length} failed)`) : ''}`);
+    for (const failed of failedRepos) console.error(chalk.red(`   ✗ ${failed.repository}: ${failed.httpStatus ? `HTTP ${failed.httpStatus} ` : ''}${failed.error}`));
+
+    const output = options.format === 'json' ? JSON.stringify({ reviews, failedRepos }, null, 2)
+      : options.format === 'csv' ? formatAccessMatrixCSV(reviews)
+      : formatAccessMatrixMarkdown(reviews, failedRepos);
+    if (options.output) { const fs = await import('fs'); fs.writeFileSync(options.output, output); console.log(chalk.green(`Access matrix written to ${options.output}`)); }
+    else console.log('\n' + output);
+
+    if (failedRepos.length > 0) process.exitCode = 1;
+  });
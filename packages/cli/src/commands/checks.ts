@@ -0,0 +1,17 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { listChecks, CheckCategory } from '@ghsec/core';
+import { formatCheckCatalog, formatCheckCatalogMarkdown } from '../utils/formatter';
+
+export const checksCommand = new Command('checks')
+  .description('List the available security checks')
+  .option('--category <category>', 'Only list checks in this category')
+  .option('--format <format>', 'Output format (table|markdown|json)', 'table')
+  .action((options) => {
+    const checks = listChecks(options.category as CheckCategory | undefined);
+    if (checks.length === 0) { console.error(chalk.red(`Error: No checks found for category: ${options.category}`)); process.exit(1); }
+
+    if (options.format === 'json') console.log(JSON.stringify(checks, null, 2));
+    else if (options.format === 'markdown') console.log(formatCheckCatalogMarkdown(checks));
+    else console.log(formatCheckCatalog(checks));
+  });
@@ -0,0 +1,23 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { diffScanResults, readScanResultsFile, RepoScanResult } from '@ghsec/core';
+import { formatScanDiff } from '../utils/formatter';
+
+export const diffCommand = new Command('diff')
+  .description('Compare two scan results written by "ghsec scan --json"')
+  .argument('<old>', 'Earlier scan results (JSON)')
+  .argument('<new>', 'Later scan results (JSON)')
+  .option('--json', 'Output the diff as JSON')
+  .option('--output <file>', 'Write the diff to file')
+  .action(async (oldFile: string, newFile: string, options) => {
+    let previous: RepoScanResult[], current: RepoScanResult[];
+    try {
+      previous = readScanResultsFile(oldFile);
+      current = readScanResultsFile(newFile);
+    } catch (error: any) { console.error(chalk.red(`Error: ${error.message}`)); process.exit(1); }
+
+    const diff = diffScanResults(previous, current);
+    const output = options.json ? JSON.stringify(diff, null, 2) : formatScanDiff(diff);
+    if (options.output) { const fs = await import('fs'); fs.writeFileSync(options.output, output); console.log(chalk.green(`Diff written to ${options.output}`)); }
+    else console.log(output);
+  });
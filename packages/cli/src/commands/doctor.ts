@@ -0,0 +1,42 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { GitHubSecurityScanner } from '@ghsec/core';
+import { formatPreflightReport } from '../utils/formatter';
+import { resolveCredentials } from '../utils/credentials';
+
+export const doctorCommand = new Command('doctor')
+  .description('Check which security checks and fixes the configured credentials can use')
+  .argument('[repo]', 'Repository to probe (owner/repo); defaults to the first accessible repository')
+  .option('-t, --token <token>', 'GitHub personal access token (or set GITHUB_TOKEN env)')
+  .option('--app-id <id>', 'GitHub App ID, to authenticate as an app installation (or set GITHUB_APP_ID env)')
+  .option('--app-installation-id <id>', 'GitHub App installation ID (or set GITHUB_APP_INSTALLATION_ID env)')
+  .option('--app-private-key <file>', 'GitHub App private key PEM file (or set GITHUB_APP_PRIVATE_KEY / GITHUB_APP_PRIVATE_KEY_PATH env)')
+  .option('--base-url <url>', 'GitHub Enterprise Server API URL (or set GITHUB_API_URL env)')
+  .option('--api-version <version>', 'REST API version header, e.g. 2022-11-28 (or set GITHUB_API_VERSION env)')
+  .option('--min-coverage <percent>', 'Exit with an error when fewer than this percent of checks can run')
+  .option('--json', 'Output the report as JSON')
+  .action(async (repo: string | undefined, options) => {
+    const credentials = resolveCredentials(options);
+
+    const minCoverage = options.minCoverage !== undefined ? Number(options.minCoverage) : undefined;
+    if (minCoverage !== undefined && (!Number.isFinite(minCoverage) || minCoverage < 0 || minCoverage > 100)) { console.error(chalk.red('Error: --min-coverage must be a number between 0 and 100.')); process.exit(1); }
+
+    const scanner = new GitHubSecurityScanner({ ...credentials, baseUrl: options.baseUrl || process.env.GITHUB_API_URL, apiVersion: options.apiVersion || process.env.GITHUB_API_VERSION });
+    const spinner = ora(`Probing ${repo || 'credentials'}...`).start();
+    let report;
+    try {
+      report = await scanner.preflight(repo);
+      spinner.stop();
+    } catch (error: any) {
+      spinner.fail(`Preflight failed: ${error.status ? `HTTP ${error.status} ` : ''}${error.message}`);
+      process.exit(1);
+    }
+
+    console.log(options.json ? JSON.stringify(report, null, 2) : formatPreflightReport(report));
+
+    if (minCoverage !== undefined && report.coverage < minCoverage) {
+      console.error(chalk.red(`\nCheck coverage ${report.coverage}% is below the minimum of ${minCoverage}%.`));
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,34 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ScanHistoryStore, defaultHistoryDirectory } from '@ghsec/core';
+import { formatRepoHistory, formatRemediationStats } from '../utils/formatter';
+
+export const historyCommand = new Command('history')
+  .description('Show score trends, finding history and remediation times from the local scan history')
+  .argument('[repo]', 'Repository in owner/repo format (omit to list tracked repositories)')
+  .option('--dir <directory>', 'History directory (or set GHSEC_HISTORY_DIR env)')
+  .option('--mttr', 'Show mean time to remediate per finding ID')
+  .option('--json', 'Output as JSON')
+  .action(async (repo: string | undefined, options) => {
+    const store = new ScanHistoryStore(options.dir || defaultHistoryDirectory());
+
+    if (options.mttr) {
+      const stats = await store.getMeanTimeToRemediate(repo);
+      console.log(options.json ? JSON.stringify(stats, null, 2) : formatRemediationStats(stats));
+      return;
+    }
+
+    if (!repo) {
+      const repositories = await store.listRepositories();
+      if (options.json) { console.log(JSON.stringify(repositories, null, 2)); return; }
+      if (repositories.length === 0) { console.log(chalk.yellow('No scan history recorded yet.')); return; }
+      console.log(chalk.bold(`Tracked repositories (${repositories.length}):`));
+      for (const name of repositories) console.log(`  ${name}`);
+      return;
+    }
+
+    const [scores, findings] = await Promise.all([store.getScoreHistory(repo), store.getFindingHistory(repo)]);
+    if (scores.length === 0) { console.log(chalk.yellow(`No scan history recorded for ${repo}.`)); return; }
+    if (options.json) console.log(JSON.stringify({ repository: repo, scores, findings }, null, 2));
+    else console.log(formatRepoHistory(repo, scores, findings));
+  });
@@ -2,21 +2,37 @@ import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
-import { GitHubSecurityScanner, generateSOC2Report, formatSOC2ReportMarkdown, formatSOC2ReportJSON, Severity } from '@ghsec/core';
+import { GitHubSecurityScanner, OrgScanResult, generateSOC2Report, formatSOC2ReportMarkdown, formatSOC2ReportJSON, Severity, defaultHistoryDirectory } from '@ghsec/core';
+import { loadPolicy } from '../utils/policy';
+import { resolveCredentials } from '../utils/credentials';
 
 export const reportCommand = new Command('report')
   .description('Generate compliance reports from security scans')
   .option('-t, --token <token>', 'GitHub personal access token (or set GITHUB_TOKEN env)')
+  .option('--app-id <id>', 'GitHub App ID, to authenticate as an app installation (or set GITHUB_APP_ID env)')
+  .option('--app-installation-id <id>', 'GitHub App installation ID (or set GITHUB_APP_INSTALLATION_ID env)')
+  .option('--app-private-key <file>', 'GitHub App private key PEM file (or set GITHUB_APP_PRIVATE_KEY / GITHUB_APP_PRIVATE_KEY_PATH env)')
+  .option('--base-url <url>', 'GitHub Enterprise Server API URL (or set GITHUB_API_URL env)')
+  .option('--api-version <version>', 'REST API version header, e.g. 2022-11-28 (or set GITHUB_API_VERSION env)')
   .option('-r, --repos <repos...>', 'Specific repositories to include (owner/repo format)')
-  .option('-o, --org <org>', 'Include all repositories in an organization')
+  .option('-o, --org <org>', 'Include all repositories in an organization, and its organization settings')
+  .option('--no-org-checks', 'With --org, leave the organization settings checks out of the report')
+  .option('--concurrency <n>', 'Number of repositories to scan in parallel', '4')
+  .option('--release-branches <patterns...>', 'Release branch globs to check besides the default branch (default: release/** hotfix/**)')
+  .option('--release-tags <patterns...>', 'Release tag globs whose protection is checked (default: v*)')
+  .option('--no-history', 'Do not record results in the local scan history')
+  .option('-p, --policy <file>', 'Policy file (defaults to .ghsec.yml or .ghsec.json in the current directory)')
   .option('--type <type>', 'Report type (soc2)', 'soc2')
   .option('--format <format>', 'Output format (markdown|json)', 'markdown')
   .option('--output <file>', 'Write report to file')
   .action(async (options) => {
-    const token = options.token || process.env.GITHUB_TOKEN;
-    if (!token) { console.error(chalk.red('Error: GitHub token required.')); process.exit(1); }
+    const credentials = resolveCredentials(options);
 
-    const scanner = new GitHubSecurityScanner({ token, repos: options.repos, org: options.org, severityThreshold: 'info' as Severity });
+    const concurrency = parseInt(options.concurrency, 10);
+    if (!Number.isInteger(concurrency) || concurrency < 1) { console.error(chalk.red('Error: --concurrency must be a positive integer.')); process.exit(1); }
+
+    const progress = ora();
+    const scanner = new GitHubSecurityScanner({ ...credentials, baseUrl: options.baseUrl || process.env.GITHUB_API_URL, apiVersion: options.apiVersion || process.env.GITHUB_API_VERSION, repos: options.repos, org: options.org, severityThreshold: 'info' as Severity, releaseBranches: options.releaseBranches, releaseTags: options.releaseTags, policy: loadPolicy(options.policy), historyDir: options.history ? defaultHistoryDirectory() : undefined, concurrency, rateLimit: { onRateLimit: (event) => { if (progress.isSpinning) progress.text = `Rate limited (${event.type}), resuming at ${event.resumeAt.toLocaleTimeString()}...`; } } });
     let reposToScan: string[] = options.repos || [];
 
     if (reposToScan.length === 0) {
@@ -30,12 +46,25 @@ export const reportCommand = new Command('report')
       } catch (error) { spinner.stop(); console.error(chalk.red('Error fetching repositories:'), error); process.exit(1); }
     }
 
-    const spinner = ora('Scanning repositories for compliance report...').start();
-    const results = await scanner.scanMultipleRepos(reposToScan);
-    spinner.succeed(`Scanned ${results.length} repositories`);
+    const orgResults: OrgScanResult[] = [];
+    if (options.org && options.orgChecks) {
+      const spinner = ora(`Checking ${options.org} organization settings...`).start();
+      try { orgResults.push(await scanner.scanOrganization(options.org)); spinner.succeed(`Checked ${options.org} organization settings`); }
+      catch (error: any) { spinner.fail(`${options.org} organization settings - ${chalk.red('Error:')} ${error.message}`); }
+    }
+
+    let completed = 0;
+    progress.start('Scanning repositories for compliance report...');
+    const { results, failedRepos } = await scanner.scanRepositories(reposToScan, ({ repository, result, error }) => {
+      completed++;
+      if (error) { progress.stop(); ora().fail(`${repository} - ${chalk.red('Error:')} ${error.message}`); progress.start(); }
+      if (result?.historyError) { progress.stop(); ora().warn(`${repository} - ${chalk.yellow('Not recorded in scan history:')} ${result.historyError}`); progress.start(); }
+      progress.text = `Scanning repositories for compliance report (${completed}/${reposToScan.length})...`;
+    });
+    progress.succeed(`Scanned ${results.length} repositories${failedRepos.length > 0 ? chalk.red(` (${failedRepos.length} failed)`) : ''}`);
 
     if (options.type === 'soc2') {
-      const report = generateSOC2Report(results);
+      const report = generateSOC2Report(results, failedRepos, orgResults);
       let output: string = options.format === 'json' ? formatSOC2ReportJSON(report) : formatSOC2ReportMarkdown(report);
       if (options.output) { const fs = await import('fs'); fs.writeFileSync(options.output, output); console.log(chalk.green(`\nSOC 2 report written to ${options.output}`)); console.log(`Overall Compliance: ${report.overallCompliance}%`); }
       else console.log('\n' + output);
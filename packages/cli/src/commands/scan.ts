@@ -2,24 +2,93 @@ import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
-import { GitHubSecurityScanner, RepoScanResult, Severity } from '@ghsec/core';
+import { GitHubSecurityScanner, RepoScanResult, OrgScanResult, FailedRepo, Severity, ScoringModelName, findUnknownChecks, readScanResultsFile, applyBaseline, defaultHistoryDirectory } from '@ghsec/core';
 import { formatScanResults } from '../utils/formatter';
+import { loadPolicy } from '../utils/policy';
+import { resolveCredentials } from '../utils/credentials';
 
 export const scanCommand = new Command('scan')
   .description('Scan GitHub repositories for security configuration issues')
   .option('-t, --token <token>', 'GitHub personal access token (or set GITHUB_TOKEN env)')
+  .option('--app-id <id>', 'GitHub App ID, to authenticate as an app installation (or set GITHUB_APP_ID env)')
+  .option('--app-installation-id <id>', 'GitHub App installation ID (or set GITHUB_APP_INSTALLATION_ID env)')
+  .option('--app-private-key <file>', 'GitHub App private key PEM file (or set GITHUB_APP_PRIVATE_KEY / GITHUB_APP_PRIVATE_KEY_PATH env)')
+  .option('--base-url <url>', 'GitHub Enterprise Server API URL (or set GITHUB_API_URL env)')
+  .option('--api-version <version>', 'REST API version header, e.g. 2022-11-28 (or set GITHUB_API_VERSION env)')
   .option('-r, --repos <repos...>', 'Specific repositories to scan (owner/repo format)')
-  .option('-o, --org <org>', 'Scan all repositories in an organization')
+  .option('-o, --org <org>', 'Scan all repositories in an organization, and its organization settings')
+  .option('--path <dir>', 'Scan a local git checkout offline; checks that need the GitHub API are skipped')
+  .option('--no-org-checks', 'With --org, skip the organization settings checks')
   .option('--include-archived', 'Include archived repositories')
   .option('--include-forks', 'Include forked repositories')
   .option('-s, --severity <level>', 'Minimum severity to report', 'low')
+  .option('-c, --checks <checks...>', 'Only run these checks (check IDs or categories)')
+  .option('-x, --exclude-checks <checks...>', 'Skip these checks (check IDs or categories)')
+  .option('--scoring <model>', 'Scoring model (flat|weighted)', 'flat')
+  .option('--concurrency <n>', 'Number of repositories to scan in parallel', '4')
+  .option('--min-coverage <percent>', 'Minimum percent of checks that must be evaluated per repository')
+  .option('--coverage-action <action>', 'Below --min-coverage: warn, or fail the repository (warn|fail)', 'warn')
+  .option('--release-branches <patterns...>', 'Release branch globs to check besides the default branch (default: release/** hotfix/**)')
+  .option('--release-tags <patterns...>', 'Release tag globs whose protection is checked (default: v*)')
+  .option('--no-history', 'Do not record results in the local scan history')
+  .option('-p, --policy <file>', 'Policy file (defaults to .ghsec.yml or .ghsec.json in the current directory)')
+  .option('-b, --baseline <file>', 'Only report findings not present in this earlier "scan --json" output')
   .option('--json', 'Output results as JSON')
   .option('--output <file>', 'Write results to file')
   .action(async (options) => {
-    const token = options.token || process.env.GITHUB_TOKEN;
-    if (!token) { console.error(chalk.red('Error: GitHub token required.')); process.exit(1); }
+    if (options.path && (options.repos || options.org)) { console.error(chalk.red('Error: --path cannot be combined with --repos or --org.')); process.exit(1); }
+    // A local checkout is scanned without the API, so it needs no credentials
+    const credentials = options.path ? {} : resolveCredentials(options);
+
+    const unknownChecks = findUnknownChecks([...(options.checks || []), ...(options.excludeChecks || [])]);
+    if (unknownChecks.length > 0) { console.error(chalk.red(`Error: Unknown check or category: ${unknownChecks.join(', ')}. Run "ghsec checks" to list available checks.`)); process.exit(1); }
+
+    let baseline: RepoScanResult[] | undefined;
+    if (options.baseline) {
+      try { baseline = readScanResultsFile(options.baseline); }
+      catch (error: any) { console.error(chalk.red(`Error reading baseline: ${error.message}`)); process.exit(1); }
+    }
+
+    const concurrency = parseInt(options.concurrency, 10);
+    if (!Number.isInteger(concurrency) || concurrency < 1) { console.error(chalk.red('Error: --concurrency must be a positive integer.')); process.exit(1); }
+
+    const minCoverage = options.minCoverage !== undefined ? Number(options.minCoverage) : undefined;
+    if (minCoverage !== undefined && (!Number.isFinite(minCoverage) || minCoverage < 0 || minCoverage > 100)) { console.error(chalk.red('Error: --min-coverage must be a number between 0 and 100.')); process.exit(1); }
+    if (!['warn', 'fail'].includes(options.coverageAction)) { console.error(chalk.red('Error: --coverage-action must be warn or fail.')); process.exit(1); }
+
+    if (!['flat', 'weighted'].includes(options.scoring)) { console.error(chalk.red(`Error: Unknown scoring model: ${options.scoring}. Available models: flat, weighted`)); process.exit(1); }
+
+    const progress = ora();
+    const scanner = new GitHubSecurityScanner({ ...credentials, baseUrl: options.baseUrl || process.env.GITHUB_API_URL, apiVersion: options.apiVersion || process.env.GITHUB_API_VERSION, repos: options.repos, org: options.org, includeArchived: options.includeArchived, includeForks: options.includeForks, severityThreshold: options.severity as Severity, checks: options.checks, excludeChecks: options.excludeChecks, releaseBranches: options.releaseBranches, releaseTags: options.releaseTags, policy: loadPolicy(options.policy), historyDir: options.history ? defaultHistoryDirectory() : undefined, concurrency, scoring: options.scoring as ScoringModelName, minCoverage, coverageAction: options.coverageAction, rateLimit: { onRateLimit: (event) => { if (progress.isSpinning) progress.text = `Rate limited (${event.type}), resuming at ${event.resumeAt.toLocaleTimeString()}...`; } } });
+
+    const writeResults = async (results: RepoScanResult[], failedRepos: FailedRepo[], orgResult?: OrgScanResult) => {
+      if (baseline) {
+        results = applyBaseline(results, baseline);
+        console.error(chalk.dim(`\nBaseline applied: showing ${results.reduce((sum, r) => sum + r.findings.length, 0)} finding(s) not present in ${options.baseline}`));
+      }
+
+      if (options.json) {
+        const output = JSON.stringify(orgResult ? { organization: orgResult, repositories: results } : results, null, 2);
+        if (options.output) { const fs = await import('fs'); fs.writeFileSync(options.output, output); console.log(chalk.green(`Results written to ${options.output}`)); }
+        else console.log(output);
+      } else {
+        console.log('\n' + formatScanResults(results, failedRepos, orgResult));
+        if (options.output) { const fs = await import('fs'); fs.writeFileSync(options.output, formatScanResults(results, failedRepos, orgResult)); console.log(chalk.green(`Results written to ${options.output}`)); }
+      }
+    };
+
+    if (options.path) {
+      const spinner = ora(`Scanning local checkout ${options.path}...`).start();
+      let result: RepoScanResult;
+      try {
+        result = await scanner.scanLocalRepository(options.path);
+      } catch (error: any) { spinner.fail(`${options.path} - ${chalk.red('Error:')} ${error.message}`); process.exit(1); }
+      const offline = result.coverage.checks.filter(check => check.reason === 'offline').length;
+      spinner.succeed(`${result.repository.fullName} - ${result.findings.length === 0 ? chalk.green('No issues found') : chalk.yellow(`${result.findings.length} issue(s)`)} (Score: ${result.score}/100, ${result.grade}; ${offline} check(s) need the GitHub API and were skipped)`);
+      await writeResults([result], []);
+      return;
+    }
 
-    const scanner = new GitHubSecurityScanner({ token, repos: options.repos, org: options.org, includeArchived: options.includeArchived, includeForks: options.includeForks, severityThreshold: options.severity as Severity });
     let reposToScan: string[] = options.repos || [];
 
     if (reposToScan.length === 0) {
@@ -33,25 +102,64 @@ export const scanCommand = new Command('scan')
       } catch (error) { spinner.stop(); console.error(chalk.red('Error fetching repositories:'), error); process.exit(1); }
     }
 
-    const results: RepoScanResult[] = [];
-    for (const repoFullName of reposToScan) {
-      const spinner = ora(`Scanning ${repoFullName}...`).start();
+    let orgResult: OrgScanResult | undefined;
+    if (options.org && options.orgChecks) {
+      const spinner = ora(`Checking ${options.org} organization settings...`).start();
       try {
-        const [owner, repo] = repoFullName.split('/');
-        const result = await scanner.scanRepository(owner, repo);
-        results.push(result);
-        const issueCount = result.findings.length;
-        if (issueCount === 0) spinner.succeed(`${repoFullName} - ${chalk.green('No issues found')} (Score: ${result.score}/100)`);
-        else spinner.warn(`${repoFullName} - ${chalk.yellow(`${issueCount} issue(s)`)} (Score: ${result.score}/100)`);
-      } catch (error: any) { spinner.fail(`${repoFullName} - ${chalk.red('Error:')} ${error.message}`); }
+        orgResult = await scanner.scanOrganization(options.org);
+        spinner.succeed(`${options.org} organization settings - ${orgResult.findings.length === 0 ? chalk.green('No issues found') : chalk.yellow(`${orgResult.findings.length} issue(s)`)} (Score: ${orgResult.score}/100, ${orgResult.grade}${orgResult.coverage.complete ? '' : ', incomplete evidence'})`);
+      } catch (error: any) { spinner.fail(`${options.org} organization settings - ${chalk.red('Error:')} ${error.message}`); }
     }
 
-    if (options.json) {
-      const output = JSON.stringify(results, null, 2);
-      if (options.output) { const fs = await import('fs'); fs.writeFileSync(options.output, output); console.log(chalk.green(`Results written to ${options.output}`)); }
-      else console.log(output);
-    } else {
-      console.log('\n' + formatScanResults(results));
-      if (options.output) { const fs = await import('fs'); fs.writeFileSync(options.output, formatScanResults(results)); console.log(chalk.green(`Results written to ${options.output}`)); }
+    let completed = 0;
+    const inFlight = new Map<string, { total: number; done: string[] }>();
+    const progressText = () => {
+      const current = [...inFlight].map(([repo, checks]) => `${repo} ${checks.done.length}/${checks.total}`).join(', ');
+      return `Scanning repositories (${completed}/${reposToScan.length})${current ? ` — ${current} checks` : ''}...`;
+    };
+
+    // First Ctrl+C stops the scan and keeps what finished; a second one quits immediately
+    const controller = new AbortController();
+    const onInterrupt = () => {
+      if (controller.signal.aborted) process.exit(130);
+      controller.abort();
+      progress.text = 'Cancelling scan (press Ctrl+C again to quit)...';
+    };
+    process.on('SIGINT', onInterrupt);
+
+    progress.start(`Scanning ${reposToScan.length} repositories...`);
+    const { results: scanned, failedRepos, cancelledRepos } = await scanner.scanRepositories(reposToScan, ({ repository, result, error }) => {
+      completed++;
+      progress.stop();
+      if (error) ora().fail(`${repository} - ${chalk.red('Error:')} ${error.message}`);
+      else if (result!.findings.length === 0) ora().succeed(`${repository} - ${chalk.green('No issues found')} (Score: ${result!.score}/100, ${result!.grade}${result!.coverage.complete ? '' : ', incomplete evidence'})`);
+      else ora().warn(`${repository} - ${chalk.yellow(`${result!.findings.length} issue(s)`)} (Score: ${result!.score}/100, ${result!.grade}${result!.coverage.complete ? '' : ', incomplete evidence'})`);
+      if (result?.historyError) ora().warn(`${repository} - ${chalk.yellow('Not recorded in scan history:')} ${result.historyError}`);
+      progress.start(progressText());
+    }, {
+      signal: controller.signal,
+      onProgress: (event) => {
+        if (event.type === 'repo-started') inFlight.set(event.repository, { total: event.checks, done: [] });
+        else if (event.type === 'check-completed') inFlight.get(event.repository)?.done.push(event.coverage.checkId);
+        else if (event.type === 'repo-finished' || event.type === 'error') inFlight.delete(event.repository);
+        if (!controller.signal.aborted) progress.text = progressText();
+      },
+    });
+    progress.stop();
+    process.off('SIGINT', onInterrupt);
+
+    if (controller.signal.aborted) {
+      console.error(chalk.yellow(`\nScan interrupted: ${scanned.length} of ${reposToScan.length} repositories scanned.`));
+      for (const repository of cancelledRepos) {
+        const checks = inFlight.get(repository);
+        if (checks) console.error(chalk.yellow(`   ◐ ${repository}: discarded after ${checks.done.length}/${checks.total} checks (${checks.done.join(', ') || 'none'})`));
+      }
+      const notStarted = cancelledRepos.filter(repository => !inFlight.has(repository)).length;
+      if (notStarted > 0) console.error(chalk.yellow(`   ○ ${notStarted} repositor${notStarted === 1 ? 'y' : 'ies'} not started`));
+      process.exitCode = 130;
     }
+    await writeResults(scanned, failedRepos, orgResult);
+
+    // With --coverage-action fail, repositories below --min-coverage are reported as not scanned
+    if (options.coverageAction === 'fail' && failedRepos.length > 0) process.exitCode = 1;
   });
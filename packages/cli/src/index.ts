@@ -2,9 +2,19 @@
 import { Command } from 'commander';
 import { scanCommand } from './commands/scan';
 import { reportCommand } from './commands/report';
+import { checksCommand } from './commands/checks';
+import { diffCommand } from './commands/diff';
+import { historyCommand } from './commands/history';
+import { doctorCommand } from './commands/doctor';
+import { accessCommand } from './commands/access';
 
 const program = new Command();
 program.name('ghsec').description('GitHub Security Configuration Checker').version('0.1.0');
 program.addCommand(scanCommand);
 program.addCommand(reportCommand);
+program.addCommand(checksCommand);
+program.addCommand(diffCommand);
+program.addCommand(historyCommand);
+program.addCommand(doctorCommand);
+program.addCommand(accessCommand);
 program.parse();
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import chalk from 'chalk';
+import { GitHubCredentials, loadAppCredentialsFromEnv } from '@ghsec/core';
+
+export interface CredentialOptions {
+  token?: string;
+  appId?: string;
+  appInstallationId?: string;
+  appPrivateKey?: string;
+}
+
+/**
+ * Resolves credentials from --token or the --app-* flags, then GITHUB_TOKEN, then the
+ * GITHUB_APP_* environment variables. Exits with an error when none are usable.
+ */
+export function resolveCredentials(options: CredentialOptions): GitHubCredentials {
+  if (options.token) return { token: options.token };
+
+  const appFlags = [options.appId, options.appInstallationId, options.appPrivateKey];
+  if (appFlags.some(Boolean)) {
+    if (!appFlags.every(Boolean)) {
+      console.error(chalk.red('Error: --app-id, --app-installation-id and --app-private-key must be used together.'));
+      process.exit(1);
+    }
+    try {
+      return { app: { appId: options.appId!, installationId: options.appInstallationId!, privateKey: fs.readFileSync(options.appPrivateKey!, 'utf8') } };
+    } catch (error: any) {
+      console.error(chalk.red(`Error reading GitHub App private key: ${error.message}`));
+      process.exit(1);
+    }
+  }
+
+  if (process.env.GITHUB_TOKEN) return { token: process.env.GITHUB_TOKEN };
+
+  let app;
+  try {
+    app = loadAppCredentialsFromEnv();
+  } catch (error: any) {
+    console.error(chalk.red(`Error reading GitHub App private key: ${error.message}`));
+    process.exit(1);
+  }
+  if (app) return { app };
+
+  console.error(chalk.red('Error: GitHub token or GitHub App credentials required.'));
+  process.exit(1);
+}
@@ -1,34 +1,171 @@
 import chalk from 'chalk';
-import { RepoScanResult, SecurityFinding, Severity } from '@ghsec/core';
+import { explainScore, describeServer, shortRef, formatLocation, PreflightReport, CapabilityStatus, RepoScanResult, OrgScanResult, FailedRepo, SecurityFinding, Severity, CheckMetadata, ScanDiff, ScoreHistoryPoint, FindingHistory, RemediationStats } from '@ghsec/core';
 
 const severityColors: Record<Severity, (text: string) => string> = { critical: chalk.bgRed.white, high: chalk.red, medium: chalk.yellow, low: chalk.blue, info: chalk.gray };
 const severityIcons: Record<Severity, string> = { critical: '🔴', high: '🟠', medium: '🟡', low: '🔵', info: 'ℹ️' };
 
-export function formatScanResults(results: RepoScanResult[]): string {
+export function formatScanResults(results: RepoScanResult[], failedRepos: FailedRepo[] = [], orgResult?: OrgScanResult): string {
   const lines: string[] = [];
   lines.push(chalk.bold('\n═══════════════════════════════════════════════════════════════'));
   lines.push(chalk.bold('                    SECURITY SCAN RESULTS'));
   lines.push(chalk.bold('═══════════════════════════════════════════════════════════════\n'));
+  if (orgResult) { lines.push(formatOrgResult(orgResult)); lines.push(''); }
   for (const result of results) { lines.push(formatRepoResult(result)); lines.push(''); }
   const totalFindings = results.reduce((sum, r) => sum + r.findings.length, 0);
   const avgScore = Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length);
   lines.push(chalk.bold('───────────────────────────────────────────────────────────────'));
   lines.push(chalk.bold('SUMMARY'));
+  if (orgResult) lines.push(`Organization score: ${formatScore(orgResult.score)} Grade ${orgResult.grade}`);
   lines.push(`Repositories scanned: ${results.length}`);
   lines.push(`Total findings: ${totalFindings}`);
   lines.push(`Average security score: ${formatScore(avgScore)}`);
+  const incomplete = results.filter(r => !r.coverage.complete).length;
+  if (incomplete > 0) lines.push(chalk.yellow(`Incomplete coverage: ${incomplete} repositor${incomplete === 1 ? 'y' : 'ies'} had checks that could not run`));
+  const belowMinimum = results.filter(r => r.coverage.belowMinimum).length;
+  if (belowMinimum > 0) lines.push(chalk.red(`Below minimum coverage: ${belowMinimum} repositor${belowMinimum === 1 ? 'y' : 'ies'} (run "ghsec doctor" to see which permissions are missing)`));
+  if (failedRepos.length > 0) {
+    lines.push(chalk.red(`Repositories not scanned: ${failedRepos.length}`));
+    for (const failed of failedRepos) lines.push(chalk.red(`   ✗ ${failed.repository}: ${failed.httpStatus ? `HTTP ${failed.httpStatus} ` : ''}${failed.error}`));
+  }
   lines.push(chalk.bold('───────────────────────────────────────────────────────────────'));
   return lines.join('\n');
 }
 
+export function formatScanDiff(diff: ScanDiff): string {
+  const lines: string[] = [];
+  lines.push(chalk.bold('\n═══════════════════════════════════════════════════════════════'));
+  lines.push(chalk.bold('                      SCAN COMPARISON'));
+  lines.push(chalk.bold('═══════════════════════════════════════════════════════════════\n'));
+  for (const repo of diff.repositories) {
+    const statusLabel = repo.status === 'added' ? chalk.cyan(' (new repository)') : repo.status === 'removed' ? chalk.dim(' (not in latest scan)') : '';
+    lines.push(chalk.bold(`📁 ${repo.repository}`) + statusLabel);
+    if (repo.score.previous !== null && repo.score.current !== null) {
+      const delta = repo.score.delta > 0 ? chalk.green(`+${repo.score.delta}`) : repo.score.delta < 0 ? chalk.red(`${repo.score.delta}`) : chalk.dim('±0');
+      lines.push(`   Score: ${repo.score.previous} → ${repo.score.current} (${delta})`);
+    }
+    if (repo.visibilityChange) lines.push(chalk.yellow(`   Visibility changed: ${repo.visibilityChange.previous} → ${repo.visibilityChange.current}`));
+    if (repo.defaultBranchChange) lines.push(chalk.yellow(`   Default branch changed: ${repo.defaultBranchChange.previous} → ${repo.defaultBranchChange.current}`));
+    for (const finding of repo.newFindings) lines.push(`   ${chalk.red('+')} ${severityIcons[finding.severity]} ${severityColors[finding.severity](finding.severity.toUpperCase())} ${finding.title}${finding.ref ? chalk.dim(` [${shortRef(finding.ref)}]`) : ''}`);
+    for (const finding of repo.resolvedFindings) lines.push(`   ${chalk.green('-')} ${chalk.dim(`${finding.title}${finding.ref ? ` [${shortRef(finding.ref)}]` : ''} (resolved)`)}`);
+    if (repo.unchangedFindings.length > 0) lines.push(chalk.dim(`   ${repo.unchangedFindings.length} unchanged finding(s)`));
+    lines.push('');
+  }
+  lines.push(chalk.bold('───────────────────────────────────────────────────────────────'));
+  lines.push(chalk.bold('SUMMARY'));
+  lines.push(`New findings: ${diff.totals.newFindings}`);
+  lines.push(`Resolved findings: ${diff.totals.resolvedFindings}`);
+  lines.push(`Unchanged findings: ${diff.totals.unchangedFindings}`);
+  lines.push(chalk.bold('───────────────────────────────────────────────────────────────'));
+  return lines.join('\n');
+}
+
+export function formatRepoHistory(repo: string, scores: ScoreHistoryPoint[], findings: FindingHistory[]): string {
+  const lines: string[] = [];
+  lines.push(chalk.bold(`📁 ${repo}`), '');
+  lines.push(chalk.bold('   Score over time'));
+  for (const point of scores) lines.push(`      ${point.scannedAt.toISOString().slice(0, 10)}  ${formatScore(point.score)}  ${chalk.dim(`${point.findings} finding(s)`)}`);
+  lines.push('');
+
+  const open = findings.filter(f => f.open);
+  const resolved = findings.filter(f => !f.open);
+  lines.push(chalk.bold(`   Open findings (${open.length})`));
+  for (const finding of open) lines.push(`      ${severityIcons[finding.severity]} ${finding.title}${finding.ref ? ` [${shortRef(finding.ref)}]` : ''} ${chalk.dim(`since ${finding.firstSeen.toISOString().slice(0, 10)}`)}`);
+  if (resolved.length > 0) {
+    lines.push('', chalk.bold(`   Resolved findings (${resolved.length})`));
+    for (const finding of resolved) lines.push(chalk.dim(`      ✓ ${finding.title} (${finding.firstSeen.toISOString().slice(0, 10)} → ${finding.resolvedAt!.toISOString().slice(0, 10)})`));
+  }
+  return lines.join('\n');
+}
+
+export function formatRemediationStats(stats: RemediationStats[]): string {
+  if (stats.length === 0) return chalk.yellow('No remediated findings in the scan history yet.');
+  const lines: string[] = [chalk.bold('Mean time to remediate'), ''];
+  for (const stat of stats) lines.push(`   ${stat.findingId.padEnd(32)} ${String(stat.meanTimeToRemediateDays).padStart(6)} days  ${chalk.dim(`(${stat.remediations} remediation(s))`)}`);
+  return lines.join('\n');
+}
+
+export function formatCheckCatalog(checks: CheckMetadata[]): string {
+  const lines: string[] = [];
+  const byCategory = groupBy(checks, 'category');
+  for (const [category, categoryChecks] of Object.entries(byCategory)) {
+    lines.push(chalk.bold(formatCategory(category)));
+    for (const check of categoryChecks) {
+      const colorFn = severityColors[check.defaultSeverity];
+      lines.push(`   ${chalk.cyan(check.id)} ${colorFn(check.defaultSeverity.toUpperCase())} ${check.name}${check.soc2Control ? chalk.dim(` [${check.soc2Control}]`) : ''}`);
+      lines.push(chalk.dim(`      ${check.description}`));
+      lines.push(chalk.dim(`      Permissions: ${check.requiredPermissions.join(', ')}`));
+      lines.push(chalk.dim(`      Findings: ${check.findingIds.join(', ')}`));
+    }
+    lines.push('');
+  }
+  lines.push(`${checks.length} check(s) available`);
+  return lines.join('\n');
+}
+
+export function formatCheckCatalogMarkdown(checks: CheckMetadata[]): string {
+  const lines: string[] = ['| Check | Category | Severity | SOC 2 | Permissions | Findings |', '|-------|----------|----------|-------|-------------|----------|'];
+  for (const check of checks) {
+    lines.push(`| \`${check.id}\` | ${check.category} | ${check.defaultSeverity} | ${check.soc2Control || '-'} | ${check.requiredPermissions.join(', ')} | ${check.findingIds.map(id => `\`${id}\``).join(', ')} |`);
+  }
+  return lines.join('\n');
+}
+
+export function formatPreflightReport(report: PreflightReport): string {
+  const statusIcons: Record<CapabilityStatus, string> = { available: chalk.green('✔'), degraded: chalk.yellow('⚠'), unavailable: chalk.red('✗') };
+  const lines: string[] = [];
+  lines.push(chalk.bold('\n═══════════════════════════════════════════════════════════════'));
+  lines.push(chalk.bold('                     TOKEN PREFLIGHT'));
+  lines.push(chalk.bold('═══════════════════════════════════════════════════════════════\n'));
+  lines.push(`Server: ${describeServer(report.server)}`);
+  lines.push(`Credentials: ${report.token.type}${report.token.login ? ` (${report.token.login})` : ''}`);
+  if (report.token.scopes) lines.push(`Scopes: ${report.token.scopes.join(', ') || chalk.dim('none')}`);
+  if (report.token.expiresAt) lines.push(`Expires: ${report.token.expiresAt.toISOString().slice(0, 10)}`);
+  if (report.repository) lines.push(`Probed repository: ${report.repository}`);
+  for (const warning of report.warnings) lines.push(chalk.yellow(`⚠ ${warning}`));
+  lines.push('');
+  lines.push(chalk.bold('Checks'));
+  for (const check of report.checks) {
+    lines.push(`   ${statusIcons[check.status]} ${check.checkId.padEnd(28)} ${check.status}`);
+    if (check.reason) lines.push(chalk.dim(`        ${check.reason}`));
+  }
+  lines.push('');
+  lines.push(chalk.bold('Fixes'));
+  for (const fix of report.fixes) {
+    lines.push(`   ${statusIcons[fix.status]} ${fix.findingId.padEnd(28)} ${fix.status}${fix.reason ? chalk.dim(` — ${fix.reason}`) : ''}`);
+  }
+  lines.push('');
+  const coverageColor = report.coverage >= 80 ? chalk.green : report.coverage >= 60 ? chalk.yellow : chalk.red;
+  lines.push(`Check coverage: ${coverageColor(`${report.coverage}%`)} of checks will run`);
+  return lines.join('\n');
+}
+
 function formatRepoResult(result: RepoScanResult): string {
   const lines: string[] = [];
   lines.push(chalk.bold(`📁 ${result.repository.fullName}`));
   lines.push(`   ${chalk.dim(result.repository.url)}`);
   lines.push(`   Visibility: ${result.repository.visibility} | Branch: ${result.repository.defaultBranch}`);
-  lines.push(`   Security Score: ${formatScore(result.score)}`);
+  lines.push(`   Security Score: ${formatScore(result.score)} Grade ${result.grade} ${chalk.dim(`(${result.scoreBreakdown.model} model)`)}${result.coverage.complete ? '' : chalk.yellow(' (incomplete evidence)')}`);
+  for (const line of explainScore(result.scoreBreakdown)) lines.push(chalk.dim(`      ${line}`));
   lines.push('');
-  if (result.findings.length === 0) { lines.push(chalk.green('   ✅ No security issues found!')); }
+  lines.push(formatResultDetails(result));
+  return lines.join('\n');
+}
+
+function formatOrgResult(result: OrgScanResult): string {
+  const lines: string[] = [];
+  lines.push(chalk.bold(`🏢 ${result.organization.login}${result.organization.name ? ` (${result.organization.name})` : ''}`));
+  lines.push(`   ${chalk.dim(result.organization.url)}`);
+  lines.push(`   Organization Score: ${formatScore(result.score)} Grade ${result.grade} ${chalk.dim(`(${result.scoreBreakdown.model} model)`)}${result.coverage.complete ? '' : chalk.yellow(' (incomplete evidence)')}`);
+  for (const line of explainScore(result.scoreBreakdown)) lines.push(chalk.dim(`      ${line}`));
+  lines.push('');
+  lines.push(formatResultDetails(result));
+  return lines.join('\n');
+}
+
+/** Findings, counts, coverage gaps and accepted risks shared by repository and organization results */
+function formatResultDetails(result: Pick<RepoScanResult, 'findings' | 'summary' | 'coverage' | 'suppressedFindings'>): string {
+  const lines: string[] = [];
+  if (result.findings.length === 0) { lines.push(result.coverage.complete ? chalk.green('   ✅ No security issues found!') : chalk.green('   ✅ No security issues found in the checks that ran')); }
   else {
     const byCategory = groupBy(result.findings, 'category');
     for (const [category, findings] of Object.entries(byCategory)) {
@@ -38,8 +175,24 @@ function formatRepoResult(result: RepoScanResult): string {
     }
   }
   const { summary } = result;
-  const counts = [summary.critical > 0 ? chalk.bgRed.white(` ${summary.critical} CRITICAL `) : null, summary.high > 0 ? chalk.red(`${summary.high} high`) : null, summary.medium > 0 ? chalk.yellow(`${summary.medium} medium`) : null, summary.low > 0 ? chalk.blue(`${summary.low} low`) : null, summary.info > 0 ? chalk.gray(`${summary.info} info`) : null].filter(Boolean);
+  const counts = [summary.critical > 0 ? chalk.bgRed.white(` ${summary.critical} CRITICAL `) : null, summary.high > 0 ? chalk.red(`${summary.high} high`) : null, summary.medium > 0 ? chalk.yellow(`${summary.medium} medium`) : null, summary.low > 0 ? chalk.blue(`${summary.low} low`) : null, summary.info > 0 ? chalk.gray(`${summary.info} info`) : null, summary.passed > 0 ? chalk.green(`${summary.passed} passed`) : null].filter(Boolean);
   if (counts.length > 0) lines.push(`   Findings: ${counts.join(' | ')}`);
+  const notEvaluated = result.coverage.checks.filter(c => c.status === 'skipped' || c.status === 'errored');
+  if (notEvaluated.length > 0) {
+    lines.push((result.coverage.belowMinimum ? chalk.red : chalk.yellow)(`   Checks not evaluated (${notEvaluated.length}, coverage ${result.coverage.percent}%${result.coverage.belowMinimum ? ', below minimum' : ''}):`));
+    for (const check of notEvaluated.filter(c => c.reason !== 'offline')) {
+      lines.push(chalk.yellow(`      ⚠ ${check.checkId} ${check.status}${check.httpStatus ? ` (HTTP ${check.httpStatus})` : ''}: ${check.message}`));
+    }
+    // Expected for a local checkout, so listed together rather than one warning each
+    const offline = notEvaluated.filter(c => c.reason === 'offline');
+    if (offline.length > 0) lines.push(chalk.dim(`      ○ Need the GitHub API: ${offline.map(c => c.checkId).join(', ')}`));
+  }
+  if (result.suppressedFindings.length > 0) {
+    lines.push(chalk.dim(`   Accepted risks (${result.suppressedFindings.length}):`));
+    for (const finding of result.suppressedFindings) {
+      lines.push(chalk.dim(`      ⚪ ${finding.title} — ${finding.suppression.justification} (approved by ${finding.suppression.approver}, expires ${finding.suppression.expires})`));
+    }
+  }
   return lines.join('\n');
 }
 
@@ -47,10 +200,16 @@ function formatFinding(finding: SecurityFinding): string {
   const icon = severityIcons[finding.severity];
   const colorFn = severityColors[finding.severity];
   const lines: string[] = [];
-  lines.push(`      ${icon} ${colorFn(finding.severity.toUpperCase())} ${finding.title}`);
+  lines.push(`      ${icon} ${colorFn(finding.severity.toUpperCase())} ${finding.title}${finding.ref ? chalk.dim(` [${shortRef(finding.ref)}]`) : ''}`);
   lines.push(chalk.dim(`         ${finding.description}`));
   lines.push(chalk.cyan(`         💡 ${finding.recommendation}`));
+  if (finding.location) lines.push(chalk.dim(`         📄 ${formatLocation(finding.location)}`));
+  if (finding.snippet) {
+    lines.push(chalk.dim(`         Suggested ${finding.location?.path ?? 'content'}:`));
+    for (const line of finding.snippet.trimEnd().split('\n')) lines.push(chalk.green(`           ${line}`));
+  }
   if (finding.documentationUrl) lines.push(chalk.dim(`         📚 ${finding.documentationUrl}`));
+  if (finding.policyRule) lines.push(chalk.dim(`         📐 Policy rule: ${finding.policyRule}`));
   return lines.join('\n');
 }
 
@@ -61,7 +220,7 @@ function formatScore(score: number): string {
 }
 
 function formatCategory(category: string): string {
-  const categoryNames: Record<string, string> = { 'branch-protection': '🔒 Branch Protection', 'security-features': '🛡️ Security Features', 'access-control': '👥 Access Control', 'repository-settings': '⚙️ Repository Settings', 'secrets': '🔑 Secrets', 'dependencies': '📦 Dependencies' };
+  const categoryNames: Record<string, string> = { 'branch-protection': '🔒 Branch Protection', 'security-features': '🛡️ Security Features', 'access-control': '👥 Access Control', 'repository-settings': '⚙️ Repository Settings', 'secrets': '🔑 Secrets', 'dependencies': '📦 Dependencies', 'organization': '🏢 Organization', 'workflows': '🔧 Workflows' };
   return categoryNames[category] || category;
 }
 
@@ -0,0 +1,20 @@
+import chalk from 'chalk';
+import { Policy, loadPolicyFile, findPolicyFile } from '@ghsec/core';
+
+/**
+ * Loads the policy file passed with --policy, or a .ghsec.yml/.ghsec.json in the current directory.
+ * Exits with an error when the file is invalid.
+ */
+export function loadPolicy(policyPath?: string): Policy | undefined {
+  const filePath = policyPath || findPolicyFile(process.cwd());
+  if (!filePath) return undefined;
+
+  try {
+    const policy = loadPolicyFile(filePath);
+    console.error(chalk.dim(`Using policy file ${filePath}`));
+    return policy;
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+}
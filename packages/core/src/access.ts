@@ -0,0 +1,85 @@
+import { AccessLevel, RepoAccessReview, TeamAccess, UserAccess } from './types';
+import { RepoContext, RepoTeam } from './context';
+
+/** Base permission levels, lowest first */
+export const ACCESS_LEVELS: AccessLevel[] = ['read', 'triage', 'write', 'maintain', 'admin'];
+
+// The REST API names read and write access "pull" and "push"
+const PERMISSION_NAMES: Record<string, AccessLevel> = { pull: 'read', read: 'read', triage: 'triage', push: 'write', write: 'write', maintain: 'maintain', admin: 'admin' };
+
+type PermissionFlags = { pull?: boolean; triage?: boolean; push?: boolean; maintain?: boolean; admin?: boolean };
+
+/** The highest base level in a permissions object; custom roles resolve to the base role they extend */
+export function accessLevel(permissions: PermissionFlags | undefined): AccessLevel {
+  if (permissions?.admin) return 'admin';
+  if (permissions?.maintain) return 'maintain';
+  if (permissions?.push) return 'write';
+  if (permissions?.triage) return 'triage';
+  return 'read';
+}
+
+export function hasAccessLevel(level: AccessLevel, minimum: AccessLevel): boolean {
+  return ACCESS_LEVELS.indexOf(level) >= ACCESS_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Builds who can access a repository and through what: individual grants,
+ * teams (with the members they pass access to) or the organization itself.
+ * Users come from the collaborators API, which already resolves each user's
+ * effective permission across all of these sources.
+ */
+export async function reviewRepoAccess(context: RepoContext): Promise<RepoAccessReview> {
+  const repoData = await context.getRepository();
+  const ownedByOrg = repoData.owner.type === 'Organization';
+
+  const teams: TeamAccess[] = [];
+  for (const team of await context.getTeams()) {
+    const members = await context.getTeamMembers(team.slug);
+    teams.push({
+      slug: team.slug,
+      name: team.name,
+      permission: teamAccessLevel(team),
+      role: PERMISSION_NAMES[team.permission] ?? team.permission,
+      members: members.map(member => member.login),
+      parent: team.parent?.slug,
+    });
+  }
+
+  const direct = new Set((await context.getCollaborators('direct')).map(user => user.login));
+  const outside = new Set(ownedByOrg ? (await context.getCollaborators('outside')).map(user => user.login) : []);
+
+  const users: UserAccess[] = (await context.getCollaborators()).map(user => {
+    const inherited = teams.filter(team => team.members.includes(user.login)).map(team => team.slug);
+    const affiliation: UserAccess['affiliation'] = ownedByOrg
+      ? (outside.has(user.login) ? 'outside' : 'member')
+      : (user.login === repoData.owner.login ? 'owner' : 'outside');
+    return {
+      login: user.login,
+      permission: accessLevel(user.permissions),
+      role: user.role_name,
+      affiliation,
+      direct: direct.has(user.login) && affiliation !== 'owner',
+      teams: inherited,
+      viaOrganization: ownedByOrg && affiliation === 'member' && !direct.has(user.login) && inherited.length === 0,
+    };
+  });
+  users.sort((a, b) => ACCESS_LEVELS.indexOf(b.permission) - ACCESS_LEVELS.indexOf(a.permission) || a.login.localeCompare(b.login));
+
+  return { repository: repoData.full_name, reviewedAt: new Date(), teams, users };
+}
+
+/** How a user got their access, e.g. "direct, team:platform" */
+export function describeGrants(user: UserAccess): string {
+  const grants = [
+    ...(user.affiliation === 'owner' ? ['repository owner'] : []),
+    ...(user.direct ? ['direct'] : []),
+    ...user.teams.map(team => `team:${team}`),
+    ...(user.viaOrganization ? ['organization'] : []),
+  ];
+  return grants.join(', ') || 'unknown';
+}
+
+/** The base level a team grants on the repository */
+export function teamAccessLevel(team: RepoTeam): AccessLevel {
+  return team.permissions ? accessLevel(team.permissions) : PERMISSION_NAMES[team.permission] ?? 'read';
+}
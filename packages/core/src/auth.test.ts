@@ -0,0 +1,137 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { assertCredentials, INSTALLATION_TOKEN_REFRESH_MARGIN_MS, InstallationTokenProvider, loadAppCredentialsFromEnv } from './auth';
+import { createOctokit } from './server';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const app = { appId: 1234, installationId: 5678, privateKey };
+
+function decode(part: string): any {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+}
+
+describe('against a mock GitHub App token endpoint', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  /** Authorization header of each token request */
+  let tokenRequests: string[];
+  /** Lifetime of the next token minted */
+  let expiresInMs: number;
+  /** Installation tokens the API answers 401 for */
+  let revoked: Set<string>;
+
+  beforeEach(async () => {
+    tokenRequests = [];
+    expiresInMs = 60 * 60 * 1000;
+    revoked = new Set();
+    server = http.createServer((req, res) => {
+      const authorization = req.headers.authorization || '';
+      // createOctokit adds /api/v3 to the bare host; the provider is given the API URL as is
+      const path = req.url!.replace(/^\/api\/v3/, '');
+      if (req.method === 'POST' && path === '/app/installations/5678/access_tokens') {
+        tokenRequests.push(authorization);
+        res.writeHead(201, { 'content-type': 'application/json' });
+        return res.end(JSON.stringify({ token: `ghs_${tokenRequests.length}`, expires_at: new Date(Date.now() + expiresInMs).toISOString() }));
+      }
+      if (path === '/repos/acme/widget') {
+        const status = revoked.has(authorization.replace(/^token /, '')) ? 401 : 200;
+        res.writeHead(status, { 'content-type': 'application/json' });
+        return res.end(JSON.stringify(status === 200 ? { full_name: 'acme/widget', authorization } : { message: 'Bad credentials' }));
+      }
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ message: 'Not Found' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('InstallationTokenProvider', () => {
+    it('authenticates token requests with an RS256 app JWT', async () => {
+      const before = Math.floor(Date.now() / 1000);
+      expect(await new InstallationTokenProvider(app, baseUrl).getToken()).toBe('ghs_1');
+
+      const [scheme, jwt] = tokenRequests[0].split(' ');
+      const [header, payload, signature] = jwt.split('.');
+      expect(scheme).toBe('bearer');
+      expect(decode(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+      const claims = decode(payload);
+      expect(claims.iss).toBe('1234');
+      // Backdated a minute for clock drift, and valid for less than GitHub's ten-minute limit
+      expect(claims.iat).toBeGreaterThanOrEqual(before - 60);
+      expect(claims.iat).toBeLessThanOrEqual(before - 59);
+      expect(claims.exp - claims.iat).toBe(600);
+      expect(crypto.verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+    });
+
+    it('accepts a private key with escaped newlines, as stored in environment variables', async () => {
+      await new InstallationTokenProvider({ ...app, privateKey: privateKey.replace(/\n/g, '\\n') }, baseUrl).getToken();
+
+      const [header, payload, signature] = tokenRequests[0].split(' ')[1].split('.');
+      expect(crypto.verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+    });
+
+    it('reuses a token until it is about to expire', async () => {
+      const provider = new InstallationTokenProvider(app, baseUrl);
+      expect([await provider.getToken(), await provider.getToken()]).toEqual(['ghs_1', 'ghs_1']);
+
+      provider.invalidate();
+      expiresInMs = INSTALLATION_TOKEN_REFRESH_MARGIN_MS - 1000;
+      expect(await provider.getToken()).toBe('ghs_2');
+      // Inside the refresh margin, so every call mints a new token
+      expect(await provider.getToken()).toBe('ghs_3');
+      expect(tokenRequests).toHaveLength(3);
+    });
+
+    it('shares one token request between concurrent callers', async () => {
+      const provider = new InstallationTokenProvider(app, baseUrl);
+      expect(await Promise.all([provider.getToken(), provider.getToken(), provider.getToken()])).toEqual(['ghs_1', 'ghs_1', 'ghs_1']);
+      expect(tokenRequests).toHaveLength(1);
+    });
+  });
+
+  describe('createOctokit with app credentials', () => {
+    it('sends the installation token and mints a new one once when the API rejects it', async () => {
+      const octokit = createOctokit({ app }, { baseUrl });
+
+      expect((await octokit.repos.get({ owner: 'acme', repo: 'widget' })).data).toMatchObject({ authorization: 'token ghs_1' });
+
+      revoked.add('ghs_1');
+      expect((await octokit.repos.get({ owner: 'acme', repo: 'widget' })).data).toMatchObject({ authorization: 'token ghs_2' });
+      expect(tokenRequests).toHaveLength(2);
+
+      revoked.add('ghs_2');
+      revoked.add('ghs_3');
+      await expect(octokit.repos.get({ owner: 'acme', repo: 'widget' })).rejects.toMatchObject({ status: 401 });
+      expect(tokenRequests).toHaveLength(3);
+    });
+  });
+});
+
+describe('loadAppCredentialsFromEnv', () => {
+  it('needs the app ID, installation ID and a private key', () => {
+    const env = { GITHUB_APP_ID: '1234', GITHUB_APP_INSTALLATION_ID: '5678', GITHUB_APP_PRIVATE_KEY: 'key' };
+    expect(loadAppCredentialsFromEnv(env)).toEqual({ appId: '1234', installationId: '5678', privateKey: 'key' });
+    expect(loadAppCredentialsFromEnv({ ...env, GITHUB_APP_INSTALLATION_ID: undefined })).toBeUndefined();
+    expect(loadAppCredentialsFromEnv({})).toBeUndefined();
+  });
+});
+
+describe('assertCredentials', () => {
+  it('requires exactly one of a token and app credentials', () => {
+    expect(() => assertCredentials({ token: 'ghp_test' })).not.toThrow();
+    expect(() => assertCredentials({ app })).not.toThrow();
+    expect(() => assertCredentials({ token: 'ghp_test', app })).toThrow('not both');
+    expect(() => assertCredentials({})).toThrow('are required');
+  });
+});
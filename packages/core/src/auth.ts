@@ -0,0 +1,91 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Octokit } from '@octokit/rest';
+
+export interface GitHubAppCredentials {
+  appId: string | number;
+  /** PEM private key; escaped newlines ("\n") as stored in environment variables are accepted */
+  privateKey: string;
+  installationId: string | number;
+}
+
+/** Either a personal access token or GitHub App credentials */
+export interface GitHubCredentials {
+  token?: string;
+  app?: GitHubAppCredentials;
+}
+
+export const INSTALLATION_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Mints installation access tokens for a GitHub App and caches each one until
+ * shortly before it expires. Concurrent callers share a single token request.
+ */
+export class InstallationTokenProvider {
+  private app: GitHubAppCredentials;
+  private octokit: Octokit;
+  private token?: { value: string; expiresAt: number };
+  private pending?: Promise<string>;
+
+  constructor(app: GitHubAppCredentials, baseUrl: string) {
+    this.app = { ...app, privateKey: normalizePrivateKey(app.privateKey) };
+    // Unauthenticated client; each token request carries the app JWT instead
+    this.octokit = new Octokit({ baseUrl });
+  }
+
+  async getToken(): Promise<string> {
+    if (this.token && this.token.expiresAt - INSTALLATION_TOKEN_REFRESH_MARGIN_MS > Date.now()) return this.token.value;
+    if (!this.pending) {
+      this.pending = this.createToken().finally(() => { this.pending = undefined; });
+    }
+    return this.pending;
+  }
+
+  /** Drops the cached token, e.g. after the API rejected it */
+  invalidate(): void {
+    this.token = undefined;
+  }
+
+  private async createToken(): Promise<string> {
+    const { data } = await this.octokit.apps.createInstallationAccessToken({
+      installation_id: Number(this.app.installationId),
+      headers: { authorization: `bearer ${this.createAppJwt()}` },
+    });
+    this.token = { value: data.token, expiresAt: Date.parse(data.expires_at) };
+    return data.token;
+  }
+
+  /** RS256 JWT identifying the app; backdated a minute to allow for clock drift */
+  private createAppJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: String(this.app.appId) }));
+    const signature = crypto.createSign('RSA-SHA256').update(`${header}.${payload}`).sign(this.app.privateKey);
+    return `${header}.${payload}.${base64Url(signature)}`;
+  }
+}
+
+/**
+ * Reads GitHub App credentials from GITHUB_APP_ID, GITHUB_APP_INSTALLATION_ID and
+ * GITHUB_APP_PRIVATE_KEY (or GITHUB_APP_PRIVATE_KEY_PATH). Returns undefined unless
+ * all three are set.
+ */
+export function loadAppCredentialsFromEnv(env: NodeJS.ProcessEnv = process.env): GitHubAppCredentials | undefined {
+  const privateKey = env.GITHUB_APP_PRIVATE_KEY
+    || (env.GITHUB_APP_PRIVATE_KEY_PATH ? fs.readFileSync(env.GITHUB_APP_PRIVATE_KEY_PATH, 'utf8') : undefined);
+  if (!env.GITHUB_APP_ID || !env.GITHUB_APP_INSTALLATION_ID || !privateKey) return undefined;
+  return { appId: env.GITHUB_APP_ID, installationId: env.GITHUB_APP_INSTALLATION_ID, privateKey };
+}
+
+export function assertCredentials(credentials: GitHubCredentials): void {
+  if (credentials.token && credentials.app) throw new Error('Provide either a token or GitHub App credentials, not both');
+  if (!credentials.token && !credentials.app) throw new Error('A GitHub token or GitHub App credentials are required');
+}
+
+function normalizePrivateKey(privateKey: string): string {
+  return privateKey.includes('\\n') ? privateKey.replace(/\\n/g, '\n') : privateKey;
+}
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
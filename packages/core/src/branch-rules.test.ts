@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { Octokit } from '@octokit/rest';
+import { BranchProtectionResponse, BranchRule, RepoContext, RepoMetadata, Ruleset } from './context';
+import { resolveBranchRules } from './branch-rules';
+import { checkBranchProtection } from './checks/branch-protection';
+
+interface RulesetFixture {
+  id: number;
+  name: string;
+  enforcement?: 'active' | 'evaluate' | 'disabled';
+  include?: string[];
+  rules: Array<{ type: string; parameters?: object }>;
+  bypass?: Array<{ actor_type: string; actor_id?: number }>;
+  /** Listed and enforced, but not readable with this token, like an organization ruleset */
+  unreadable?: boolean;
+}
+
+function httpError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * Answers classic protection and rulesets for the main branch from fixtures.
+ * Branch rules are the rules of the active rulesets whose conditions include
+ * the branch, the way GitHub resolves them.
+ */
+class BranchRulesContext extends RepoContext {
+  constructor(private classic: Partial<BranchProtectionResponse> | Error | undefined, private rulesets: RulesetFixture[] = []) {
+    super(new Octokit(), 'acme', 'widget', { repository: { default_branch: 'main' } as RepoMetadata });
+  }
+
+  async getBranchProtection(): Promise<BranchProtectionResponse> {
+    if (this.classic instanceof Error) throw this.classic;
+    if (!this.classic) throw httpError(404, 'Branch not protected');
+    return this.classic as BranchProtectionResponse;
+  }
+
+  async getBranchRules(branch: string): Promise<BranchRule[]> {
+    return this.rulesets
+      .filter(ruleset => (ruleset.enforcement || 'active') === 'active' && this.targets(ruleset, branch))
+      .flatMap(ruleset => ruleset.rules.map(rule => ({
+        ...rule,
+        ruleset_id: ruleset.id,
+        ruleset_source_type: ruleset.unreadable ? 'Organization' : 'Repository',
+        ruleset_source: ruleset.unreadable ? 'acme' : 'acme/widget',
+      }) as BranchRule));
+  }
+
+  async getRulesets(): Promise<Ruleset[]> {
+    return this.rulesets.map(ruleset => ({ id: ruleset.id, name: ruleset.name, target: 'branch', enforcement: ruleset.enforcement || 'active' }) as Ruleset);
+  }
+
+  async getRuleset(rulesetId: number): Promise<Ruleset> {
+    const ruleset = this.rulesets.find(candidate => candidate.id === rulesetId);
+    if (!ruleset || ruleset.unreadable) throw httpError(404, 'Not Found');
+    return {
+      id: ruleset.id,
+      name: ruleset.name,
+      target: 'branch',
+      source_type: 'Repository',
+      source: 'acme/widget',
+      enforcement: ruleset.enforcement || 'active',
+      conditions: { ref_name: { include: ruleset.include || ['~DEFAULT_BRANCH'], exclude: [] } },
+      bypass_actors: ruleset.bypass,
+      rules: ruleset.rules,
+    } as Ruleset;
+  }
+
+  private targets(ruleset: RulesetFixture, branch: string): boolean {
+    return (ruleset.include || ['~DEFAULT_BRANCH']).some(pattern => pattern === '~ALL' || pattern === `refs/heads/${branch}` || (pattern === '~DEFAULT_BRANCH' && branch === 'main'));
+  }
+}
+
+const CLASSIC = { type: 'classic' };
+
+const classicProtection: Partial<BranchProtectionResponse> = {
+  required_pull_request_reviews: { required_approving_review_count: 1, dismiss_stale_reviews: true, require_code_owner_reviews: false, url: '' },
+  required_status_checks: { strict: true, contexts: ['build'], checks: [{ context: 'build', app_id: null }] },
+  enforce_admins: { enabled: false, url: '' },
+};
+
+const mainRuleset: RulesetFixture = {
+  id: 1,
+  name: 'main protection',
+  rules: [
+    { type: 'pull_request', parameters: { required_approving_review_count: 2, dismiss_stale_reviews_on_push: false, require_code_owner_review: true, require_last_push_approval: false, required_review_thread_resolution: true } },
+    { type: 'required_status_checks', parameters: { required_status_checks: [{ context: 'build' }, { context: 'lint' }], strict_required_status_checks_policy: false } },
+    { type: 'non_fast_forward' },
+    { type: 'deletion' },
+  ],
+};
+
+const MAIN_RULESET = { type: 'ruleset', rulesetId: 1, name: 'main protection' };
+
+describe('resolveBranchRules', () => {
+  it('reads classic branch protection alone', async () => {
+    const rules = await resolveBranchRules(new BranchRulesContext(classicProtection), 'main');
+
+    expect(rules).toMatchObject({
+      sources: [CLASSIC],
+      rulesetsEvaluated: true,
+      pullRequestReviews: { value: true, sources: [CLASSIC] },
+      requiredApprovals: { value: 1, sources: [CLASSIC] },
+      dismissStaleReviews: { value: true, sources: [CLASSIC] },
+      statusChecks: { value: ['build'], sources: [CLASSIC] },
+      forcePushesBlocked: { value: true, sources: [CLASSIC] },
+      deletionsBlocked: { value: true, sources: [CLASSIC] },
+      adminBypass: [CLASSIC],
+    });
+    expect(rules.codeOwnerReviews).toBeUndefined();
+    expect(rules.conversationResolution).toBeUndefined();
+  });
+
+  it('reads an active ruleset alone', async () => {
+    const rules = await resolveBranchRules(new BranchRulesContext(undefined, [mainRuleset]), 'main');
+
+    expect(rules).toMatchObject({
+      sources: [MAIN_RULESET],
+      requiredApprovals: { value: 2, sources: [MAIN_RULESET] },
+      codeOwnerReviews: { value: true, sources: [MAIN_RULESET] },
+      conversationResolution: { value: true, sources: [MAIN_RULESET] },
+      statusChecks: { value: ['build', 'lint'] },
+      forcePushesBlocked: { value: true, sources: [MAIN_RULESET] },
+      adminBypass: [],
+      broadBypass: [],
+    });
+    expect(rules.dismissStaleReviews).toBeUndefined();
+    expect(await resolveBranchRules(new BranchRulesContext(undefined, [mainRuleset]), 'develop')).toMatchObject({ sources: [], rulesetsEvaluated: true });
+  });
+
+  it('merges classic protection and rulesets, keeping the strictest value and every source that enforces it', async () => {
+    const rules = await resolveBranchRules(new BranchRulesContext(classicProtection, [mainRuleset]), 'main');
+
+    expect(rules.sources).toEqual([CLASSIC, MAIN_RULESET]);
+    expect(rules.pullRequestReviews?.sources).toEqual([CLASSIC, MAIN_RULESET]);
+    expect(rules.requiredApprovals).toEqual({ value: 2, sources: [MAIN_RULESET] });
+    expect(rules.dismissStaleReviews?.sources).toEqual([CLASSIC]);
+    expect(rules.statusChecks?.value).toEqual(['build', 'lint']);
+    // A ruleset cannot stop administrators bypassing classic protection
+    expect(rules.adminBypass).toEqual([CLASSIC]);
+
+    const equal = await resolveBranchRules(new BranchRulesContext(
+      { ...classicProtection, required_pull_request_reviews: { ...classicProtection.required_pull_request_reviews!, required_approving_review_count: 2 } },
+      [mainRuleset]
+    ), 'main');
+    expect(equal.requiredApprovals).toEqual({ value: 2, sources: [CLASSIC, MAIN_RULESET] });
+  });
+
+  it('lists evaluate-mode rulesets targeting the branch without applying their rules', async () => {
+    const rules = await resolveBranchRules(new BranchRulesContext(undefined, [
+      { ...mainRuleset, enforcement: 'evaluate' },
+      { id: 2, name: 'release trial', enforcement: 'evaluate', include: ['refs/heads/release/*'], rules: [{ type: 'deletion' }] },
+      { id: 3, name: 'retired', enforcement: 'disabled', rules: [{ type: 'deletion' }] },
+    ]), 'main');
+
+    expect(rules.evaluateRulesets).toEqual([MAIN_RULESET]);
+    expect(rules.sources).toEqual([]);
+    expect(rules.pullRequestReviews).toBeUndefined();
+  });
+
+  it('sorts bypass actors into administrators and broad grants', async () => {
+    const rules = await resolveBranchRules(new BranchRulesContext(undefined, [
+      { ...mainRuleset, bypass: [{ actor_type: 'RepositoryRole', actor_id: 5 }, { actor_type: 'Integration', actor_id: 42 }] },
+      {
+        id: 2,
+        name: 'signed commits',
+        rules: [{ type: 'required_signatures' }],
+        bypass: [{ actor_type: 'OrganizationAdmin', actor_id: 1 }, { actor_type: 'RepositoryRole', actor_id: 4 }, { actor_type: 'RepositoryRole', actor_id: 99 }, { actor_type: 'DeployKey' }],
+      },
+    ]), 'main');
+
+    const signed = { type: 'ruleset', rulesetId: 2, name: 'signed commits' };
+    expect(rules.adminBypass).toEqual([MAIN_RULESET, signed]);
+    expect(rules.broadBypass).toEqual([{ source: signed, actors: ['write role', 'custom role 99 role', 'all deploy keys'] }]);
+  });
+
+  it('names rulesets the token cannot read after the rule that points at them', async () => {
+    const rules = await resolveBranchRules(new BranchRulesContext(undefined, [{ id: 7, name: 'org baseline', unreadable: true, rules: [{ type: 'non_fast_forward' }] }]), 'main');
+
+    expect(rules.sources).toEqual([{ type: 'ruleset', rulesetId: 7, name: '#7', inheritedFrom: 'organization acme' }]);
+    expect(rules.forcePushesBlocked?.value).toBe(true);
+  });
+
+  it('notes classic protection unavailable on the plan', async () => {
+    const rules = await resolveBranchRules(new BranchRulesContext(httpError(403, 'Upgrade to GitHub Pro or make this repository public to enable this feature.')), 'main');
+    expect(rules).toMatchObject({ classicUnavailable: true, sources: [] });
+
+    await expect(resolveBranchRules(new BranchRulesContext(httpError(500, 'Server Error')), 'main')).rejects.toThrow('Server Error');
+  });
+});
+
+describe('checkBranchProtection', () => {
+  it('reports evaluate-mode rulesets and an unprotected branch together', async () => {
+    const result = await checkBranchProtection(new BranchRulesContext(undefined, [{ ...mainRuleset, enforcement: 'evaluate' }]), 'main');
+    expect(result.findings.map(finding => finding.id)).toEqual(['bp-ruleset-evaluate-mode', 'bp-not-enabled']);
+    expect(result.findings[0].description).toContain('ruleset "main protection"');
+  });
+
+  it('names the sources of each rule and the bypass actors', async () => {
+    const result = await checkBranchProtection(new BranchRulesContext(classicProtection, [{ ...mainRuleset, bypass: [{ actor_type: 'DeployKey' }] }]), 'main');
+
+    expect(result.passes.find(pass => pass.id === 'bp-not-enabled')?.observedValue).toBe('main is protected by classic branch protection, ruleset "main protection"');
+    expect(result.findings.find(finding => finding.id === 'bp-admin-bypass')?.description).toContain('classic branch protection');
+    expect(result.findings.find(finding => finding.id === 'bp-ruleset-broad-bypass')?.description).toContain('all deploy keys');
+  });
+});
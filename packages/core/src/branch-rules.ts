@@ -0,0 +1,304 @@
+import { RepoContext, BranchProtectionResponse, BranchRule, Ruleset } from './context';
+import { isSupported } from './server';
+import { matchesGlob } from './utils/glob';
+
+/** Repository rulesets shipped in GitHub Enterprise Server 3.11 */
+export const RULESETS_MIN_ENTERPRISE_VERSION = '3.11';
+
+/** Where an effective rule is configured */
+export interface RuleSource {
+  type: 'classic' | 'ruleset';
+  rulesetId?: number;
+  /** Ruleset name; absent for classic branch protection */
+  name?: string;
+  /** Owner of an inherited ruleset, e.g. "organization acme"; absent for repository rulesets */
+  inheritedFrom?: string;
+}
+
+export interface EffectiveRule<T> {
+  value: T;
+  /** Every source that enforces the rule at this strength */
+  sources: RuleSource[];
+}
+
+export interface BypassGrant {
+  source: RuleSource;
+  /** Human-readable actors, e.g. "write role" or "all deploy keys" */
+  actors: string[];
+}
+
+/**
+ * The protection that actually applies to a branch: classic branch protection
+ * merged with every active ruleset targeting it. A rule counts as enforced when
+ * any source enforces it; numeric rules take the strictest value.
+ */
+export interface EffectiveBranchRules {
+  branch: string;
+  /** Classic protection and active rulesets that protect the branch */
+  sources: RuleSource[];
+  /** Classic protection is unavailable on this plan, e.g. a private repository without GitHub Pro */
+  classicUnavailable: boolean;
+  /** False when rulesets could not be read, e.g. on an older GitHub Enterprise Server */
+  rulesetsEvaluated: boolean;
+  pullRequestReviews?: EffectiveRule<true>;
+  requiredApprovals?: EffectiveRule<number>;
+  dismissStaleReviews?: EffectiveRule<true>;
+  codeOwnerReviews?: EffectiveRule<true>;
+  conversationResolution?: EffectiveRule<true>;
+  statusChecks?: EffectiveRule<string[]>;
+  forcePushesBlocked?: EffectiveRule<true>;
+  deletionsBlocked?: EffectiveRule<true>;
+  signedCommits?: EffectiveRule<true>;
+  linearHistory?: EffectiveRule<true>;
+  /** Sources whose rules administrators can bypass */
+  adminBypass: RuleSource[];
+  /** Rulesets that let non-admin roles or every deploy key bypass their rules */
+  broadBypass: BypassGrant[];
+  /** Rulesets targeting the branch in evaluate mode: violations are reported, not blocked */
+  evaluateRulesets: RuleSource[];
+}
+
+const CLASSIC_SOURCE: RuleSource = { type: 'classic' };
+
+/** Built-in repository role ids used in ruleset bypass lists */
+const REPOSITORY_ROLES: Record<number, string> = { 1: 'read', 2: 'maintain', 3: 'triage', 4: 'write', 5: 'admin' };
+const ADMIN_ROLE_ID = 5;
+
+export async function resolveBranchRules(context: RepoContext, branch: string): Promise<EffectiveBranchRules> {
+  const rules: EffectiveBranchRules = {
+    branch,
+    sources: [],
+    classicUnavailable: false,
+    rulesetsEvaluated: false,
+    adminBypass: [],
+    broadBypass: [],
+    evaluateRulesets: [],
+  };
+
+  const classic = await getClassicProtection(context, branch);
+  if (classic === 'unavailable') {
+    rules.classicUnavailable = true;
+  } else if (classic) {
+    applyClassicProtection(rules, classic);
+  }
+
+  const rulesets = await getBranchRulesets(context, branch);
+  if (rulesets) {
+    rules.rulesetsEvaluated = true;
+    const sources = new Map<number, RuleSource>();
+    for (const ruleset of rulesets.active) sources.set(ruleset.id, rulesetSource(ruleset));
+    for (const rule of rulesets.rules) {
+      if (rule.ruleset_id === undefined) continue;
+      let source = sources.get(rule.ruleset_id);
+      if (!source) {
+        // The ruleset itself is not readable with this token; the rule still names its origin
+        source = { type: 'ruleset', rulesetId: rule.ruleset_id, name: `#${rule.ruleset_id}`, inheritedFrom: rule.ruleset_source_type === 'Organization' ? `organization ${rule.ruleset_source}` : undefined };
+        sources.set(rule.ruleset_id, source);
+      }
+      applyRulesetRule(rules, rule, source);
+    }
+    rules.sources.push(...sources.values());
+    for (const ruleset of rulesets.active) applyBypassActors(rules, ruleset, sources.get(ruleset.id)!);
+    rules.evaluateRulesets = rulesets.evaluate.map(rulesetSource);
+  }
+
+  return rules;
+}
+
+/** refs/heads/release/2.x → release/2.x, refs/tags/v* → tag v* */
+export function shortRef(ref: string): string {
+  if (ref.startsWith('refs/heads/')) return ref.slice('refs/heads/'.length);
+  if (ref.startsWith('refs/tags/')) return `tag ${ref.slice('refs/tags/'.length)}`;
+  return ref;
+}
+
+export function describeSource(source: RuleSource): string {
+  if (source.type === 'classic') return 'classic branch protection';
+  return `ruleset "${source.name}"${source.inheritedFrom ? ` (${source.inheritedFrom})` : ''}`;
+}
+
+export function describeSources(sources: RuleSource[]): string {
+  return sources.map(describeSource).join(', ');
+}
+
+/**
+ * Whether a ruleset's ref_name condition selects a ref. Patterns use fnmatch
+ * syntax against full ref names (refs/heads/main), plus ~ALL and ~DEFAULT_BRANCH.
+ */
+export function matchesRefConditions(conditions: Ruleset['conditions'], ref: string, defaultBranch: string): boolean {
+  const refName = (conditions as { ref_name?: { include?: string[]; exclude?: string[] } } | null | undefined)?.ref_name;
+  if (!refName) return false;
+  const matches = (pattern: string) => matchesRefPattern(pattern, ref, defaultBranch);
+  return (refName.include || []).some(matches) && !(refName.exclude || []).some(matches);
+}
+
+export function matchesRefPattern(pattern: string, ref: string, defaultBranch: string): boolean {
+  if (pattern === '~ALL') return true;
+  if (pattern === '~DEFAULT_BRANCH') return ref === `refs/heads/${defaultBranch}`;
+  return matchesGlob(ref, pattern);
+}
+
+/**
+ * Active rulesets of a target type with their rules and conditions. Undefined
+ * when rulesets cannot be read, e.g. on an older GitHub Enterprise Server.
+ */
+export async function getActiveRulesets(context: RepoContext, target: 'branch' | 'tag'): Promise<Ruleset[] | undefined> {
+  if (!isSupported(context.server, RULESETS_MIN_ENTERPRISE_VERSION)) return undefined;
+  try {
+    const active: Ruleset[] = [];
+    for (const listed of await context.getRulesets()) {
+      if (listed.enforcement !== 'active' || (listed.target || 'branch') !== target) continue;
+      const ruleset = await getRulesetIfReadable(context, listed.id);
+      if (ruleset) active.push(ruleset);
+    }
+    return active;
+  } catch (error: any) {
+    if (error.status === 403 || error.status === 404) return undefined;
+    throw error;
+  }
+}
+
+async function getClassicProtection(context: RepoContext, branch: string): Promise<BranchProtectionResponse | 'unavailable' | undefined> {
+  try {
+    return await context.getBranchProtection(branch);
+  } catch (error: any) {
+    if (error.status === 404) return undefined;
+    // Branch protection is not available for private repos without GitHub Pro
+    if (error.status === 403 && /upgrade|github pro/i.test(error.message || '')) return 'unavailable';
+    throw error;
+  }
+}
+
+/**
+ * Active rules for the branch as GitHub resolves them, the rulesets they come
+ * from, and evaluate-mode rulesets whose conditions select the branch (GitHub
+ * leaves those out of the branch rules). Undefined when rulesets cannot be read.
+ */
+async function getBranchRulesets(context: RepoContext, branch: string): Promise<{ rules: BranchRule[]; active: Ruleset[]; evaluate: Ruleset[] } | undefined> {
+  if (!isSupported(context.server, RULESETS_MIN_ENTERPRISE_VERSION)) return undefined;
+  try {
+    const rules = await context.getBranchRules(branch);
+    const listed = await context.getRulesets();
+    const defaultBranch = await context.getDefaultBranch();
+
+    const activeIds = new Set(rules.map(rule => rule.ruleset_id).filter((id): id is number => id !== undefined));
+    const active: Ruleset[] = [];
+    for (const id of activeIds) {
+      const ruleset = await getRulesetIfReadable(context, id);
+      if (ruleset) active.push(ruleset);
+    }
+
+    const evaluate: Ruleset[] = [];
+    for (const listedRuleset of listed) {
+      if (listedRuleset.enforcement !== 'evaluate' || (listedRuleset.target && listedRuleset.target !== 'branch')) continue;
+      const ruleset = await getRulesetIfReadable(context, listedRuleset.id);
+      if (ruleset && matchesRefConditions(ruleset.conditions, `refs/heads/${branch}`, defaultBranch)) evaluate.push(ruleset);
+    }
+
+    return { rules, active, evaluate };
+  } catch (error: any) {
+    // Rulesets are not available on this plan or server
+    if (error.status === 403 || error.status === 404) return undefined;
+    throw error;
+  }
+}
+
+async function getRulesetIfReadable(context: RepoContext, rulesetId: number): Promise<Ruleset | undefined> {
+  try {
+    return await context.getRuleset(rulesetId);
+  } catch (error: any) {
+    if (error.status === 403 || error.status === 404) return undefined;
+    throw error;
+  }
+}
+
+export function rulesetSource(ruleset: Ruleset): RuleSource {
+  const inheritedFrom = ruleset.source_type && ruleset.source_type !== 'Repository'
+    ? `${ruleset.source_type.toLowerCase()} ${ruleset.source}`
+    : undefined;
+  return { type: 'ruleset', rulesetId: ruleset.id, name: ruleset.name, inheritedFrom };
+}
+
+function applyClassicProtection(rules: EffectiveBranchRules, data: BranchProtectionResponse): void {
+  const source = CLASSIC_SOURCE;
+  rules.sources.push(source);
+
+  const reviews = data.required_pull_request_reviews;
+  if (reviews) {
+    rules.pullRequestReviews = withFlag(rules.pullRequestReviews, source);
+    rules.requiredApprovals = withCount(rules.requiredApprovals, reviews.required_approving_review_count || 0, source);
+    if (reviews.dismiss_stale_reviews) rules.dismissStaleReviews = withFlag(rules.dismissStaleReviews, source);
+    if (reviews.require_code_owner_reviews) rules.codeOwnerReviews = withFlag(rules.codeOwnerReviews, source);
+  }
+  if (data.required_conversation_resolution?.enabled) rules.conversationResolution = withFlag(rules.conversationResolution, source);
+  if (data.required_status_checks) rules.statusChecks = withChecks(rules.statusChecks, data.required_status_checks.contexts, source);
+  if (!data.allow_force_pushes?.enabled) rules.forcePushesBlocked = withFlag(rules.forcePushesBlocked, source);
+  if (!data.allow_deletions?.enabled) rules.deletionsBlocked = withFlag(rules.deletionsBlocked, source);
+  if (data.required_signatures?.enabled) rules.signedCommits = withFlag(rules.signedCommits, source);
+  if (data.required_linear_history?.enabled) rules.linearHistory = withFlag(rules.linearHistory, source);
+  if (!data.enforce_admins?.enabled) rules.adminBypass.push(source);
+}
+
+function applyRulesetRule(rules: EffectiveBranchRules, rule: BranchRule, source: RuleSource): void {
+  switch (rule.type) {
+    case 'pull_request': {
+      const params = rule.parameters;
+      rules.pullRequestReviews = withFlag(rules.pullRequestReviews, source);
+      rules.requiredApprovals = withCount(rules.requiredApprovals, params?.required_approving_review_count || 0, source);
+      if (params?.dismiss_stale_reviews_on_push) rules.dismissStaleReviews = withFlag(rules.dismissStaleReviews, source);
+      if (params?.require_code_owner_review) rules.codeOwnerReviews = withFlag(rules.codeOwnerReviews, source);
+      if (params?.required_review_thread_resolution) rules.conversationResolution = withFlag(rules.conversationResolution, source);
+      break;
+    }
+    case 'required_status_checks':
+      rules.statusChecks = withChecks(rules.statusChecks, (rule.parameters?.required_status_checks || []).map(check => check.context), source);
+      break;
+    case 'non_fast_forward':
+      rules.forcePushesBlocked = withFlag(rules.forcePushesBlocked, source);
+      break;
+    case 'deletion':
+      rules.deletionsBlocked = withFlag(rules.deletionsBlocked, source);
+      break;
+    case 'required_signatures':
+      rules.signedCommits = withFlag(rules.signedCommits, source);
+      break;
+    case 'required_linear_history':
+      rules.linearHistory = withFlag(rules.linearHistory, source);
+      break;
+  }
+}
+
+/**
+ * Bypass actors are only returned to tokens that can administer the ruleset;
+ * when they are missing the ruleset is treated as having none.
+ */
+function applyBypassActors(rules: EffectiveBranchRules, ruleset: Ruleset, source: RuleSource): void {
+  const broad: string[] = [];
+  let admins = false;
+  for (const actor of ruleset.bypass_actors || []) {
+    if (actor.actor_type === 'OrganizationAdmin' || (actor.actor_type === 'RepositoryRole' && actor.actor_id === ADMIN_ROLE_ID)) {
+      admins = true;
+    } else if (actor.actor_type === 'RepositoryRole') {
+      broad.push(`${REPOSITORY_ROLES[actor.actor_id ?? -1] || `custom role ${actor.actor_id}`} role`);
+    } else if (actor.actor_type === 'DeployKey') {
+      broad.push('all deploy keys');
+    }
+  }
+  if (admins) rules.adminBypass.push(source);
+  if (broad.length > 0) rules.broadBypass.push({ source, actors: broad });
+}
+
+function withFlag(current: EffectiveRule<true> | undefined, source: RuleSource): EffectiveRule<true> {
+  return { value: true, sources: [...(current?.sources || []), source] };
+}
+
+function withCount(current: EffectiveRule<number> | undefined, value: number, source: RuleSource): EffectiveRule<number> {
+  if (!current || value > current.value) return { value, sources: [source] };
+  if (value === current.value) return { value, sources: [...current.sources, source] };
+  return current;
+}
+
+function withChecks(current: EffectiveRule<string[]> | undefined, contexts: string[], source: RuleSource): EffectiveRule<string[]> | undefined {
+  if (contexts.length === 0) return current;
+  return { value: [...new Set([...(current?.value || []), ...contexts])], sources: [...(current?.sources || []), source] };
+}
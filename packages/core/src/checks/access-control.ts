@@ -1,57 +1,125 @@
-import { Octokit } from '@octokit/rest';
-import { SecurityFinding } from '../types';
-
-export async function checkAccessControl(octokit: Octokit, owner: string, repo: string): Promise<SecurityFinding[]> {
-  const findings: SecurityFinding[] = [];
+import { SecurityFinding, PassedCheck, CheckResult, PolicyThresholds, UserAccess, DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { RepoContext } from '../context';
+import { reviewRepoAccess, describeGrants, hasAccessLevel } from '../access';
+import { mergeCheckResults } from './result';
 
+export async function checkAccessControl(context: RepoContext, thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS): Promise<CheckResult> {
   try {
-    const { data: repoData } = await octokit.repos.get({ owner, repo });
-
-    if (repoData.visibility === 'public') {
-      findings.push({ id: 'ac-public-repo', category: 'access-control', severity: 'info', title: 'Repository is public', description: 'This repository is publicly accessible. Ensure no sensitive data is exposed.', recommendation: 'Review repository contents for sensitive information. Consider making private if needed.', soc2Control: 'CC6.1' });
-    }
-
-    try {
-      const { data: collaborators } = await octokit.repos.listCollaborators({ owner, repo, per_page: 100 });
-      const admins = collaborators.filter((c: any) => c.permissions?.admin);
-      if (admins.length > 5) {
-        findings.push({ id: 'ac-too-many-admins', category: 'access-control', severity: 'medium', title: 'High number of administrators', description: `Repository has ${admins.length} users with admin access.`, recommendation: 'Review admin access and apply principle of least privilege.', soc2Control: 'CC6.1', currentValue: admins.length, expectedValue: '≤5' });
-      }
-      const outsideCollaborators = collaborators.filter((c: any) => c.permissions?.push && !c.permissions?.admin);
-      if (outsideCollaborators.length > 0) {
-        findings.push({ id: 'ac-outside-collaborators', category: 'access-control', severity: 'info', title: 'Outside collaborators with write access', description: `${outsideCollaborators.length} collaborator(s) have write access.`, recommendation: 'Periodically review outside collaborator access.', soc2Control: 'CC6.2', currentValue: outsideCollaborators.length });
-      }
-    } catch { /* May not have permission */ }
-
-    try {
-      const { data: deployKeys } = await octokit.repos.listDeployKeys({ owner, repo, per_page: 100 });
-      const writeKeys = deployKeys.filter((k: any) => !k.read_only);
-      if (writeKeys.length > 0) {
-        findings.push({ id: 'ac-write-deploy-keys', category: 'access-control', severity: 'medium', title: 'Deploy keys with write access', description: `${writeKeys.length} deploy key(s) have write access to the repository.`, recommendation: 'Review deploy keys and use read-only keys where possible.', soc2Control: 'CC6.1', currentValue: writeKeys.length });
-      }
-      const oneYearAgo = new Date(); oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-      const oldKeys = deployKeys.filter((k: any) => new Date(k.created_at) < oneYearAgo);
-      if (oldKeys.length > 0) {
-        findings.push({ id: 'ac-old-deploy-keys', category: 'access-control', severity: 'low', title: 'Old deploy keys detected', description: `${oldKeys.length} deploy key(s) are over 1 year old.`, recommendation: 'Rotate deploy keys periodically. Remove unused keys.', soc2Control: 'CC6.1', currentValue: oldKeys.length });
-      }
-    } catch { /* May not have permission */ }
-
-    try {
-      const { data: webhooks } = await octokit.repos.listWebhooks({ owner, repo, per_page: 100 });
-      const insecureWebhooks = webhooks.filter((w: any) => w.config.url && !w.config.url.startsWith('https://'));
-      if (insecureWebhooks.length > 0) {
-        findings.push({ id: 'ac-insecure-webhooks', category: 'access-control', severity: 'high', title: 'Insecure webhook URLs', description: `${insecureWebhooks.length} webhook(s) use non-HTTPS URLs.`, recommendation: 'Update webhooks to use HTTPS URLs only.', soc2Control: 'CC6.7', currentValue: insecureWebhooks.length, expectedValue: 0 });
-      }
-      const webhooksWithoutSecret = webhooks.filter((w: any) => !w.config.secret);
-      if (webhooksWithoutSecret.length > 0) {
-        findings.push({ id: 'ac-webhooks-no-secret', category: 'access-control', severity: 'medium', title: 'Webhooks without secret validation', description: `${webhooksWithoutSecret.length} webhook(s) don't have a secret configured.`, recommendation: 'Configure webhook secrets to validate incoming payloads.', soc2Control: 'CC6.7', currentValue: webhooksWithoutSecret.length, expectedValue: 0 });
-      }
-    } catch { /* May not have permission */ }
-
+    return mergeCheckResults(
+      await checkRepoVisibility(context),
+      await checkCollaborators(context, thresholds),
+      await checkDeployKeys(context, thresholds),
+      await checkWebhooks(context),
+    );
   } catch (error) {
     console.error('Error checking access control:', error);
     throw error;
   }
+}
+
+export async function checkRepoVisibility(context: RepoContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const repoData = await context.getRepository();
+
+  if (repoData.visibility === 'public') {
+    findings.push({ id: 'ac-public-repo', category: 'access-control', severity: 'info', title: 'Repository is public', description: 'This repository is publicly accessible. Ensure no sensitive data is exposed.', recommendation: 'Review repository contents for sensitive information. Consider making private if needed.', soc2Control: 'CC6.1' });
+  } else {
+    passes.push({ id: 'ac-public-repo', category: 'access-control', title: 'Repository is not public', observedValue: `visibility = ${repoData.visibility}`, soc2Control: 'CC6.1' });
+  }
+
+  return { findings, passes };
+}
+
+/**
+ * Reviews who holds elevated access and how they got it. Outside collaborators
+ * are users outside the owning organization; members are expected to get
+ * write access through teams rather than individual grants.
+ */
+export async function checkCollaborators(context: RepoContext, thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+
+  const access = await reviewRepoAccess(context);
+
+  const admins = access.users.filter(user => user.permission === 'admin');
+  if (admins.length > thresholds.maxAdmins) {
+    findings.push({ id: 'ac-too-many-admins', category: 'access-control', severity: 'medium', title: 'High number of administrators', description: `Repository has ${admins.length} users with admin access: ${summarizeUsers(admins)}.`, recommendation: 'Review admin access and apply principle of least privilege.', soc2Control: 'CC6.1', currentValue: admins.length, expectedValue: `≤${thresholds.maxAdmins}` });
+  } else {
+    passes.push({ id: 'ac-too-many-admins', category: 'access-control', title: 'Administrator count within policy', observedValue: `admins = ${admins.length}`, soc2Control: 'CC6.1' });
+  }
+
+  const outsideWriters = access.users.filter(user => user.affiliation === 'outside' && hasAccessLevel(user.permission, 'write'));
+  if (outsideWriters.length > 0) {
+    findings.push({ id: 'ac-outside-collaborators', category: 'access-control', severity: 'info', title: 'Outside collaborators with write access', description: `${outsideWriters.length} outside collaborator(s) have write access or higher: ${summarizeUsers(outsideWriters)}.`, recommendation: 'Periodically review outside collaborator access and remove accounts that no longer need it.', soc2Control: 'CC6.2', currentValue: outsideWriters.map(user => user.login).join(', ') });
+  } else {
+    passes.push({ id: 'ac-outside-collaborators', category: 'access-control', title: 'No outside collaborators with write access', observedValue: `outside collaborators with write = 0 (${access.users.filter(user => user.affiliation === 'outside').length} with lower access)`, soc2Control: 'CC6.2' });
+  }
+
+  const directMembers = access.users.filter(user => user.affiliation === 'member' && user.direct && hasAccessLevel(user.permission, 'write'));
+  if (directMembers.length > 0) {
+    findings.push({ id: 'ac-direct-member-grants', category: 'access-control', severity: 'low', title: 'Members granted write access individually', description: `${directMembers.length} organization member(s) have write access or higher through an individual grant: ${summarizeUsers(directMembers)}.`, recommendation: 'Grant access through teams so it is reviewed and revoked with team membership.', documentationUrl: 'https://docs.github.com/en/organizations/managing-user-access-to-your-organizations-repositories/managing-repository-roles/managing-team-access-to-an-organization-repository', soc2Control: 'CC6.2', currentValue: directMembers.map(user => user.login).join(', ') });
+  } else {
+    passes.push({ id: 'ac-direct-member-grants', category: 'access-control', title: 'Member write access granted through teams', observedValue: `teams = ${access.teams.length}, individual member grants with write = 0`, soc2Control: 'CC6.2' });
+  }
+
+  const adminTeams = access.teams.filter(team => team.permission === 'admin');
+  if (adminTeams.length > 0) {
+    findings.push({ id: 'ac-team-admin-access', category: 'access-control', severity: 'low', title: 'Teams with admin access', description: `${adminTeams.length} team(s) grant admin access to their members: ${adminTeams.map(team => `${team.slug} (${team.members.length} member${team.members.length === 1 ? '' : 's'})`).join(', ')}.`, recommendation: 'Give teams the maintain role unless they need to change repository settings.', soc2Control: 'CC6.2', currentValue: adminTeams.map(team => team.slug).join(', ') });
+  } else {
+    passes.push({ id: 'ac-team-admin-access', category: 'access-control', title: 'No teams with admin access', observedValue: `teams = ${access.teams.length}, admin teams = 0`, soc2Control: 'CC6.2' });
+  }
+
+  return { findings, passes };
+}
+
+/** e.g. "alice (admin via team:platform), bob (release-manager via direct)" */
+function summarizeUsers(users: UserAccess[], limit = 10): string {
+  const described = users.slice(0, limit).map(user => `${user.login} (${user.role} via ${describeGrants(user)})`);
+  return users.length > limit ? `${described.join(', ')} and ${users.length - limit} more` : described.join(', ');
+}
+
+export async function checkDeployKeys(context: RepoContext, thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+
+  const { data: deployKeys } = await context.octokit.repos.listDeployKeys({ owner: context.owner, repo: context.repo, per_page: 100 });
+
+  const writeKeys = deployKeys.filter((k: any) => !k.read_only);
+  if (writeKeys.length > 0) {
+    findings.push({ id: 'ac-write-deploy-keys', category: 'access-control', severity: 'medium', title: 'Deploy keys with write access', description: `${writeKeys.length} deploy key(s) have write access to the repository.`, recommendation: 'Review deploy keys and use read-only keys where possible.', soc2Control: 'CC6.1', currentValue: writeKeys.length });
+  } else {
+    passes.push({ id: 'ac-write-deploy-keys', category: 'access-control', title: 'Deploy keys are read-only', observedValue: `write deploy keys = 0 of ${deployKeys.length}`, soc2Control: 'CC6.1' });
+  }
+  const maxAgeCutoff = new Date(Date.now() - thresholds.deployKeyMaxAgeDays * 24 * 60 * 60 * 1000);
+  const oldKeys = deployKeys.filter((k: any) => new Date(k.created_at) < maxAgeCutoff);
+  if (oldKeys.length > 0) {
+    findings.push({ id: 'ac-old-deploy-keys', category: 'access-control', severity: 'low', title: 'Old deploy keys detected', description: `${oldKeys.length} deploy key(s) are over ${thresholds.deployKeyMaxAgeDays} days old.`, recommendation: 'Rotate deploy keys periodically. Remove unused keys.', soc2Control: 'CC6.1', currentValue: oldKeys.length, expectedValue: `≤${thresholds.deployKeyMaxAgeDays} days` });
+  } else {
+    passes.push({ id: 'ac-old-deploy-keys', category: 'access-control', title: 'Deploy keys within rotation age', observedValue: `deploy keys older than ${thresholds.deployKeyMaxAgeDays} days = 0`, soc2Control: 'CC6.1' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkWebhooks(context: RepoContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+
+  const { data: webhooks } = await context.octokit.repos.listWebhooks({ owner: context.owner, repo: context.repo, per_page: 100 });
+
+  const insecureWebhooks = webhooks.filter((w: any) => w.config.url && !w.config.url.startsWith('https://'));
+  if (insecureWebhooks.length > 0) {
+    findings.push({ id: 'ac-insecure-webhooks', category: 'access-control', severity: 'high', title: 'Insecure webhook URLs', description: `${insecureWebhooks.length} webhook(s) use non-HTTPS URLs.`, recommendation: 'Update webhooks to use HTTPS URLs only.', soc2Control: 'CC6.7', currentValue: insecureWebhooks.length, expectedValue: 0 });
+  } else {
+    passes.push({ id: 'ac-insecure-webhooks', category: 'access-control', title: 'Webhooks use HTTPS', observedValue: `non-HTTPS webhooks = 0 of ${webhooks.length}`, soc2Control: 'CC6.7' });
+  }
+  const webhooksWithoutSecret = webhooks.filter((w: any) => !w.config.secret);
+  if (webhooksWithoutSecret.length > 0) {
+    findings.push({ id: 'ac-webhooks-no-secret', category: 'access-control', severity: 'medium', title: 'Webhooks without secret validation', description: `${webhooksWithoutSecret.length} webhook(s) don't have a secret configured.`, recommendation: 'Configure webhook secrets to validate incoming payloads.', soc2Control: 'CC6.7', currentValue: webhooksWithoutSecret.length, expectedValue: 0 });
+  } else {
+    passes.push({ id: 'ac-webhooks-no-secret', category: 'access-control', title: 'Webhooks validate payloads', observedValue: `webhooks without secret = 0 of ${webhooks.length}`, soc2Control: 'CC6.7' });
+  }
 
-  return findings;
+  return { findings, passes };
 }
@@ -1,200 +1,258 @@
-import { Octokit } from '@octokit/rest';
-import { SecurityFinding } from '../types';
+import { SecurityFinding, PassedCheck, CheckResult, PolicyThresholds, DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { RepoContext } from '../context';
+import { resolveBranchRules, describeSource, describeSources } from '../branch-rules';
 
+/**
+ * Evaluates the effective protection of a branch: classic branch protection
+ * merged with the repository, organization and enterprise rulesets targeting it.
+ */
 export async function checkBranchProtection(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  branch: string
-): Promise<SecurityFinding[]> {
+  context: RepoContext,
+  branch: string,
+  thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS
+): Promise<CheckResult> {
   const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
 
-  try {
-    const { data } = await octokit.repos.getBranchProtection({
-      owner,
-      repo,
-      branch,
+  const rules = await resolveBranchRules(context, branch);
+
+  // Evaluate-mode rulesets protect nothing yet, whatever else applies to the branch
+  if (rules.evaluateRulesets.length > 0) {
+    findings.push({
+      id: 'bp-ruleset-evaluate-mode',
+      category: 'branch-protection',
+      severity: 'medium',
+      title: 'Ruleset in evaluate mode',
+      description: `Rulesets in evaluate mode target ${branch}: ${describeSources(rules.evaluateRulesets)}. Their violations are reported but not blocked.`,
+      recommendation: 'Review the rule insights and switch the ruleset enforcement to "Active".',
+      documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-rulesets/about-rulesets',
+      soc2Control: 'CC6.1',
     });
+  } else if (rules.rulesetsEvaluated) {
+    passes.push({ id: 'bp-ruleset-evaluate-mode', category: 'branch-protection', title: 'No rulesets in evaluate mode', observedValue: `no evaluate-mode ruleset targets ${branch}`, soc2Control: 'CC6.1' });
+  }
 
-    // Check required PR reviews
-    if (!data.required_pull_request_reviews) {
+  if (rules.sources.length === 0) {
+    if (rules.classicUnavailable) {
       findings.push({
-        id: 'bp-no-pr-reviews',
+        id: 'bp-not-available',
         category: 'branch-protection',
-        severity: 'high',
-        title: 'Pull request reviews not required',
-        description: `The ${branch} branch does not require pull request reviews before merging.`,
-        recommendation: 'Enable "Require pull request reviews before merging" in branch protection settings.',
-        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-pull-request-reviews-before-merging',
+        severity: 'info',
+        title: 'Branch protection not available',
+        description: 'Branch protection requires GitHub Pro for private repositories.',
+        recommendation: 'Upgrade to GitHub Pro or make the repository public to enable branch protection.',
+        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches',
         soc2Control: 'CC6.1',
       });
     } else {
-      const reviews = data.required_pull_request_reviews;
-
-      if (!reviews.dismiss_stale_reviews) {
-        findings.push({
-          id: 'bp-stale-reviews',
-          category: 'branch-protection',
-          severity: 'medium',
-          title: 'Stale reviews not dismissed',
-          description: 'Approved reviews are not dismissed when new commits are pushed.',
-          recommendation: 'Enable "Dismiss stale pull request approvals when new commits are pushed".',
-          documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#dismiss-stale-pull-request-approvals-when-new-commits-are-pushed',
-          soc2Control: 'CC6.1',
-        });
-      }
-
-      if (!reviews.require_code_owner_reviews) {
-        findings.push({
-          id: 'bp-no-codeowner-review',
-          category: 'branch-protection',
-          severity: 'medium',
-          title: 'Code owner reviews not required',
-          description: 'Reviews from code owners are not required for changes to owned files.',
-          recommendation: 'Enable "Require review from Code Owners" and create a CODEOWNERS file.',
-          documentationUrl: 'https://docs.github.com/en/repositories/managing-your-repositorys-settings-and-features/customizing-your-repository/about-code-owners',
-          soc2Control: 'CC6.1',
-        });
-      }
-
-      if ((reviews.required_approving_review_count || 0) < 2) {
-        findings.push({
-          id: 'bp-low-review-count',
-          category: 'branch-protection',
-          severity: 'medium',
-          title: 'Insufficient required reviewers',
-          description: `Only ${reviews.required_approving_review_count || 0} reviewer(s) required. Best practice is at least 2.`,
-          recommendation: 'Increase required approving reviews to at least 2.',
-          currentValue: reviews.required_approving_review_count || 0,
-          expectedValue: 2,
-          soc2Control: 'CC6.1',
-        });
-      }
-    }
-
-    // Check enforce admins
-    if (!data.enforce_admins?.enabled) {
       findings.push({
-        id: 'bp-admin-bypass',
+        id: 'bp-not-enabled',
         category: 'branch-protection',
-        severity: 'high',
-        title: 'Administrators can bypass protection',
-        description: 'Repository administrators can bypass branch protection rules.',
-        recommendation: 'Enable "Do not allow bypassing the above settings" for administrators.',
-        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#do-not-allow-bypassing-the-above-settings',
+        severity: 'critical',
+        title: 'Branch protection not enabled',
+        description: `The ${branch} branch has no branch protection rule or active ruleset.`,
+        recommendation: 'Enable branch protection or an active ruleset for the default branch immediately.',
+        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/managing-a-branch-protection-rule',
         soc2Control: 'CC6.1',
       });
     }
+    return { findings, passes };
+  }
 
-    // Check required status checks
-    if (!data.required_status_checks || data.required_status_checks.contexts.length === 0) {
-      findings.push({
-        id: 'bp-no-status-checks',
-        category: 'branch-protection',
-        severity: 'high',
-        title: 'No required status checks',
-        description: 'No CI/CD status checks are required before merging.',
-        recommendation: 'Configure required status checks (e.g., CI tests, linting) before merging.',
-        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-status-checks-before-merging',
-        soc2Control: 'CC7.1',
-      });
-    }
+  passes.push({ id: 'bp-not-enabled', category: 'branch-protection', title: 'Branch protection enabled', observedValue: `${branch} is protected by ${describeSources(rules.sources)}`, soc2Control: 'CC6.1' });
 
-    // Check force push
-    if (data.allow_force_pushes?.enabled) {
-      findings.push({
-        id: 'bp-force-push-allowed',
-        category: 'branch-protection',
-        severity: 'high',
-        title: 'Force pushes allowed',
-        description: 'Force pushes are allowed, which can rewrite history and remove commits.',
-        recommendation: 'Disable "Allow force pushes" to prevent history rewriting.',
-        soc2Control: 'CC6.1',
-      });
-    }
+  // Check required PR reviews
+  if (!rules.pullRequestReviews) {
+    findings.push({
+      id: 'bp-no-pr-reviews',
+      category: 'branch-protection',
+      severity: 'high',
+      title: 'Pull request reviews not required',
+      description: `The ${branch} branch does not require pull request reviews before merging.`,
+      recommendation: 'Enable "Require pull request reviews before merging" in branch protection settings or a ruleset.',
+      documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-pull-request-reviews-before-merging',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'bp-no-pr-reviews', category: 'branch-protection', title: 'Pull request reviews required', observedValue: `pull request reviews required via ${describeSources(rules.pullRequestReviews.sources)}`, soc2Control: 'CC6.1' });
 
-    // Check deletions
-    if (data.allow_deletions?.enabled) {
+    if (!rules.dismissStaleReviews) {
       findings.push({
-        id: 'bp-deletions-allowed',
+        id: 'bp-stale-reviews',
         category: 'branch-protection',
         severity: 'medium',
-        title: 'Branch deletion allowed',
-        description: 'The protected branch can be deleted.',
-        recommendation: 'Disable "Allow deletions" to prevent accidental branch removal.',
+        title: 'Stale reviews not dismissed',
+        description: 'Approved reviews are not dismissed when new commits are pushed.',
+        recommendation: 'Enable "Dismiss stale pull request approvals when new commits are pushed".',
+        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#dismiss-stale-pull-request-approvals-when-new-commits-are-pushed',
         soc2Control: 'CC6.1',
       });
+    } else {
+      passes.push({ id: 'bp-stale-reviews', category: 'branch-protection', title: 'Stale reviews dismissed', observedValue: `stale approvals dismissed via ${describeSources(rules.dismissStaleReviews.sources)}`, soc2Control: 'CC6.1' });
     }
 
-    // Check conversation resolution
-    if (!data.required_conversation_resolution?.enabled) {
+    if (!rules.codeOwnerReviews) {
       findings.push({
-        id: 'bp-no-conversation-resolution',
+        id: 'bp-no-codeowner-review',
         category: 'branch-protection',
-        severity: 'low',
-        title: 'Conversation resolution not required',
-        description: 'PRs can be merged without resolving all review comments.',
-        recommendation: 'Enable "Require conversation resolution before merging".',
+        severity: 'medium',
+        title: 'Code owner reviews not required',
+        description: 'Reviews from code owners are not required for changes to owned files.',
+        recommendation: 'Enable "Require review from Code Owners" and create a CODEOWNERS file.',
+        documentationUrl: 'https://docs.github.com/en/repositories/managing-your-repositorys-settings-and-features/customizing-your-repository/about-code-owners',
         soc2Control: 'CC6.1',
       });
+    } else {
+      passes.push({ id: 'bp-no-codeowner-review', category: 'branch-protection', title: 'Code owner reviews required', observedValue: `code owner review required via ${describeSources(rules.codeOwnerReviews.sources)}`, soc2Control: 'CC6.1' });
     }
 
-    // Check required signatures (signed commits)
-    if (!data.required_signatures?.enabled) {
+    const approvals = rules.requiredApprovals?.value || 0;
+    if (approvals < thresholds.minApprovingReviews) {
       findings.push({
-        id: 'bp-no-signed-commits',
+        id: 'bp-low-review-count',
         category: 'branch-protection',
         severity: 'medium',
-        title: 'Signed commits not required',
-        description: 'Commits are not required to be signed with GPG or SSH keys.',
-        recommendation: 'Enable "Require signed commits" to verify commit authenticity.',
-        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-signed-commits',
+        title: 'Insufficient required reviewers',
+        description: `Only ${approvals} reviewer(s) required${rules.requiredApprovals ? ` by ${describeSources(rules.requiredApprovals.sources)}` : ''}. Policy requires at least ${thresholds.minApprovingReviews}.`,
+        recommendation: `Increase required approving reviews to at least ${thresholds.minApprovingReviews}.`,
+        currentValue: approvals,
+        expectedValue: thresholds.minApprovingReviews,
         soc2Control: 'CC6.1',
       });
+    } else {
+      passes.push({ id: 'bp-low-review-count', category: 'branch-protection', title: 'Sufficient required reviewers', observedValue: `${approvals} approving review(s) required via ${describeSources(rules.requiredApprovals!.sources)}`, soc2Control: 'CC6.1' });
     }
+  }
 
-    // Check linear history requirement
-    if (!data.required_linear_history?.enabled) {
-      findings.push({
-        id: 'bp-no-linear-history',
-        category: 'branch-protection',
-        severity: 'low',
-        title: 'Linear history not required',
-        description: 'Merge commits are allowed, which can complicate history.',
-        recommendation: 'Enable "Require linear history" to enforce squash or rebase merging.',
-        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-linear-history',
-        soc2Control: 'CC6.1',
-      });
-    }
+  // Check administrator bypass: classic protection without enforce_admins, or rulesets listing admins as bypass actors
+  if (rules.adminBypass.length > 0) {
+    const classic = rules.adminBypass.some(source => source.type === 'classic');
+    const rulesets = rules.adminBypass.some(source => source.type === 'ruleset');
+    findings.push({
+      id: 'bp-admin-bypass',
+      category: 'branch-protection',
+      severity: 'high',
+      title: 'Administrators can bypass protection',
+      description: `Repository administrators can bypass the rules from ${describeSources(rules.adminBypass)}.`,
+      recommendation: [
+        classic ? 'Enable "Do not allow bypassing the above settings" for administrators.' : '',
+        rulesets ? 'Remove admin roles from the ruleset bypass list.' : '',
+      ].filter(Boolean).join(' '),
+      documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#do-not-allow-bypassing-the-above-settings',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'bp-admin-bypass', category: 'branch-protection', title: 'Administrators cannot bypass protection', observedValue: `no administrator bypass in ${describeSources(rules.sources)}`, soc2Control: 'CC6.1' });
+  }
 
-  } catch (error: any) {
-    if (error.status === 404) {
-      findings.push({
-        id: 'bp-not-enabled',
-        category: 'branch-protection',
-        severity: 'critical',
-        title: 'Branch protection not enabled',
-        description: `The ${branch} branch has no protection rules configured.`,
-        recommendation: 'Enable branch protection for the default branch immediately.',
-        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/managing-a-branch-protection-rule',
-        soc2Control: 'CC6.1',
-      });
-    } else if (error.status === 403) {
-      // Branch protection not available for private repos without GitHub Pro
-      findings.push({
-        id: 'bp-not-available',
-        category: 'branch-protection',
-        severity: 'info',
-        title: 'Branch protection not available',
-        description: 'Branch protection requires GitHub Pro for private repositories.',
-        recommendation: 'Upgrade to GitHub Pro or make the repository public to enable branch protection.',
-        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches',
-        soc2Control: 'CC6.1',
-      });
-    } else {
-      throw error;
-    }
+  // Check ruleset bypass lists for whole roles or every deploy key
+  if (rules.broadBypass.length > 0) {
+    findings.push({
+      id: 'bp-ruleset-broad-bypass',
+      category: 'branch-protection',
+      severity: 'medium',
+      title: 'Ruleset bypass granted broadly',
+      description: `Rulesets let broad groups bypass their rules: ${rules.broadBypass.map(grant => `${describeSource(grant.source)} (${grant.actors.join(', ')})`).join('; ')}.`,
+      recommendation: 'Limit ruleset bypass to specific teams or apps, preferably in pull request mode.',
+      documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-rulesets/creating-rulesets-for-a-repository#granting-bypass-permissions-for-your-ruleset',
+      soc2Control: 'CC6.1',
+    });
+  } else if (rules.sources.some(source => source.type === 'ruleset')) {
+    passes.push({ id: 'bp-ruleset-broad-bypass', category: 'branch-protection', title: 'Ruleset bypass limited', observedValue: 'no ruleset grants bypass to a whole role or every deploy key', soc2Control: 'CC6.1' });
+  }
+
+  // Check required status checks
+  if (!rules.statusChecks) {
+    findings.push({
+      id: 'bp-no-status-checks',
+      category: 'branch-protection',
+      severity: 'high',
+      title: 'No required status checks',
+      description: 'No CI/CD status checks are required before merging.',
+      recommendation: 'Configure required status checks (e.g., CI tests, linting) before merging.',
+      documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-status-checks-before-merging',
+      soc2Control: 'CC7.1',
+    });
+  } else {
+    passes.push({ id: 'bp-no-status-checks', category: 'branch-protection', title: 'Status checks required', observedValue: `${rules.statusChecks.value.join(', ')} required via ${describeSources(rules.statusChecks.sources)}`, soc2Control: 'CC7.1' });
+  }
+
+  // Check force push
+  if (!rules.forcePushesBlocked) {
+    findings.push({
+      id: 'bp-force-push-allowed',
+      category: 'branch-protection',
+      severity: 'high',
+      title: 'Force pushes allowed',
+      description: 'Force pushes are allowed, which can rewrite history and remove commits.',
+      recommendation: 'Disable "Allow force pushes" or add a "Block force pushes" ruleset rule to prevent history rewriting.',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'bp-force-push-allowed', category: 'branch-protection', title: 'Force pushes blocked', observedValue: `force pushes blocked via ${describeSources(rules.forcePushesBlocked.sources)}`, soc2Control: 'CC6.1' });
+  }
+
+  // Check deletions
+  if (!rules.deletionsBlocked) {
+    findings.push({
+      id: 'bp-deletions-allowed',
+      category: 'branch-protection',
+      severity: 'medium',
+      title: 'Branch deletion allowed',
+      description: 'The protected branch can be deleted.',
+      recommendation: 'Disable "Allow deletions" or add a "Restrict deletions" ruleset rule to prevent accidental branch removal.',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'bp-deletions-allowed', category: 'branch-protection', title: 'Branch deletion blocked', observedValue: `deletion blocked via ${describeSources(rules.deletionsBlocked.sources)}`, soc2Control: 'CC6.1' });
+  }
+
+  // Check conversation resolution
+  if (!rules.conversationResolution) {
+    findings.push({
+      id: 'bp-no-conversation-resolution',
+      category: 'branch-protection',
+      severity: 'low',
+      title: 'Conversation resolution not required',
+      description: 'PRs can be merged without resolving all review comments.',
+      recommendation: 'Enable "Require conversation resolution before merging".',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'bp-no-conversation-resolution', category: 'branch-protection', title: 'Conversation resolution required', observedValue: `conversation resolution required via ${describeSources(rules.conversationResolution.sources)}`, soc2Control: 'CC6.1' });
+  }
+
+  // Check required signatures (signed commits)
+  if (!rules.signedCommits) {
+    findings.push({
+      id: 'bp-no-signed-commits',
+      category: 'branch-protection',
+      severity: 'medium',
+      title: 'Signed commits not required',
+      description: 'Commits are not required to be signed with GPG or SSH keys.',
+      recommendation: 'Enable "Require signed commits" to verify commit authenticity.',
+      documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-signed-commits',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'bp-no-signed-commits', category: 'branch-protection', title: 'Signed commits required', observedValue: `signed commits required via ${describeSources(rules.signedCommits.sources)}`, soc2Control: 'CC6.1' });
+  }
+
+  // Check linear history requirement
+  if (!rules.linearHistory) {
+    findings.push({
+      id: 'bp-no-linear-history',
+      category: 'branch-protection',
+      severity: 'low',
+      title: 'Linear history not required',
+      description: 'Merge commits are allowed, which can complicate history.',
+      recommendation: 'Enable "Require linear history" to enforce squash or rebase merging.',
+      documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-protected-branches/about-protected-branches#require-linear-history',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'bp-no-linear-history', category: 'branch-protection', title: 'Linear history required', observedValue: `linear history required via ${describeSources(rules.linearHistory.sources)}`, soc2Control: 'CC6.1' });
   }
 
-  return findings;
+  return { findings, passes };
 }
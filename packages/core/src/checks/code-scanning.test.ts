@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { Octokit } from '@octokit/rest';
+import { RepoContext, RepoMetadata } from '../context';
+import { DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { CheckSkippedError } from '../errors';
+import { checkCodeScanning, checkCodeScanningAlerts } from './code-scanning';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+interface Analysis {
+  tool: string;
+  category: string;
+  ageDays: number;
+}
+
+/** An error the analyses endpoint answers with instead of a list */
+interface ErrorResponse {
+  status: number;
+  message: string;
+}
+
+/** Answers the analyses endpoint from `analyses` and reports `languages` as the repository's language statistics */
+class CodeScanningContext extends RepoContext {
+  constructor(analyses: Analysis[] | ErrorResponse, private languages: Record<string, number>) {
+    const fetch = async (url: string) => {
+      if (!new URL(url).pathname.endsWith('/code-scanning/analyses')) return new Response('{"message":"Not Found"}', { status: 404 });
+      if (!Array.isArray(analyses)) return new Response(JSON.stringify({ message: analyses.message }), { status: analyses.status, headers: { 'content-type': 'application/json' } });
+      const body = analyses.map((analysis, index) => ({
+        id: index + 1,
+        tool: { name: analysis.tool },
+        category: analysis.category,
+        analysis_key: '.github/workflows/codeql.yml:analyze',
+        created_at: new Date(NOW.getTime() - analysis.ageDays * 24 * 60 * 60 * 1000).toISOString(),
+      }));
+      return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+    };
+    super(new Octokit({ request: { fetch } }), 'acme', 'widget', { repository: { default_branch: 'main' } as RepoMetadata });
+  }
+
+  async getLanguages(): Promise<Record<string, number>> {
+    return this.languages;
+  }
+}
+
+function ids(result: { findings: Array<{ id: string }> }): string[] {
+  return result.findings.map(finding => finding.id);
+}
+
+describe('checkCodeScanning', () => {
+  describe('staleness', () => {
+    const analyses = [
+      { tool: 'CodeQL', category: '/language:python', ageDays: 10 },
+      { tool: 'Semgrep', category: 'semgrep', ageDays: 45 },
+    ];
+
+    it('flags configurations whose latest upload is older than the threshold', async () => {
+      const result = await checkCodeScanning(new CodeScanningContext(analyses, { Python: 1000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+
+      expect(ids(result)).toEqual(['sf-code-scanning-stale']);
+      expect(result.findings[0]).toMatchObject({ currentValue: '45 days', expectedValue: '≤30 days' });
+      expect(result.findings[0].description).toContain('Semgrep semgrep: last upload 45 days ago');
+      expect(result.findings[0].description).not.toContain('CodeQL');
+    });
+
+    it('uses the policy threshold', async () => {
+      const relaxed = await checkCodeScanning(new CodeScanningContext(analyses, { Python: 1000 }), { ...DEFAULT_POLICY_THRESHOLDS, maxCodeScanningAgeDays: 60 }, NOW);
+      expect(ids(relaxed)).toEqual([]);
+      expect(relaxed.passes.find(pass => pass.id === 'sf-code-scanning-stale')?.observedValue).toBe('oldest latest upload = 45 days ago');
+
+      const strict = await checkCodeScanning(new CodeScanningContext(analyses, { Python: 1000 }), { ...DEFAULT_POLICY_THRESHOLDS, maxCodeScanningAgeDays: 7 }, NOW);
+      expect(ids(strict)).toEqual(['sf-code-scanning-stale', 'sf-code-scanning-languages-uncovered']);
+      expect(strict.findings[0].description).toContain('2 code scanning analysis configuration(s)');
+    });
+
+    it('only judges the newest upload of each configuration', async () => {
+      const result = await checkCodeScanning(new CodeScanningContext([
+        { tool: 'CodeQL', category: '/language:python', ageDays: 3 },
+        { tool: 'CodeQL', category: '/language:python', ageDays: 90 },
+      ], { Python: 1000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+
+      expect(ids(result)).toEqual([]);
+    });
+  });
+
+  describe('language coverage', () => {
+    it('maps JavaScript and TypeScript to the javascript-typescript analysis', async () => {
+      const result = await checkCodeScanning(new CodeScanningContext([
+        { tool: 'CodeQL', category: '/language:javascript-typescript', ageDays: 1 },
+      ], { TypeScript: 8000, JavaScript: 2000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+
+      expect(ids(result)).toEqual([]);
+      expect(result.passes.find(pass => pass.id === 'sf-code-scanning-languages-uncovered')?.observedValue).toBe('languages = javascript-typescript');
+    });
+
+    it('accepts the category names older CodeQL versions used', async () => {
+      const result = await checkCodeScanning(new CodeScanningContext([
+        { tool: 'CodeQL', category: '/language:javascript', ageDays: 1 },
+        { tool: 'CodeQL', category: '/language:cpp', ageDays: 1 },
+      ], { TypeScript: 5000, 'C++': 4000, C: 1000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+
+      expect(ids(result)).toEqual([]);
+    });
+
+    it('flags supported languages without a recent CodeQL analysis and ignores unsupported or minor ones', async () => {
+      const result = await checkCodeScanning(new CodeScanningContext([
+        { tool: 'CodeQL', category: '/language:python', ageDays: 1 },
+        { tool: 'CodeQL', category: '/language:go', ageDays: 40 },
+        { tool: 'Semgrep', category: 'semgrep', ageDays: 1 },
+      ], { Python: 5000, Go: 3000, Kotlin: 1500, Shell: 400, Ruby: 50, HCL: 50 }), { ...DEFAULT_POLICY_THRESHOLDS, maxCodeScanningAgeDays: 60 }, NOW);
+
+      expect(ids(result)).toEqual(['sf-code-scanning-languages-uncovered']);
+      expect(result.findings[0]).toMatchObject({ currentValue: 'java-kotlin', expectedValue: 'go, java-kotlin, python' });
+      expect(result.findings[0].description).toContain('Results from Semgrep do not say which languages they cover.');
+    });
+
+    it('does not count CodeQL analyses older than the threshold', async () => {
+      const result = await checkCodeScanning(new CodeScanningContext([
+        { tool: 'CodeQL', category: '/language:python', ageDays: 1 },
+        { tool: 'CodeQL', category: '/language:go', ageDays: 40 },
+      ], { Python: 5000, Go: 5000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+
+      expect(ids(result)).toEqual(['sf-code-scanning-stale', 'sf-code-scanning-languages-uncovered']);
+      expect(result.findings[1].currentValue).toBe('go');
+    });
+  });
+
+  it('reports code scanning as not configured when nothing was uploaded', async () => {
+    const result = await checkCodeScanning(new CodeScanningContext([], { Python: 1000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+
+    expect(ids(result)).toEqual(['sf-no-code-scanning']);
+    expect(result.findings[0].description).toContain('default branch (main)');
+
+    const noAnalysis = await checkCodeScanning(new CodeScanningContext({ status: 404, message: 'no analysis found' }, { Python: 1000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+    expect(noAnalysis.findings[0].description).toContain('default branch (main)');
+  });
+
+  it('reports code scanning as not enabled only when the API says so', async () => {
+    for (const error of [{ status: 403, message: 'Code scanning is not enabled for this repository' }, { status: 404, message: 'Advanced Security must be enabled for this repository to use code scanning.' }]) {
+      const result = await checkCodeScanning(new CodeScanningContext(error, { Python: 1000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+      expect(ids(result)).toEqual(['sf-no-code-scanning']);
+      expect(result.findings[0].description).toBe('Code scanning is not enabled for this repository.');
+    }
+  });
+
+  it('skips for lack of permission on a 404 that does not say code scanning is disabled', async () => {
+    const skipped = expect.objectContaining({ httpStatus: 404, reason: 'permission' });
+
+    const analyses = checkCodeScanning(new CodeScanningContext({ status: 404, message: 'Not Found' }, { Python: 1000 }), DEFAULT_POLICY_THRESHOLDS, NOW);
+    await expect(analyses).rejects.toBeInstanceOf(CheckSkippedError);
+    await expect(analyses).rejects.toEqual(skipped);
+
+    await expect(checkCodeScanningAlerts(new CodeScanningContext([], {}))).rejects.toEqual(skipped);
+  });
+});
@@ -0,0 +1,270 @@
+import { RestEndpointMethodTypes } from '@octokit/rest';
+import { SecurityFinding, PassedCheck, CheckResult, PolicyThresholds, Severity, DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { RepoContext } from '../context';
+import { CheckSkippedError } from '../errors';
+
+type CodeScanningAnalysis = RestEndpointMethodTypes['codeScanning']['listRecentAnalyses']['response']['data'][number];
+type CodeScanningAlert = RestEndpointMethodTypes['codeScanning']['listAlertsForRepo']['response']['data'][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Analyses are listed newest first; older pages only matter for tools that stopped uploading long ago
+const MAX_ANALYSIS_PAGES = 5;
+
+// Languages making up less than this share of the code (vendored snippets, docs tooling) are not expected to be analyzed
+const MIN_LANGUAGE_SHARE = 0.01;
+
+// CodeQL language for each Linguist language it can analyze
+const CODEQL_LANGUAGES: Record<string, string> = {
+  'C': 'c-cpp',
+  'C++': 'c-cpp',
+  'C#': 'csharp',
+  'Go': 'go',
+  'Java': 'java-kotlin',
+  'Kotlin': 'java-kotlin',
+  'JavaScript': 'javascript-typescript',
+  'TypeScript': 'javascript-typescript',
+  'Python': 'python',
+  'Ruby': 'ruby',
+  'Swift': 'swift',
+};
+
+// Names older CodeQL versions used in analysis categories
+const CODEQL_LANGUAGE_ALIASES: Record<string, string> = {
+  c: 'c-cpp',
+  cpp: 'c-cpp',
+  java: 'java-kotlin',
+  kotlin: 'java-kotlin',
+  javascript: 'javascript-typescript',
+  typescript: 'javascript-typescript',
+};
+
+const SEVERITY_ORDER: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+const DOCUMENTATION_URL = 'https://docs.github.com/en/code-security/code-scanning/introduction-to-code-scanning/about-code-scanning';
+
+/**
+ * Reads the code scanning analyses uploaded for the default branch, which
+ * covers default setup, CodeQL workflows and third-party SARIF uploads alike.
+ * Reports whether any tool uploaded results, tools and categories that stopped
+ * uploading, and detected languages CodeQL supports but did not analyze
+ * recently. Third-party tools do not say which languages they cover, so only
+ * CodeQL analyses count towards language coverage.
+ */
+export async function checkCodeScanning(
+  context: RepoContext,
+  thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS,
+  now: Date = new Date()
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+
+  const analyses = await listDefaultBranchAnalyses(context);
+  if (analyses === undefined || analyses.length === 0) {
+    findings.push({
+      id: 'sf-no-code-scanning',
+      category: 'security-features',
+      severity: 'high',
+      title: 'Code scanning not configured',
+      description: analyses === undefined
+        ? 'Code scanning is not enabled for this repository.'
+        : `No code scanning tool has uploaded results for the default branch (${await context.getDefaultBranch()}).`,
+      recommendation: 'Enable code scanning default setup, or add a CodeQL or other SARIF-uploading workflow that runs on the default branch.',
+      documentationUrl: DOCUMENTATION_URL,
+      soc2Control: 'CC7.1',
+    });
+    return { findings, passes };
+  }
+
+  const latest = latestAnalyses(analyses);
+  const ageDays = (analysis: CodeScanningAnalysis) => Math.floor((now.getTime() - Date.parse(analysis.created_at)) / DAY_MS);
+  const tools = [...new Set(latest.map(analysis => analysis.tool.name ?? 'unknown tool'))];
+  passes.push({ id: 'sf-no-code-scanning', category: 'security-features', title: 'Code scanning results uploaded', observedValue: `tools = ${tools.join(', ')}`, soc2Control: 'CC7.1' });
+
+  const stale = latest.filter(analysis => ageDays(analysis) > thresholds.maxCodeScanningAgeDays);
+  if (stale.length > 0) {
+    findings.push({
+      id: 'sf-code-scanning-stale',
+      category: 'security-features',
+      severity: 'medium',
+      title: 'Stale code scanning results',
+      description: `${stale.length} code scanning analysis configuration(s) have not uploaded results for the default branch in over ${thresholds.maxCodeScanningAgeDays} days, so new vulnerabilities in that code go unreported (${stale.map(analysis => `${analysisName(analysis)}: last upload ${ageDays(analysis)} days ago`).join('; ')}).`,
+      recommendation: 'Check that the workflows or default setup still run on the default branch and on a schedule, and delete configurations that were replaced.',
+      documentationUrl: 'https://docs.github.com/en/code-security/code-scanning/managing-your-code-scanning-configuration/about-the-tool-status-page',
+      soc2Control: 'CC7.1',
+      currentValue: `${Math.max(...stale.map(ageDays))} days`,
+      expectedValue: `≤${thresholds.maxCodeScanningAgeDays} days`,
+    });
+  } else {
+    passes.push({ id: 'sf-code-scanning-stale', category: 'security-features', title: 'Code scanning results are recent', observedValue: `oldest latest upload = ${Math.max(...latest.map(ageDays))} days ago`, soc2Control: 'CC7.1' });
+  }
+
+  const analyzed = new Set(latest
+    .filter(analysis => analysis.tool.name === 'CodeQL' && ageDays(analysis) <= thresholds.maxCodeScanningAgeDays)
+    .map(analysis => codeqlLanguage(analysis))
+    .filter((language): language is string => language !== undefined));
+  const detected = detectCodeqlLanguages(await context.getLanguages());
+  const uncovered = detected.filter(language => !analyzed.has(language));
+  if (uncovered.length > 0) {
+    const others = tools.filter(tool => tool !== 'CodeQL');
+    findings.push({
+      id: 'sf-code-scanning-languages-uncovered',
+      category: 'security-features',
+      severity: 'medium',
+      title: 'Languages without recent CodeQL analysis',
+      description: `The repository contains ${uncovered.join(', ')} code that CodeQL supports but has not analyzed on the default branch in the last ${thresholds.maxCodeScanningAgeDays} days.${others.length > 0 ? ` Results from ${others.join(', ')} do not say which languages they cover.` : ''}`,
+      recommendation: 'Add the languages to code scanning default setup or to the language matrix of the CodeQL workflow.',
+      documentationUrl: 'https://docs.github.com/en/code-security/code-scanning/creating-an-advanced-setup-for-code-scanning/customizing-your-advanced-setup-for-code-scanning#changing-the-languages-that-are-analyzed',
+      soc2Control: 'CC7.1',
+      currentValue: uncovered.join(', '),
+      expectedValue: detected.join(', '),
+    });
+  } else {
+    passes.push({ id: 'sf-code-scanning-languages-uncovered', category: 'security-features', title: 'Detected languages analyzed by CodeQL', observedValue: `languages = ${detected.join(', ') || 'none supported by CodeQL'}`, soc2Control: 'CC7.1' });
+  }
+
+  return { findings, passes };
+}
+
+/**
+ * Reports open code scanning alerts on the default branch, one finding per
+ * severity. Security alerts use their security severity; alerts from rules
+ * without one (code quality queries, most third-party rules) map error to
+ * medium, warning to low and note to info.
+ */
+export async function checkCodeScanningAlerts(
+  context: RepoContext
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+
+  let alerts: CodeScanningAlert[];
+  try {
+    alerts = await context.octokit.paginate(context.octokit.codeScanning.listAlertsForRepo, {
+      owner: context.owner,
+      repo: context.repo,
+      state: 'open',
+      per_page: 100,
+    });
+  } catch (error: any) {
+    // A repository without code scanning is reported by the code-scanning check
+    if (isCodeScanningDisabled(error)) {
+      throw new CheckSkippedError('Code scanning is not enabled for this repository', error.status);
+    }
+    throw notFoundAsSkipped(error);
+  }
+
+  const bySeverity = new Map<Severity, CodeScanningAlert[]>();
+  for (const alert of alerts) {
+    const severity = alertSeverity(alert);
+    bySeverity.set(severity, [...(bySeverity.get(severity) ?? []), alert]);
+  }
+
+  for (const severity of SEVERITY_ORDER) {
+    const group = bySeverity.get(severity);
+    if (!group) continue;
+    findings.push({
+      id: 'sf-open-code-scanning-alerts',
+      category: 'security-features',
+      severity,
+      title: `${group.length} open ${severity} code scanning alert(s)`,
+      description: `Code scanning reports ${group.length} open ${severity} alert(s) on the default branch (by tool: ${countBy(group.map(alert => alert.tool.name ?? 'unknown tool'))}; most frequent rules: ${countBy(group.map(alert => alert.rule.id ?? alert.rule.name ?? 'unknown rule'), 5)}).`,
+      recommendation: 'Fix the code the alerts point at, or dismiss alerts that are false positives or in test code with a reason.',
+      documentationUrl: 'https://docs.github.com/en/code-security/code-scanning/managing-code-scanning-alerts/assessing-code-scanning-alerts-for-your-repository',
+      soc2Control: 'CC7.1',
+      subject: severity,
+      currentValue: group.length,
+      expectedValue: 0,
+    });
+  }
+
+  if (findings.length === 0) {
+    passes.push({ id: 'sf-open-code-scanning-alerts', category: 'security-features', title: 'No open code scanning alerts', observedValue: 'open code scanning alerts = 0', soc2Control: 'CC7.1' });
+  }
+
+  return { findings, passes };
+}
+
+/** Analyses of the default branch, newest first; undefined when code scanning is not enabled */
+async function listDefaultBranchAnalyses(context: RepoContext): Promise<CodeScanningAnalysis[] | undefined> {
+  const analyses: CodeScanningAnalysis[] = [];
+  try {
+    const iterator = context.octokit.paginate.iterator(context.octokit.codeScanning.listRecentAnalyses, {
+      owner: context.owner,
+      repo: context.repo,
+      ref: `refs/heads/${await context.getDefaultBranch()}`,
+      per_page: 100,
+    });
+    let pages = 0;
+    for await (const { data } of iterator) {
+      analyses.push(...data);
+      if (++pages >= MAX_ANALYSIS_PAGES) break;
+    }
+  } catch (error: any) {
+    // The API answers 404 "no analysis found" for a repository nothing was ever uploaded to
+    if (error.status === 404 && /no analysis/i.test(error.message || '')) return [];
+    if (isCodeScanningDisabled(error)) return undefined;
+    throw notFoundAsSkipped(error);
+  }
+  return analyses;
+}
+
+/** Only an answer that says so counts as disabled; other 404s and 403s are not evidence either way */
+function isCodeScanningDisabled(error: any): boolean {
+  return (error.status === 403 || error.status === 404) && /not enabled|advanced security/i.test(error.message || '');
+}
+
+/**
+ * A 404 that does not say code scanning is disabled usually means the token
+ * cannot read code scanning (it needs security_events read access), so the
+ * check is skipped for lack of permission rather than reporting a finding
+ */
+function notFoundAsSkipped(error: any): Error {
+  if (error.status !== 404) return error;
+  return new CheckSkippedError('Code scanning returned 404 without saying it is disabled; the token may lack security_events read access', 404, 'permission');
+}
+
+/** The newest analysis of each tool and category, e.g. CodeQL for /language:python */
+function latestAnalyses(analyses: CodeScanningAnalysis[]): CodeScanningAnalysis[] {
+  const latest = new Map<string, CodeScanningAnalysis>();
+  for (const analysis of analyses) {
+    const key = `${analysis.tool.name}\0${analysis.category ?? analysis.analysis_key}`;
+    const current = latest.get(key);
+    if (!current || Date.parse(analysis.created_at) > Date.parse(current.created_at)) latest.set(key, analysis);
+  }
+  return [...latest.values()];
+}
+
+function analysisName(analysis: CodeScanningAnalysis): string {
+  const tool = analysis.tool.name ?? 'unknown tool';
+  return analysis.category ? `${tool} ${analysis.category}` : tool;
+}
+
+/** The CodeQL language an analysis covered, read from its /language:<name> category */
+function codeqlLanguage(analysis: CodeScanningAnalysis): string | undefined {
+  const language = analysis.category?.match(/language:([\w+#-]+)/)?.[1]?.toLowerCase();
+  return language ? CODEQL_LANGUAGE_ALIASES[language] ?? language : undefined;
+}
+
+/** CodeQL languages for the Linguist languages that make up a meaningful share of the code */
+function detectCodeqlLanguages(languages: Record<string, number>): string[] {
+  const total = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+  return [...new Set(Object.entries(languages)
+    .filter(([name, bytes]) => CODEQL_LANGUAGES[name] && bytes / total >= MIN_LANGUAGE_SHARE)
+    .map(([name]) => CODEQL_LANGUAGES[name]))].sort();
+}
+
+function alertSeverity(alert: CodeScanningAlert): Severity {
+  if (alert.rule.security_severity_level) return alert.rule.security_severity_level;
+  if (alert.rule.severity === 'error') return 'medium';
+  if (alert.rule.severity === 'warning') return 'low';
+  return 'info';
+}
+
+/** "CodeQL (3), Semgrep (1)", most frequent first and optionally limited to the top entries */
+function countBy(values: string[], limit?: number): string {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  const sorted = [...counts].sort((a, b) => b[1] - a[1]);
+  return sorted.slice(0, limit).map(([value, count]) => `${value} (${count})`).join(', ');
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Octokit } from '@octokit/rest';
+import { RepoContext, RepoMetadata, RepoTree } from '../context';
+import { DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { checkCodeownersOwners, checkCodeownersRules } from './codeowners';
+
+/** Serves `codeowners` as .github/CODEOWNERS and `files` as the default branch tree */
+class CodeownersContext extends RepoContext {
+  constructor(private codeowners: string | undefined, private files: string[]) {
+    super(new Octokit(), 'acme', 'widget', { repository: { default_branch: 'main' } as RepoMetadata });
+  }
+
+  async getFileContent(path: string): Promise<string | undefined> {
+    return path === '.github/CODEOWNERS' ? this.codeowners : undefined;
+  }
+
+  async getTree(): Promise<RepoTree> {
+    return { files: this.files, truncated: false };
+  }
+}
+
+const FILES = ['README.md', 'src/index.ts', 'src/api/users.ts', 'docs/guide.md', '.github/CODEOWNERS', '.github/workflows/ci.yml'];
+
+function codeowners(...lines: string[]): string {
+  return lines.join('\n') + '\n';
+}
+
+describe('checkCodeownersRules', () => {
+  it('returns no results without a CODEOWNERS file', async () => {
+    const context = new CodeownersContext(undefined, FILES);
+    expect(await checkCodeownersRules(context)).toEqual({ findings: [], passes: [] });
+    expect(await checkCodeownersOwners(context)).toEqual({ findings: [], passes: [] });
+  });
+
+  it('reports rules a later rule overrides for every file they match', async () => {
+    const result = await checkCodeownersRules(new CodeownersContext(codeowners(
+      '/src/api/   @acme/api',
+      '*.md        @acme/docs',
+      '*           @acme/engineering',
+      '.github/    @acme/platform',
+    ), FILES), DEFAULT_POLICY_THRESHOLDS);
+
+    const shadowed = result.findings.find(finding => finding.id === 'co-shadowed-rules');
+    expect(shadowed?.location).toEqual({ path: '.github/CODEOWNERS', line: 1 });
+    expect(shadowed?.description).toContain('line 1: /src/api/ is overridden by line 3; line 2: *.md is overridden by line 3');
+    expect(result.passes.map(pass => pass.id)).toEqual(['co-syntax-errors', 'co-low-coverage', 'co-sensitive-paths-unowned']);
+  });
+
+  it('does not report a rule that still owns some of the files it matches', async () => {
+    const result = await checkCodeownersRules(new CodeownersContext(codeowners(
+      '*           @acme/engineering',
+      'src/        @acme/backend',
+      'src/api/    @acme/api',
+      '.github/    @acme/platform',
+    ), FILES), DEFAULT_POLICY_THRESHOLDS);
+
+    expect(result.findings).toEqual([]);
+  });
+
+  it('reports files left without owners, including by a pattern that removes ownership', async () => {
+    const result = await checkCodeownersRules(new CodeownersContext(codeowners(
+      '*           @acme/engineering',
+      '/docs/',
+    ), FILES), DEFAULT_POLICY_THRESHOLDS);
+
+    expect(result.findings.map(finding => finding.id)).toEqual(['co-low-coverage']);
+    expect(result.findings[0].description).toContain('83% (5/6 files)');
+  });
+});
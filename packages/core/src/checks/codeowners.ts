@@ -0,0 +1,176 @@
+import { SecurityFinding, PassedCheck, CheckResult, PolicyThresholds, DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { RepoContext } from '../context';
+import { CodeownersFile, CodeownersRule, matchesCodeownersPattern, readCodeowners, ruleFor } from '../codeowners';
+import { accessLevel, hasAccessLevel, teamAccessLevel } from '../access';
+import { WORKFLOWS_DIRECTORY } from './workflows';
+
+// Top-level directories holding deployment and infrastructure definitions
+const INFRASTRUCTURE_DIRECTORY = /^(terraform|infra|infrastructure|deploy|deployments?|k8s|kubernetes|helm|charts|ansible|pulumi|\.circleci)$/i;
+
+const DOCUMENTATION_URL = 'https://docs.github.com/en/repositories/managing-your-repositorys-settings-and-features/customizing-your-repository/about-code-owners';
+
+/**
+ * Validates the CODEOWNERS file against the repository tree: lines GitHub
+ * ignores because of invalid syntax, rules that never take effect because a
+ * later rule matches every file they match, the share of files with an owner,
+ * and whether workflows, CODEOWNERS itself and infrastructure directories have
+ * owners. Without a CODEOWNERS file there is nothing to validate, so it
+ * returns no results; the community-files check reports the missing file.
+ */
+export async function checkCodeownersRules(context: RepoContext, thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const codeowners = await readCodeowners(context);
+  if (!codeowners) return { findings, passes };
+  const { path, rules, errors } = codeowners;
+
+  if (errors.length > 0) {
+    findings.push({
+      id: 'co-syntax-errors',
+      category: 'repository-settings',
+      severity: 'medium',
+      title: 'Invalid lines in CODEOWNERS',
+      description: `${path}: GitHub skips ${errors.length} line(s) with invalid syntax, so the paths they cover get no owners from them (${errors.map(error => `line ${error.line}: ${error.message}`).join('; ')}).`,
+      recommendation: 'Fix or remove the invalid lines. CODEOWNERS does not support negation (!), character ranges ([ ]) or escaped # patterns, and owners must be @user, @org/team or an email address.',
+      documentationUrl: `${DOCUMENTATION_URL}#syntax-exceptions`,
+      soc2Control: 'CC8.1',
+      location: { path, line: errors[0].line },
+    });
+  } else {
+    passes.push({ id: 'co-syntax-errors', category: 'repository-settings', title: 'CODEOWNERS syntax valid', observedValue: `${path}: rules = ${rules.length}`, soc2Control: 'CC8.1' });
+  }
+
+  const { files, truncated } = await context.getTree();
+  const owningRule = new Map(files.map(file => [file, ruleFor(rules, file)]));
+  const sample = truncated ? ` (first ${files.length} files; the tree was truncated)` : '';
+
+  const shadowed = rules.flatMap(rule => {
+    const matched = files.filter(file => matchesCodeownersPattern(rule.pattern, file));
+    if (matched.length === 0 || matched.some(file => owningRule.get(file) === rule)) return [];
+    const overriding = [...new Set(matched.map(file => owningRule.get(file)!.line))];
+    return [{ rule, overriding }];
+  });
+  if (shadowed.length > 0) {
+    findings.push({
+      id: 'co-shadowed-rules',
+      category: 'repository-settings',
+      severity: 'low',
+      title: 'CODEOWNERS rules overridden by later rules',
+      description: `${path}: ${shadowed.length} rule(s) never apply because a later rule matches every file they match, and the last matching rule wins (${shadowed.map(({ rule, overriding }) => `line ${rule.line}: ${rule.pattern} is overridden by line ${overriding.join(', ')}`).join('; ')}).`,
+      recommendation: 'Move specific patterns below broader ones, or remove rules that no longer apply.',
+      documentationUrl: `${DOCUMENTATION_URL}#example-of-a-codeowners-file`,
+      soc2Control: 'CC8.1',
+      location: { path, line: shadowed[0].rule.line },
+    });
+  } else {
+    passes.push({ id: 'co-shadowed-rules', category: 'repository-settings', title: 'No CODEOWNERS rule overridden by a later one', observedValue: `rules = ${rules.length}, files = ${files.length}${sample}`, soc2Control: 'CC8.1' });
+  }
+
+  const owned = files.filter(file => hasOwners(owningRule.get(file)));
+  const percent = files.length === 0 ? 100 : Math.floor(owned.length / files.length * 100);
+  const coverage = `${percent}% (${owned.length}/${files.length} files)${sample}`;
+  if (percent < thresholds.minCodeownersCoverage) {
+    findings.push({
+      id: 'co-low-coverage',
+      category: 'repository-settings',
+      severity: 'low',
+      title: 'Files without code owners',
+      description: `${path} assigns owners to ${coverage}. Changes to the other files need no review from an owner.`,
+      recommendation: 'Add a catch-all "*" rule at the top of CODEOWNERS with a default owner, then more specific rules below it.',
+      documentationUrl: DOCUMENTATION_URL,
+      soc2Control: 'CC8.1',
+      currentValue: `${percent}%`,
+      expectedValue: `≥${thresholds.minCodeownersCoverage}%`,
+    });
+  } else {
+    passes.push({ id: 'co-low-coverage', category: 'repository-settings', title: 'Files have code owners', observedValue: `owned files = ${coverage}`, soc2Control: 'CC8.1' });
+  }
+
+  const unowned = sensitiveAreas(codeowners, files).filter(area => area.files.some(file => !hasOwners(owningRule.get(file))));
+  if (unowned.length > 0) {
+    findings.push({
+      id: 'co-sensitive-paths-unowned',
+      category: 'repository-settings',
+      severity: 'medium',
+      title: 'Sensitive paths without code owners',
+      description: `Changes to ${unowned.map(area => area.label).join(', ')} do not require review from a code owner, although they control CI/CD, review rules or infrastructure.`,
+      recommendation: `Add rules to ${path} that give these paths an owner, such as a platform or security team.`,
+      documentationUrl: DOCUMENTATION_URL,
+      soc2Control: 'CC8.1',
+      currentValue: unowned.map(area => area.label).join(', '),
+    });
+  } else {
+    passes.push({ id: 'co-sensitive-paths-unowned', category: 'repository-settings', title: 'Sensitive paths have code owners', observedValue: `owned = ${sensitiveAreas(codeowners, files).map(area => area.label).join(', ')}`, soc2Control: 'CC8.1' });
+  }
+
+  return { findings, passes };
+}
+
+/**
+ * Verifies every user or team named in CODEOWNERS can be requested for review:
+ * GitHub ignores owners without write access, so their rules silently require
+ * no one. Email owners are not checked because the API does not resolve them.
+ * Returns no results without a CODEOWNERS file, like `checkCodeownersRules`.
+ */
+export async function checkCodeownersOwners(context: RepoContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const codeowners = await readCodeowners(context);
+  if (!codeowners) return { findings, passes };
+
+  const owners = [...new Set(codeowners.rules.flatMap(rule => rule.owners).filter(owner => owner.startsWith('@')))];
+  const collaborators = new Map((await context.getCollaborators()).map(user => [user.login.toLowerCase(), accessLevel(user.permissions)]));
+  const teams = owners.some(owner => owner.includes('/'))
+    ? new Map((await context.getTeams()).map(team => [team.slug.toLowerCase(), teamAccessLevel(team)]))
+    : new Map();
+
+  const invalid = owners.flatMap(owner => {
+    const [name, slug] = owner.slice(1).toLowerCase().split('/');
+    let problem: string | undefined;
+    if (slug !== undefined) {
+      const level = teams.get(slug);
+      if (name !== context.owner.toLowerCase()) problem = 'team of another organization';
+      else if (!level) problem = 'team has no access';
+      else if (!hasAccessLevel(level, 'write')) problem = `team has ${level} access`;
+    } else {
+      const level = collaborators.get(name);
+      if (!level) problem = 'no access or unknown user';
+      else if (!hasAccessLevel(level, 'write')) problem = `${level} access`;
+    }
+    if (!problem) return [];
+    const lines = codeowners.rules.filter(rule => rule.owners.includes(owner)).map(rule => rule.line);
+    return [{ owner, problem, lines }];
+  });
+
+  if (invalid.length > 0) {
+    findings.push({
+      id: 'co-invalid-owners',
+      category: 'repository-settings',
+      severity: 'medium',
+      title: 'CODEOWNERS names owners without write access',
+      description: `${codeowners.path}: GitHub ignores owners who cannot approve changes, so their paths may require no code owner review (${invalid.map(entry => `${entry.owner}: ${entry.problem}, line ${entry.lines.join(', ')}`).join('; ')}).`,
+      recommendation: 'Grant these users or teams write access to the repository, or replace them with current owners.',
+      documentationUrl: DOCUMENTATION_URL,
+      soc2Control: 'CC8.1',
+      currentValue: invalid.map(entry => entry.owner).join(', '),
+      location: { path: codeowners.path, line: Math.min(...invalid.flatMap(entry => entry.lines)) },
+    });
+  } else {
+    passes.push({ id: 'co-invalid-owners', category: 'repository-settings', title: 'CODEOWNERS owners have write access', observedValue: `owners checked = ${owners.length}`, soc2Control: 'CC8.1' });
+  }
+
+  return { findings, passes };
+}
+
+function hasOwners(rule: CodeownersRule | undefined): boolean {
+  return rule !== undefined && rule.owners.length > 0;
+}
+
+/** Workflows, the CODEOWNERS file and infrastructure directories that exist in the tree */
+function sensitiveAreas(codeowners: CodeownersFile, files: string[]): Array<{ label: string; files: string[] }> {
+  const directories = [WORKFLOWS_DIRECTORY, ...new Set(files.map(file => file.split('/')[0]).filter(segment => INFRASTRUCTURE_DIRECTORY.test(segment)))];
+  return [
+    ...directories.map(directory => ({ label: `${directory}/`, files: files.filter(file => file.startsWith(`${directory}/`)) })),
+    { label: codeowners.path, files: [codeowners.path] },
+  ].filter(area => area.files.length > 0);
+}
@@ -0,0 +1,235 @@
+import { SecurityFinding, PassedCheck, CheckResult, Severity } from '../types';
+import { OrgContext } from '../org-context';
+import { CheckSkippedError } from '../errors';
+
+// Fields GitHub only returns to organization owners come back absent for everyone else
+function ownerOnly<T>(value: T | null | undefined, field: string): T {
+  if (value === undefined || value === null) {
+    throw new CheckSkippedError(`${field} is only visible to organization owners`, 403);
+  }
+  return value;
+}
+
+export async function checkOrgTwoFactor(context: OrgContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const org = await context.getOrganization();
+  const required = ownerOnly(org.two_factor_requirement_enabled, 'two_factor_requirement_enabled');
+
+  if (!required) {
+    findings.push({
+      id: 'org-2fa-not-required',
+      category: 'organization',
+      severity: 'critical',
+      title: 'Two-factor authentication not required',
+      description: `Members of ${context.org} can access its repositories without two-factor authentication.`,
+      recommendation: 'Require two-factor authentication for everyone in the organization.',
+      documentationUrl: 'https://docs.github.com/en/organizations/keeping-your-organization-secure/managing-two-factor-authentication-for-your-organization/requiring-two-factor-authentication-in-your-organization',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'org-2fa-not-required', category: 'organization', title: 'Two-factor authentication required', observedValue: 'two_factor_requirement_enabled = true', soc2Control: 'CC6.1' });
+  }
+
+  const without2FA = await context.getMembersWithout2FA();
+  if (without2FA.length > 0) {
+    findings.push({
+      id: 'org-members-without-2fa',
+      category: 'organization',
+      severity: 'high',
+      title: 'Members without two-factor authentication',
+      description: `${without2FA.length} member(s) have not enabled two-factor authentication.`,
+      recommendation: 'Ask these members to enable two-factor authentication, or remove them from the organization.',
+      documentationUrl: 'https://docs.github.com/en/organizations/keeping-your-organization-secure/managing-two-factor-authentication-for-your-organization/viewing-whether-users-in-your-organization-have-2fa-enabled',
+      soc2Control: 'CC6.2',
+      currentValue: without2FA.map(member => member.login).join(', '),
+    });
+  } else {
+    passes.push({ id: 'org-members-without-2fa', category: 'organization', title: 'All members use two-factor authentication', observedValue: 'members without 2FA = 0', soc2Control: 'CC6.2' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkOrgBasePermissions(context: OrgContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const org = await context.getOrganization();
+  const permission = ownerOnly(org.default_repository_permission, 'default_repository_permission');
+
+  if (permission === 'write' || permission === 'admin') {
+    const severity: Severity = permission === 'admin' ? 'critical' : 'high';
+    findings.push({
+      id: 'org-default-permission-broad',
+      category: 'organization',
+      severity,
+      title: 'Broad base permission for members',
+      description: `Every member has ${permission} access to every repository in ${context.org}.`,
+      recommendation: 'Set the base permission to "Read" or "No permission" and grant write access through teams.',
+      documentationUrl: 'https://docs.github.com/en/organizations/managing-user-access-to-your-organizations-repositories/managing-repository-roles/setting-base-permissions-for-an-organization',
+      soc2Control: 'CC6.2',
+      currentValue: permission,
+      expectedValue: 'read or none',
+    });
+  } else {
+    passes.push({ id: 'org-default-permission-broad', category: 'organization', title: 'Base permission is least privilege', observedValue: `default_repository_permission = ${permission}`, soc2Control: 'CC6.2' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkOrgRepositoryCreation(context: OrgContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const org = await context.getOrganization();
+  const createPublic = ownerOnly(org.members_can_create_public_repositories, 'members_can_create_public_repositories');
+
+  if (createPublic) {
+    findings.push({
+      id: 'org-members-can-create-public-repos',
+      category: 'organization',
+      severity: 'medium',
+      title: 'Members can create public repositories',
+      description: 'Any member can publish a new public repository, exposing code without review.',
+      recommendation: 'Restrict public repository creation to organization owners.',
+      documentationUrl: 'https://docs.github.com/en/organizations/managing-organization-settings/restricting-repository-creation-in-your-organization',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'org-members-can-create-public-repos', category: 'organization', title: 'Public repository creation restricted', observedValue: 'members_can_create_public_repositories = false', soc2Control: 'CC6.1' });
+  }
+
+  if (org.members_can_fork_private_repositories) {
+    findings.push({
+      id: 'org-members-can-fork-private',
+      category: 'organization',
+      severity: 'medium',
+      title: 'Members can fork private repositories',
+      description: 'Private repositories can be forked into personal accounts outside the organization\'s control.',
+      recommendation: 'Disable forking of private repositories at the organization level.',
+      documentationUrl: 'https://docs.github.com/en/organizations/managing-organization-settings/managing-the-forking-policy-for-your-organization',
+      soc2Control: 'CC6.1',
+    });
+  } else if (org.members_can_fork_private_repositories === false) {
+    passes.push({ id: 'org-members-can-fork-private', category: 'organization', title: 'Private forking disabled', observedValue: 'members_can_fork_private_repositories = false', soc2Control: 'CC6.1' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkOrgSecurityDefaults(context: OrgContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const org = await context.getOrganization();
+  const secretScanning = ownerOnly(org.secret_scanning_enabled_for_new_repositories, 'secret_scanning_enabled_for_new_repositories');
+
+  if (!secretScanning) {
+    findings.push({
+      id: 'org-secret-scanning-not-default',
+      category: 'organization',
+      severity: 'medium',
+      title: 'Secret scanning not enabled for new repositories',
+      description: 'New repositories start without secret scanning until someone enables it.',
+      recommendation: 'Enable secret scanning for new repositories in the organization\'s code security settings.',
+      documentationUrl: 'https://docs.github.com/en/organizations/keeping-your-organization-secure/managing-security-settings-for-your-organization/managing-security-and-analysis-settings-for-your-organization',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'org-secret-scanning-not-default', category: 'organization', title: 'Secret scanning on by default', observedValue: 'secret_scanning_enabled_for_new_repositories = true', soc2Control: 'CC6.1' });
+  }
+
+  if (!org.secret_scanning_push_protection_enabled_for_new_repositories) {
+    findings.push({
+      id: 'org-push-protection-not-default',
+      category: 'organization',
+      severity: 'medium',
+      title: 'Push protection not enabled for new repositories',
+      description: 'New repositories accept pushes containing detected secrets.',
+      recommendation: 'Enable push protection for new repositories in the organization\'s code security settings.',
+      documentationUrl: 'https://docs.github.com/en/code-security/secret-scanning/push-protection-for-repositories-and-organizations',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'org-push-protection-not-default', category: 'organization', title: 'Push protection on by default', observedValue: 'secret_scanning_push_protection_enabled_for_new_repositories = true', soc2Control: 'CC6.1' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkOrgActionsPolicy(context: OrgContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const actions = await context.getActionsPermissions();
+
+  if (actions.enabled_repositories !== 'none' && actions.allowed_actions === 'all') {
+    findings.push({
+      id: 'org-actions-unrestricted',
+      category: 'organization',
+      severity: 'medium',
+      title: 'All GitHub Actions allowed across the organization',
+      description: 'Any third-party action can run in the organization\'s repositories.',
+      recommendation: 'Allow only actions created by GitHub, verified creators or an explicit allow list.',
+      documentationUrl: 'https://docs.github.com/en/organizations/managing-organization-settings/disabling-or-limiting-github-actions-for-your-organization',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'org-actions-unrestricted', category: 'organization', title: 'Allowed actions restricted', observedValue: `enabled_repositories = ${actions.enabled_repositories}, allowed_actions = ${actions.allowed_actions ?? 'n/a'}`, soc2Control: 'CC6.1' });
+  }
+
+  const workflow = await context.getWorkflowPermissions();
+  if (workflow.default_workflow_permissions === 'write') {
+    findings.push({
+      id: 'org-workflow-token-write',
+      category: 'organization',
+      severity: 'high',
+      title: 'GITHUB_TOKEN has write permissions by default',
+      description: 'Repositories inherit write access for workflow tokens unless each one overrides it.',
+      recommendation: 'Set the organization\'s default workflow permissions to "read".',
+      documentationUrl: 'https://docs.github.com/en/organizations/managing-organization-settings/disabling-or-limiting-github-actions-for-your-organization#setting-the-permissions-of-the-github_token-for-your-organization',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'org-workflow-token-write', category: 'organization', title: 'GITHUB_TOKEN read-only by default', observedValue: `default_workflow_permissions = ${workflow.default_workflow_permissions}`, soc2Control: 'CC6.1' });
+  }
+
+  if (workflow.can_approve_pull_request_reviews) {
+    findings.push({
+      id: 'org-actions-can-approve-prs',
+      category: 'organization',
+      severity: 'medium',
+      title: 'Actions can approve pull requests',
+      description: 'Workflows in any repository can approve pull requests, which could bypass review requirements.',
+      recommendation: 'Disable "Allow GitHub Actions to create and approve pull requests" for the organization.',
+      documentationUrl: 'https://docs.github.com/en/organizations/managing-organization-settings/disabling-or-limiting-github-actions-for-your-organization#preventing-github-actions-from-creating-or-approving-pull-requests',
+      soc2Control: 'CC6.1',
+    });
+  } else {
+    passes.push({ id: 'org-actions-can-approve-prs', category: 'organization', title: 'Actions cannot approve pull requests', observedValue: 'can_approve_pull_request_reviews = false', soc2Control: 'CC6.1' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkOrgOutsideCollaborators(context: OrgContext): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const collaborators = await context.getOutsideCollaborators();
+
+  if (collaborators.length > 0) {
+    findings.push({
+      id: 'org-outside-collaborators',
+      category: 'organization',
+      severity: 'low',
+      title: 'Outside collaborators have repository access',
+      description: `${collaborators.length} user(s) outside the organization have access to its repositories and are not bound by its membership policies.`,
+      recommendation: 'Review outside collaborator access periodically and remove accounts that no longer need it.',
+      documentationUrl: 'https://docs.github.com/en/organizations/managing-user-access-to-your-organizations-repositories/managing-outside-collaborators/adding-outside-collaborators-to-repositories-in-your-organization',
+      soc2Control: 'CC6.2',
+      currentValue: collaborators.map(collaborator => collaborator.login).join(', '),
+    });
+  } else {
+    passes.push({ id: 'org-outside-collaborators', category: 'organization', title: 'No outside collaborators', observedValue: 'outside collaborators = 0', soc2Control: 'CC6.2' });
+  }
+
+  return { findings, passes };
+}
@@ -0,0 +1,484 @@
+import { CheckCategory, CheckMetadata, CheckResult, PolicyThresholds, ReleasePatterns } from '../types';
+import { RepoContext } from '../context';
+import { OrgContext } from '../org-context';
+import { checkBranchProtection } from './branch-protection';
+import { checkReleaseBranches, checkReleaseTags, releaseBranchFindingId } from './release-protection';
+import {
+  checkSecurityPolicy,
+  checkVulnerabilityAlerts,
+  checkDependabotConfig,
+  checkSecretScanning,
+  checkSecretScanningAlerts,
+  checkPushProtection,
+  checkDependencyAlerts,
+  checkDependencyRemediation,
+} from './security-features';
+import { checkRepoVisibility, checkCollaborators, checkDeployKeys, checkWebhooks } from './access-control';
+import {
+  checkRepositoryConfiguration,
+  checkCommunityFiles,
+  checkActionsPermissions,
+  checkWorkflowTokenPermissions,
+  checkEnvironments,
+} from './repository-settings';
+import { checkCodeownersRules, checkCodeownersOwners } from './codeowners';
+import { checkCodeScanning, checkCodeScanningAlerts } from './code-scanning';
+import { checkWorkflowInputs, checkWorkflowDependencies, checkWorkflowPermissions, checkWorkflowRunners } from './workflows';
+import {
+  checkOrgTwoFactor,
+  checkOrgBasePermissions,
+  checkOrgRepositoryCreation,
+  checkOrgSecurityDefaults,
+  checkOrgActionsPolicy,
+  checkOrgOutsideCollaborators,
+} from './organization';
+
+export interface CheckDefinition extends CheckMetadata {
+  run: (context: RepoContext, thresholds: PolicyThresholds, releases: ReleasePatterns) => Promise<CheckResult>;
+}
+
+/** A check of organization settings, run once per organization by `scanOrganization` */
+export interface OrgCheckDefinition extends CheckMetadata {
+  run: (context: OrgContext) => Promise<CheckResult>;
+}
+
+export interface CheckSelection {
+  include?: string[];
+  exclude?: string[];
+}
+
+const BRANCH_PROTECTION_FINDINGS = ['bp-not-enabled', 'bp-not-available', 'bp-no-pr-reviews', 'bp-stale-reviews', 'bp-no-codeowner-review', 'bp-low-review-count', 'bp-admin-bypass', 'bp-no-status-checks', 'bp-force-push-allowed', 'bp-deletions-allowed', 'bp-no-conversation-resolution', 'bp-no-signed-commits', 'bp-no-linear-history', 'bp-ruleset-evaluate-mode', 'bp-ruleset-broad-bypass'];
+
+const CHECKS: CheckDefinition[] = [
+  {
+    id: 'default-branch-protection',
+    name: 'Default branch protection',
+    category: 'branch-protection',
+    description: 'Evaluates the classic protection and rulesets that apply to the default branch.',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['administration:read'],
+    findingIds: BRANCH_PROTECTION_FINDINGS,
+    run: async (context, thresholds) => checkBranchProtection(context, await context.getDefaultBranch(), thresholds),
+  },
+  {
+    id: 'release-branch-protection',
+    name: 'Release branch protection',
+    category: 'branch-protection',
+    description: 'Applies the branch protection checks to branches matching the release patterns (release/** and hotfix/** by default).',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC8.1',
+    requiredPermissions: ['administration:read'],
+    findingIds: BRANCH_PROTECTION_FINDINGS.map(releaseBranchFindingId),
+    run: (context, thresholds, releases) => checkReleaseBranches(context, releases, thresholds),
+  },
+  {
+    id: 'release-tag-protection',
+    name: 'Release tag protection',
+    category: 'branch-protection',
+    description: 'Verifies tags matching the release patterns (v* by default) are protected by tag rulesets.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC8.1',
+    requiredPermissions: ['administration:read'],
+    findingIds: ['tp-tags-unprotected', 'tp-tags-mutable'],
+    run: (context, _thresholds, releases) => checkReleaseTags(context, releases),
+  },
+  {
+    id: 'security-policy',
+    name: 'Security policy',
+    category: 'security-features',
+    description: 'Verifies a SECURITY.md file exists for vulnerability reporting.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC7.4',
+    requiredPermissions: ['contents:read'],
+    findingIds: ['sf-no-security-policy'],
+    run: (context) => checkSecurityPolicy(context),
+  },
+  {
+    id: 'vulnerability-alerts',
+    name: 'Dependabot alerts',
+    category: 'security-features',
+    description: 'Verifies Dependabot vulnerability alerts are enabled.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC7.1',
+    requiredPermissions: ['administration:read'],
+    findingIds: ['sf-no-dependabot-alerts'],
+    run: (context) => checkVulnerabilityAlerts(context),
+  },
+  {
+    id: 'dependabot-config',
+    name: 'Dependabot version updates',
+    category: 'security-features',
+    description: 'Validates dependabot.yml against the package ecosystems detected in the repository and suggests a corrected configuration.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC7.1',
+    requiredPermissions: ['contents:read'],
+    findingIds: ['sf-no-dependabot-config', 'sf-dependabot-invalid-config', 'sf-dependabot-uncovered-ecosystems'],
+    run: (context) => checkDependabotConfig(context),
+  },
+  {
+    id: 'code-scanning',
+    name: 'Code scanning',
+    category: 'security-features',
+    description: 'Reads code scanning uploads for the default branch: which tools report results, stale analyses and languages CodeQL does not cover.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC7.1',
+    requiredPermissions: ['security_events:read', 'metadata:read'],
+    findingIds: ['sf-no-code-scanning', 'sf-code-scanning-stale', 'sf-code-scanning-languages-uncovered'],
+    run: (context, thresholds) => checkCodeScanning(context, thresholds),
+  },
+  {
+    id: 'code-scanning-alerts',
+    name: 'Open code scanning alerts',
+    category: 'security-features',
+    description: 'Counts open code scanning alerts on the default branch by severity.',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC7.1',
+    requiredPermissions: ['security_events:read'],
+    findingIds: ['sf-open-code-scanning-alerts'],
+    run: (context) => checkCodeScanningAlerts(context),
+  },
+  {
+    id: 'secret-scanning',
+    name: 'Secret scanning',
+    category: 'security-features',
+    description: 'Verifies secret scanning is enabled.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC6.7',
+    requiredPermissions: ['secret_scanning_alerts:read'],
+    findingIds: ['sf-no-secret-scanning'],
+    run: (context) => checkSecretScanning(context),
+  },
+  {
+    id: 'secret-scanning-alerts',
+    name: 'Open secret scanning alerts',
+    category: 'secrets',
+    description: 'Lists open secret scanning alerts by secret type with their age, validity and push protection bypasses.',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC6.7',
+    requiredPermissions: ['secret_scanning_alerts:read'],
+    findingIds: ['sec-open-secret-alerts'],
+    run: (context) => checkSecretScanningAlerts(context),
+  },
+  {
+    id: 'push-protection',
+    name: 'Secret scanning push protection',
+    category: 'security-features',
+    description: 'Verifies push protection blocks pushes containing secrets.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.7',
+    requiredPermissions: ['administration:read'],
+    findingIds: ['sf-push-protection-check'],
+    minEnterpriseVersion: '3.5',
+    run: (context) => checkPushProtection(context),
+  },
+  {
+    id: 'vulnerable-dependencies',
+    name: 'Vulnerable dependencies',
+    category: 'dependencies',
+    description: 'Reports each package with open Dependabot alerts, with its advisories, vulnerable range, patched version and dependency type.',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC7.1',
+    requiredPermissions: ['vulnerability_alerts:read'],
+    findingIds: ['dep-critical-vulns', 'dep-high-vulns', 'dep-medium-vulns', 'dep-low-vulns'],
+    minEnterpriseVersion: '3.8',
+    run: (context) => checkDependencyAlerts(context),
+  },
+  {
+    id: 'dependency-remediation-sla',
+    name: 'Vulnerability remediation SLA',
+    category: 'dependencies',
+    description: 'Flags Dependabot alerts open longer than the remediation SLA for their severity.',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC7.1',
+    requiredPermissions: ['vulnerability_alerts:read'],
+    findingIds: ['dep-remediation-sla-breached'],
+    minEnterpriseVersion: '3.8',
+    run: (context, thresholds) => checkDependencyRemediation(context, thresholds),
+  },
+  {
+    id: 'repo-visibility',
+    name: 'Repository visibility',
+    category: 'access-control',
+    description: 'Flags publicly accessible repositories.',
+    defaultSeverity: 'info',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['metadata:read'],
+    findingIds: ['ac-public-repo'],
+    run: (context) => checkRepoVisibility(context),
+  },
+  {
+    id: 'collaborators',
+    name: 'Collaborator access',
+    category: 'access-control',
+    description: 'Reviews administrators, outside collaborators, individual grants to members and admin teams.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.2',
+    requiredPermissions: ['metadata:read', 'members:read'],
+    findingIds: ['ac-too-many-admins', 'ac-outside-collaborators', 'ac-direct-member-grants', 'ac-team-admin-access'],
+    run: (context, thresholds) => checkCollaborators(context, thresholds),
+  },
+  {
+    id: 'deploy-keys',
+    name: 'Deploy keys',
+    category: 'access-control',
+    description: 'Identifies deploy keys with write access or past their rotation age.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['administration:read'],
+    findingIds: ['ac-write-deploy-keys', 'ac-old-deploy-keys'],
+    run: (context, thresholds) => checkDeployKeys(context, thresholds),
+  },
+  {
+    id: 'webhooks',
+    name: 'Webhooks',
+    category: 'access-control',
+    description: 'Verifies webhooks use HTTPS and validate payloads with a secret.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC6.7',
+    requiredPermissions: ['webhooks:read'],
+    findingIds: ['ac-insecure-webhooks', 'ac-webhooks-no-secret'],
+    run: (context) => checkWebhooks(context),
+  },
+  {
+    id: 'repository-configuration',
+    name: 'Repository configuration',
+    category: 'repository-settings',
+    description: 'Reviews wiki, issues, forking, merge strategy and branch naming settings.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['metadata:read'],
+    findingIds: ['rs-wiki-enabled', 'rs-issues-disabled', 'rs-legacy-branch-name', 'rs-private-forking-allowed', 'rs-all-merge-types-allowed', 'rs-no-auto-delete-branches'],
+    run: (context) => checkRepositoryConfiguration(context),
+  },
+  {
+    id: 'community-files',
+    name: 'Repository files',
+    category: 'repository-settings',
+    description: 'Looks for README, LICENSE, CODEOWNERS and .gitignore files.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['contents:read'],
+    findingIds: ['rs-no-readme', 'rs-no-license', 'rs-no-codeowners', 'rs-no-gitignore'],
+    run: (context) => checkCommunityFiles(context),
+  },
+  {
+    id: 'codeowners',
+    name: 'CODEOWNERS rules',
+    category: 'repository-settings',
+    description: 'Parses CODEOWNERS for invalid and overridden rules, and measures which files and sensitive paths have owners.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC8.1',
+    requiredPermissions: ['contents:read'],
+    findingIds: ['co-syntax-errors', 'co-shadowed-rules', 'co-low-coverage', 'co-sensitive-paths-unowned'],
+    run: (context, thresholds) => checkCodeownersRules(context, thresholds),
+  },
+  {
+    id: 'codeowners-owners',
+    name: 'CODEOWNERS owners',
+    category: 'repository-settings',
+    description: 'Verifies the users and teams named in CODEOWNERS have write access to the repository.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC8.1',
+    requiredPermissions: ['contents:read', 'metadata:read', 'members:read'],
+    findingIds: ['co-invalid-owners'],
+    run: (context) => checkCodeownersOwners(context),
+  },
+  {
+    id: 'actions-permissions',
+    name: 'Allowed actions',
+    category: 'repository-settings',
+    description: 'Flags repositories that allow any GitHub Action to run.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['administration:read'],
+    findingIds: ['rs-actions-all-allowed'],
+    run: (context) => checkActionsPermissions(context),
+  },
+  {
+    id: 'workflow-token-permissions',
+    name: 'GITHUB_TOKEN permissions',
+    category: 'repository-settings',
+    description: 'Reviews the default GITHUB_TOKEN permissions granted to workflows.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['administration:read'],
+    findingIds: ['rs-token-write-permissions', 'rs-token-can-approve-prs'],
+    run: (context) => checkWorkflowTokenPermissions(context),
+  },
+  {
+    id: 'environments',
+    name: 'Deployment environments',
+    category: 'repository-settings',
+    description: 'Flags deployment environments without protection rules.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['environments:read'],
+    findingIds: ['rs-unprotected-environments'],
+    run: (context) => checkEnvironments(context),
+  },
+  {
+    id: 'workflow-untrusted-input',
+    name: 'Workflow untrusted input',
+    category: 'workflows',
+    description: 'Parses workflow files for pull_request_target/workflow_run jobs that check out pull request code, and for untrusted event data expanded into scripts. Reports workflow files that are not valid YAML.',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC7.1',
+    requiredPermissions: ['contents:read'],
+    findingIds: ['wf-invalid-yaml', 'wf-untrusted-checkout', 'wf-script-injection'],
+    run: (context) => checkWorkflowInputs(context),
+  },
+  {
+    id: 'workflow-dependencies',
+    name: 'Workflow actions and reusable workflows',
+    category: 'workflows',
+    description: 'Flags third-party actions not pinned to a commit SHA and secrets inherited by external reusable workflows.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC8.1',
+    requiredPermissions: ['contents:read'],
+    findingIds: ['wf-unpinned-action', 'wf-secrets-inherit'],
+    run: (context) => checkWorkflowDependencies(context),
+  },
+  {
+    id: 'workflow-permissions',
+    name: 'Workflow token permissions',
+    category: 'workflows',
+    description: 'Flags write-all permissions and workflows without a top-level permissions block.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['contents:read'],
+    findingIds: ['wf-write-all-permissions', 'wf-no-permissions'],
+    run: (context) => checkWorkflowPermissions(context),
+  },
+  {
+    id: 'workflow-runners',
+    name: 'Self-hosted runners',
+    category: 'workflows',
+    description: 'Flags public repositories whose workflows run on self-hosted runners.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['metadata:read', 'contents:read'],
+    findingIds: ['wf-self-hosted-public'],
+    run: (context) => checkWorkflowRunners(context),
+  },
+];
+
+const ORG_CHECKS: OrgCheckDefinition[] = [
+  {
+    id: 'org-two-factor',
+    name: 'Two-factor authentication',
+    category: 'organization',
+    description: 'Verifies the organization requires two-factor authentication and lists members without it.',
+    defaultSeverity: 'critical',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['members:read', 'organization_administration:read'],
+    findingIds: ['org-2fa-not-required', 'org-members-without-2fa'],
+    run: (context) => checkOrgTwoFactor(context),
+  },
+  {
+    id: 'org-base-permissions',
+    name: 'Base repository permission',
+    category: 'organization',
+    description: 'Flags a default member permission of write or admin on every repository.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC6.2',
+    requiredPermissions: ['organization_administration:read'],
+    findingIds: ['org-default-permission-broad'],
+    run: (context) => checkOrgBasePermissions(context),
+  },
+  {
+    id: 'org-repository-creation',
+    name: 'Repository creation and forking',
+    category: 'organization',
+    description: 'Reviews whether members can create public repositories and fork private ones.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['organization_administration:read'],
+    findingIds: ['org-members-can-create-public-repos', 'org-members-can-fork-private'],
+    run: (context) => checkOrgRepositoryCreation(context),
+  },
+  {
+    id: 'org-security-defaults',
+    name: 'Security defaults for new repositories',
+    category: 'organization',
+    description: 'Verifies secret scanning and push protection are enabled for new repositories.',
+    defaultSeverity: 'medium',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['organization_administration:read'],
+    findingIds: ['org-secret-scanning-not-default', 'org-push-protection-not-default'],
+    run: (context) => checkOrgSecurityDefaults(context),
+  },
+  {
+    id: 'org-actions-policy',
+    name: 'Organization Actions policy',
+    category: 'organization',
+    description: 'Reviews allowed actions and the default GITHUB_TOKEN permissions for the organization.',
+    defaultSeverity: 'high',
+    soc2Control: 'CC6.1',
+    requiredPermissions: ['organization_administration:read'],
+    findingIds: ['org-actions-unrestricted', 'org-workflow-token-write', 'org-actions-can-approve-prs'],
+    run: (context) => checkOrgActionsPolicy(context),
+  },
+  {
+    id: 'org-outside-collaborators',
+    name: 'Outside collaborators',
+    category: 'organization',
+    description: 'Lists users outside the organization with access to its repositories.',
+    defaultSeverity: 'low',
+    soc2Control: 'CC6.2',
+    requiredPermissions: ['members:read'],
+    findingIds: ['org-outside-collaborators'],
+    run: (context) => checkOrgOutsideCollaborators(context),
+  },
+];
+
+export function getCheckDefinitions(): CheckDefinition[] {
+  return [...CHECKS];
+}
+
+export function getOrgCheckDefinitions(): OrgCheckDefinition[] {
+  return [...ORG_CHECKS];
+}
+
+export function listChecks(category?: CheckCategory): CheckMetadata[] {
+  return [...CHECKS, ...ORG_CHECKS]
+    .filter(check => !category || check.category === category)
+    .map(({ run: _run, ...metadata }) => metadata);
+}
+
+export function findUnknownChecks(selectors: string[]): string[] {
+  return selectors.filter(selector => ![...CHECKS, ...ORG_CHECKS].some(check => matchesSelector(check, selector)));
+}
+
+export function selectChecks(selection: CheckSelection = {}): CheckDefinition[] {
+  const selectors = [...(selection.include || []), ...(selection.exclude || [])];
+  const unknown = findUnknownChecks(selectors);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown check or category: ${unknown.join(', ')}`);
+  }
+
+  return CHECKS.filter(check => {
+    if (selection.include && selection.include.length > 0 && !selection.include.some(s => matchesSelector(check, s))) return false;
+    if (selection.exclude && selection.exclude.some(s => matchesSelector(check, s))) return false;
+    return true;
+  });
+}
+
+/** Selects organization checks; selectors naming only repository checks leave none selected */
+export function selectOrgChecks(selection: CheckSelection = {}): OrgCheckDefinition[] {
+  const selectors = [...(selection.include || []), ...(selection.exclude || [])];
+  const unknown = findUnknownChecks(selectors);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown check or category: ${unknown.join(', ')}`);
+  }
+
+  return ORG_CHECKS.filter(check => {
+    if (selection.include && selection.include.length > 0 && !selection.include.some(s => matchesSelector(check, s))) return false;
+    if (selection.exclude && selection.exclude.some(s => matchesSelector(check, s))) return false;
+    return true;
+  });
+}
+
+function matchesSelector(check: CheckMetadata, selector: string): boolean {
+  return check.id === selector || check.category === selector;
+}
@@ -0,0 +1,127 @@
+import { SecurityFinding, PassedCheck, CheckResult, PolicyThresholds, ReleasePatterns, DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { RepoContext } from '../context';
+import { describeSources, getActiveRulesets, matchesRefConditions, rulesetSource } from '../branch-rules';
+import { matchesGlob } from '../utils/glob';
+import { checkBranchProtection } from './branch-protection';
+import { mergeCheckResults } from './result';
+
+/**
+ * The ID a branch protection finding (bp-*) takes on a release branch (rb-*),
+ * so policy severities and suppressions can treat release lines apart from
+ * the default branch
+ */
+export function releaseBranchFindingId(findingId: string): string {
+  return findingId.replace(/^bp-/, 'rb-');
+}
+
+/**
+ * Applies the default-branch protection rules to every branch matching a
+ * release pattern. Results carry the branch ref and an rb-* ID, and count as
+ * change-management (CC8.1) evidence, since these branches ship to production.
+ */
+export async function checkReleaseBranches(
+  context: RepoContext,
+  releases: ReleasePatterns,
+  thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS
+): Promise<CheckResult> {
+  if (releases.branches.length === 0) return { findings: [], passes: [] };
+
+  const defaultBranch = await context.getDefaultBranch();
+  const branches = (await context.getBranches())
+    .filter(branch => branch.name !== defaultBranch && releases.branches.some(pattern => matchesGlob(branch.name, pattern)));
+
+  const results: CheckResult[] = [];
+  for (const branch of branches) {
+    const ref = `refs/heads/${branch.name}`;
+    const { findings, passes } = await checkBranchProtection(context, branch.name, thresholds);
+    results.push({
+      findings: findings.map(finding => ({ ...finding, id: releaseBranchFindingId(finding.id), ref, soc2Control: 'CC8.1' })),
+      passes: passes.map(pass => ({ ...pass, id: releaseBranchFindingId(pass.id), ref, soc2Control: 'CC8.1' })),
+    });
+  }
+  return mergeCheckResults(...results);
+}
+
+/**
+ * Checks that tags matching each release pattern are protected, either by an
+ * active tag ruleset or by the deprecated tag protection rules. A ruleset only
+ * makes tags immutable when it restricts both updates and deletions.
+ */
+export async function checkReleaseTags(
+  context: RepoContext,
+  releases: ReleasePatterns
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  if (releases.tags.length === 0) return { findings, passes };
+
+  const tags = await context.getTags();
+  const defaultBranch = await context.getDefaultBranch();
+  const protectionPatterns = await context.getTagProtectionPatterns();
+  const rulesets = (await getActiveRulesets(context, 'tag')) || [];
+
+  for (const pattern of releases.tags) {
+    const matching = tags.filter(tag => matchesGlob(tag.name, pattern));
+    // Nothing to protect yet; no evidence either way
+    if (matching.length === 0) continue;
+
+    const ref = `refs/tags/${pattern}`;
+    const unprotected: string[] = [];
+    const mutable: string[] = [];
+    const sources = new Set<string>();
+
+    for (const tag of matching) {
+      if (protectionPatterns.some(protection => matchesGlob(tag.name, protection))) {
+        sources.add('tag protection rule');
+        continue;
+      }
+      const covering = rulesets.filter(ruleset => matchesRefConditions(ruleset.conditions, `refs/tags/${tag.name}`, defaultBranch));
+      if (covering.length === 0) {
+        unprotected.push(tag.name);
+        continue;
+      }
+      sources.add(describeSources(covering.map(rulesetSource)));
+      const ruleTypes = new Set(covering.flatMap(ruleset => (ruleset.rules || []).map(rule => rule.type)));
+      if (!ruleTypes.has('update') || !ruleTypes.has('deletion')) mutable.push(tag.name);
+    }
+
+    if (unprotected.length > 0) {
+      findings.push({
+        id: 'tp-tags-unprotected',
+        category: 'branch-protection',
+        severity: 'high',
+        title: 'Release tags not protected',
+        description: `${unprotected.length} of ${matching.length} tag(s) matching ${pattern} are not covered by a tag ruleset: ${summarize(unprotected)}.`,
+        recommendation: `Create a tag ruleset targeting ${ref} that restricts updates and deletions.`,
+        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-rulesets/creating-rulesets-for-a-repository',
+        soc2Control: 'CC8.1',
+        ref,
+      });
+    }
+    if (mutable.length > 0) {
+      findings.push({
+        id: 'tp-tags-mutable',
+        category: 'branch-protection',
+        severity: 'medium',
+        title: 'Release tags can be moved or deleted',
+        description: `Tag rulesets cover tags matching ${pattern} but do not restrict both updates and deletions: ${summarize(mutable)}.`,
+        recommendation: 'Add the "Restrict updates" and "Restrict deletions" rules to the tag ruleset.',
+        documentationUrl: 'https://docs.github.com/en/repositories/configuring-branches-and-merges-in-your-repository/managing-rulesets/available-rules-for-rulesets',
+        soc2Control: 'CC8.1',
+        ref,
+      });
+    }
+    if (unprotected.length === 0) {
+      passes.push({ id: 'tp-tags-unprotected', category: 'branch-protection', title: 'Release tags protected', observedValue: `${matching.length} tag(s) matching ${pattern} protected via ${[...sources].join(', ')}`, soc2Control: 'CC8.1', ref });
+    }
+    if (unprotected.length === 0 && mutable.length === 0) {
+      passes.push({ id: 'tp-tags-mutable', category: 'branch-protection', title: 'Release tags immutable', observedValue: `updates and deletions restricted for tags matching ${pattern}`, soc2Control: 'CC8.1', ref });
+    }
+  }
+
+  return { findings, passes };
+}
+
+function summarize(names: string[], limit = 5): string {
+  return names.length > limit ? `${names.slice(0, limit).join(', ')} and ${names.length - limit} more` : names.join(', ');
+}
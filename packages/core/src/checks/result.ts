@@ -0,0 +1,8 @@
+import { CheckResult } from '../types';
+
+export function mergeCheckResults(...results: CheckResult[]): CheckResult {
+  return {
+    findings: results.flatMap(result => result.findings),
+    passes: results.flatMap(result => result.passes),
+  };
+}
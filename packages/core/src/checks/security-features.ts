@@ -1,207 +1,491 @@
-import { Octokit } from '@octokit/rest';
-import { SecurityFinding } from '../types';
+import { SecurityFinding, PassedCheck, CheckResult, PolicyThresholds, Severity, DEFAULT_POLICY_THRESHOLDS } from '../types';
+import { DependabotAlert, RepoContext } from '../context';
+import { CheckSkippedError } from '../errors';
+import { DEPENDABOT_CONFIG_PATHS, detectEcosystems, findUncoveredEcosystems, findUpdateProblems, parseDependabotConfig, suggestDependabotConfig, DependabotConfig } from '../dependabot';
+import { mergeCheckResults } from './result';
+import { checkCodeScanning, checkCodeScanningAlerts } from './code-scanning';
 
 export async function checkSecurityFeatures(
-  octokit: Octokit,
-  owner: string,
-  repo: string
-): Promise<SecurityFinding[]> {
-  const findings: SecurityFinding[] = [];
+  context: RepoContext
+): Promise<CheckResult> {
+  try {
+    return mergeCheckResults(
+      await checkSecurityPolicy(context),
+      await checkVulnerabilityAlerts(context),
+      await checkDependabotConfig(context),
+      await checkCodeScanning(context),
+      await skippable(checkCodeScanningAlerts(context)),
+      await checkSecretScanning(context),
+      await skippable(checkSecretScanningAlerts(context)),
+      await skippable(checkPushProtection(context)),
+    );
+  } catch (error) {
+    console.error('Error checking security features:', error);
+    throw error;
+  }
+}
 
+// Checks that cannot run for this repository or token contribute nothing to the combined result
+async function skippable(result: Promise<CheckResult>): Promise<CheckResult> {
   try {
-    // Get repository details
-    await octokit.repos.get({ owner, repo });
-
-    // Check for security policy (SECURITY.md)
-    try {
-      await octokit.repos.getContent({
-        owner,
-        repo,
-        path: 'SECURITY.md',
-      });
-    } catch {
-      findings.push({
-        id: 'sf-no-security-policy',
-        category: 'security-features',
-        severity: 'medium',
-        title: 'No security policy',
-        description: 'Repository lacks a SECURITY.md file for vulnerability reporting.',
-        recommendation: 'Create a SECURITY.md file with instructions for reporting security vulnerabilities.',
-        documentationUrl: 'https://docs.github.com/en/code-security/getting-started/adding-a-security-policy-to-your-repository',
-        soc2Control: 'CC7.4',
-      });
-    }
+    return await result;
+  } catch (error) {
+    if (error instanceof CheckSkippedError) return { findings: [], passes: [] };
+    throw error;
+  }
+}
 
-    // Check vulnerability alerts (Dependabot alerts)
-    try {
-      await octokit.repos.checkVulnerabilityAlerts({
-        owner,
-        repo,
-      });
-      // If we get here without error, alerts are enabled
-    } catch (error: any) {
-      if (error.status === 404) {
-        findings.push({
-          id: 'sf-no-dependabot-alerts',
-          category: 'security-features',
-          severity: 'high',
-          title: 'Dependabot alerts disabled',
-          description: 'Dependabot vulnerability alerts are not enabled.',
-          recommendation: 'Enable Dependabot alerts to receive notifications about vulnerable dependencies.',
-          documentationUrl: 'https://docs.github.com/en/code-security/dependabot/dependabot-alerts/about-dependabot-alerts',
-          soc2Control: 'CC7.1',
-        });
-      }
-    }
+export async function checkSecurityPolicy(
+  context: RepoContext
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
 
-    // Check for Dependabot config
-    try {
-      await octokit.repos.getContent({
-        owner,
-        repo,
-        path: '.github/dependabot.yml',
-      });
-    } catch {
+  // Check for security policy (SECURITY.md)
+  const hasSecurityPolicy = await context.fileExists('SECURITY.md');
+  if (!hasSecurityPolicy) {
+    findings.push({
+      id: 'sf-no-security-policy',
+      category: 'security-features',
+      severity: 'medium',
+      title: 'No security policy',
+      description: 'Repository lacks a SECURITY.md file for vulnerability reporting.',
+      recommendation: 'Create a SECURITY.md file with instructions for reporting security vulnerabilities.',
+      documentationUrl: 'https://docs.github.com/en/code-security/getting-started/adding-a-security-policy-to-your-repository',
+      soc2Control: 'CC7.4',
+    });
+  } else {
+    passes.push({ id: 'sf-no-security-policy', category: 'security-features', title: 'Security policy published', observedValue: 'SECURITY.md present', soc2Control: 'CC7.4' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkVulnerabilityAlerts(
+  context: RepoContext
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+
+  // Check vulnerability alerts (Dependabot alerts)
+  try {
+    await context.octokit.repos.checkVulnerabilityAlerts({
+      owner: context.owner,
+      repo: context.repo,
+    });
+    // If we get here without error, alerts are enabled
+    passes.push({ id: 'sf-no-dependabot-alerts', category: 'security-features', title: 'Dependabot alerts enabled', observedValue: 'vulnerability_alerts = enabled', soc2Control: 'CC7.1' });
+  } catch (error: any) {
+    if (error.status === 404) {
       findings.push({
-        id: 'sf-no-dependabot-config',
+        id: 'sf-no-dependabot-alerts',
         category: 'security-features',
-        severity: 'medium',
-        title: 'Dependabot version updates not configured',
-        description: 'No dependabot.yml configuration file found.',
-        recommendation: 'Create .github/dependabot.yml to enable automatic dependency updates.',
-        documentationUrl: 'https://docs.github.com/en/code-security/dependabot/dependabot-version-updates/configuring-dependabot-version-updates',
+        severity: 'high',
+        title: 'Dependabot alerts disabled',
+        description: 'Dependabot vulnerability alerts are not enabled.',
+        recommendation: 'Enable Dependabot alerts to receive notifications about vulnerable dependencies.',
+        documentationUrl: 'https://docs.github.com/en/code-security/dependabot/dependabot-alerts/about-dependabot-alerts',
         soc2Control: 'CC7.1',
       });
+    } else {
+      throw error;
     }
+  }
 
-    // Check for CodeQL / code scanning workflow
-    let hasCodeScanning = false;
-    try {
-      const { data: workflows } = await octokit.actions.listRepoWorkflows({
-        owner,
-        repo,
-      });
-      hasCodeScanning = workflows.workflows.some(
-        (w) => w.name.toLowerCase().includes('codeql') || 
-               w.path.includes('codeql')
-      );
-    } catch {
-      // Actions might not be enabled
+  return { findings, passes };
+}
+
+/**
+ * Validates dependabot.yml against the package ecosystems detected from
+ * manifests in the repository tree. Findings carry a corrected configuration
+ * as their snippet.
+ */
+export async function checkDependabotConfig(
+  context: RepoContext
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const documentationUrl = 'https://docs.github.com/en/code-security/dependabot/dependabot-version-updates/configuration-options-for-the-dependabot.yml-file';
+
+  let config: DependabotConfig | undefined;
+  for (const path of DEPENDABOT_CONFIG_PATHS) {
+    const content = await context.getFileContent(path);
+    if (content !== undefined) {
+      config = parseDependabotConfig(path, content);
+      break;
     }
+  }
+  const detected = detectEcosystems((await context.getTree()).files);
+  const ecosystems = detected.map(entry => entry.ecosystem).join(', ') || 'none';
+
+  // Check for Dependabot config
+  if (!config) {
+    findings.push({
+      id: 'sf-no-dependabot-config',
+      category: 'security-features',
+      severity: 'medium',
+      title: 'Dependabot version updates not configured',
+      description: `No dependabot.yml configuration file found. Detected ecosystems: ${ecosystems}.`,
+      recommendation: 'Create .github/dependabot.yml to enable automatic dependency updates.',
+      documentationUrl: 'https://docs.github.com/en/code-security/dependabot/dependabot-version-updates/configuring-dependabot-version-updates',
+      soc2Control: 'CC7.1',
+      location: { path: DEPENDABOT_CONFIG_PATHS[0] },
+      snippet: detected.length > 0 ? suggestDependabotConfig(undefined, detected) : undefined,
+    });
+    return { findings, passes };
+  }
+  passes.push({ id: 'sf-no-dependabot-config', category: 'security-features', title: 'Dependabot version updates configured', observedValue: `${config.path} present`, soc2Control: 'CC7.1' });
+
+  const problems = [...config.errors, ...findUpdateProblems(config, detected)];
+  if (problems.length > 0) {
+    findings.push({
+      id: 'sf-dependabot-invalid-config',
+      category: 'security-features',
+      severity: 'medium',
+      title: 'Dependabot configuration has errors',
+      description: `${config.path}: ${problems.length} problem(s) stop Dependabot from updating some dependencies (${problems.map(problem => `line ${problem.line}: ${problem.message}`).join('; ')}).`,
+      recommendation: 'Fix the listed entries, or replace the file with the corrected configuration.',
+      documentationUrl,
+      soc2Control: 'CC7.1',
+      location: { path: config.path, line: problems[0].line },
+      snippet: suggestDependabotConfig(config, detected),
+    });
+  } else {
+    passes.push({ id: 'sf-dependabot-invalid-config', category: 'security-features', title: 'Dependabot configuration valid', observedValue: `update entries = ${config.updates.length}`, soc2Control: 'CC7.1' });
+  }
+
+  const uncovered = findUncoveredEcosystems(config, detected);
+  if (uncovered.length > 0) {
+    findings.push({
+      id: 'sf-dependabot-uncovered-ecosystems',
+      category: 'security-features',
+      severity: 'medium',
+      title: 'Package ecosystems not covered by Dependabot',
+      description: `${config.path} has no update entries for ${uncovered.map(entry => `${entry.ecosystem} (${entry.directories.join(', ')})`).join(', ')}, so these dependencies are never updated.`,
+      recommendation: 'Add an update entry for each ecosystem, or replace the file with the corrected configuration.',
+      documentationUrl,
+      soc2Control: 'CC7.1',
+      currentValue: uncovered.map(entry => entry.ecosystem).join(', '),
+      location: { path: config.path },
+      snippet: suggestDependabotConfig(config, detected),
+    });
+  } else {
+    passes.push({ id: 'sf-dependabot-uncovered-ecosystems', category: 'security-features', title: 'Detected ecosystems covered by Dependabot', observedValue: `ecosystems = ${ecosystems}`, soc2Control: 'CC7.1' });
+  }
+
+  return { findings, passes };
+}
+
+export async function checkSecretScanning(
+  context: RepoContext
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
 
-    if (!hasCodeScanning) {
+  // Check secret scanning (only available for certain repo types)
+  try {
+    await context.octokit.secretScanning.listAlertsForRepo({
+      owner: context.owner,
+      repo: context.repo,
+      state: 'open',
+      per_page: 1,
+    });
+    // If we get here, secret scanning is enabled
+    passes.push({ id: 'sf-no-secret-scanning', category: 'security-features', title: 'Secret scanning enabled', observedValue: 'secret_scanning = enabled', soc2Control: 'CC6.7' });
+  } catch (error: any) {
+    if (error.status === 404) {
       findings.push({
-        id: 'sf-no-code-scanning',
+        id: 'sf-no-secret-scanning',
         category: 'security-features',
         severity: 'high',
-        title: 'Code scanning not configured',
-        description: 'No CodeQL or code scanning workflow detected.',
-        recommendation: 'Enable GitHub code scanning with CodeQL to detect security vulnerabilities in code.',
-        documentationUrl: 'https://docs.github.com/en/code-security/code-scanning/introduction-to-code-scanning/about-code-scanning',
-        soc2Control: 'CC7.1',
+        title: 'Secret scanning not enabled',
+        description: 'Secret scanning is not enabled for this repository.',
+        recommendation: 'Enable secret scanning to detect accidentally committed secrets.',
+        documentationUrl: 'https://docs.github.com/en/code-security/secret-scanning/about-secret-scanning',
+        soc2Control: 'CC6.7',
       });
+    } else {
+      throw error;
     }
+  }
 
-    // Check secret scanning (only available for certain repo types)
-    try {
-      await octokit.secretScanning.listAlertsForRepo({
-        owner,
-        repo,
-        state: 'open',
-        per_page: 1,
-      });
-      // If we get here, secret scanning is enabled
-    } catch (error: any) {
-      if (error.status === 404) {
-        findings.push({
-          id: 'sf-no-secret-scanning',
-          category: 'security-features',
-          severity: 'high',
-          title: 'Secret scanning not enabled',
-          description: 'Secret scanning is not enabled for this repository.',
-          recommendation: 'Enable secret scanning to detect accidentally committed secrets.',
-          documentationUrl: 'https://docs.github.com/en/code-security/secret-scanning/about-secret-scanning',
-          soc2Control: 'CC6.7',
-        });
-      }
+  return { findings, passes };
+}
+
+type SecretScanningAlert = Awaited<ReturnType<RepoContext['octokit']['secretScanning']['listAlertsForRepo']>>['data'][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An exposed secret gets more dangerous the longer it stays valid and public
+const SECRET_ALERT_AGE_SEVERITY: Array<{ days: number; severity: Severity }> = [
+  { days: 7, severity: 'critical' },
+  { days: 0, severity: 'high' },
+];
+
+/**
+ * Reports open secret scanning alerts, one finding per secret type. Severity
+ * follows the age of the oldest alert, except that types whose secrets GitHub
+ * has verified as revoked are low: the credential no longer works, but the
+ * alert still needs closing. Whether a secret is still active is only known
+ * for providers that support validity checks.
+ */
+export async function checkSecretScanningAlerts(
+  context: RepoContext,
+  now: Date = new Date()
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+
+  let alerts: SecretScanningAlert[];
+  try {
+    alerts = await context.octokit.paginate(context.octokit.secretScanning.listAlertsForRepo, {
+      owner: context.owner,
+      repo: context.repo,
+      state: 'open',
+      per_page: 100,
+    });
+  } catch (error: any) {
+    // Disabled secret scanning is reported by the secret-scanning check
+    if (error.status === 404) {
+      throw new CheckSkippedError('Secret scanning is not enabled for this repository', error.status);
     }
+    throw error;
+  }
+
+  const byType = new Map<string, SecretScanningAlert[]>();
+  for (const alert of alerts) {
+    const type = alert.secret_type_display_name || alert.secret_type || 'Unknown secret type';
+    byType.set(type, [...(byType.get(type) ?? []), alert]);
+  }
+
+  for (const [type, group] of [...byType].sort(([a], [b]) => a.localeCompare(b))) {
+    const oldest = Math.min(...group.map(alert => alert.created_at ? Date.parse(alert.created_at) : now.getTime()));
+    const ageDays = Math.max(0, Math.floor((now.getTime() - oldest) / DAY_MS));
+    const revoked = group.every(alert => alert.validity === 'inactive');
+    const bypassed = group.filter(alert => alert.push_protection_bypassed);
+    const bypassers = [...new Set(bypassed.map(alert => alert.push_protection_bypassed_by?.login).filter(Boolean))];
+
+    const details = [
+      `oldest open for ${ageDays} day(s) since ${new Date(oldest).toISOString().slice(0, 10)}`,
+      `validity: ${countBy(group.map(alert => alert.validity ?? 'unknown'))}`,
+      bypassed.length > 0
+        ? `${bypassed.length} pushed by bypassing push protection${bypassers.length > 0 ? ` (${bypassers.map(login => `@${login}`).join(', ')})` : ''}`
+        : 'none pushed past push protection',
+    ];
+
+    findings.push({
+      id: 'sec-open-secret-alerts',
+      category: 'secrets',
+      severity: revoked ? 'low' : SECRET_ALERT_AGE_SEVERITY.find(step => ageDays >= step.days)!.severity,
+      title: `${group.length} open ${type} secret alert(s)`,
+      description: `Secret scanning found ${group.length} ${type} secret(s) in the repository that are still open: ${details.join('; ')}.`,
+      recommendation: revoked
+        ? 'The provider reports these secrets as revoked. Confirm no other copy is in use and close the alerts as revoked.'
+        : 'Revoke and rotate each secret with its provider, review its logs for use by others, then close the alert as revoked.',
+      documentationUrl: 'https://docs.github.com/en/code-security/secret-scanning/managing-alerts-from-secret-scanning/evaluating-alerts',
+      soc2Control: 'CC6.7',
+      subject: type,
+      currentValue: group.map(alert => `#${alert.number}`).join(', '),
+      expectedValue: 0,
+    });
+  }
+
+  if (findings.length === 0) {
+    passes.push({ id: 'sec-open-secret-alerts', category: 'secrets', title: 'No open secret scanning alerts', observedValue: 'open secret alerts = 0', soc2Control: 'CC6.7' });
+  }
+
+  return { findings, passes };
+}
 
-    // Check push protection (secret scanning push protection)
-    // This is typically enabled at org level but we note it as a recommendation
+/**
+ * Reads the push protection setting, which GitHub only returns to users who
+ * can administer the repository's security settings.
+ */
+export async function checkPushProtection(
+  context: RepoContext
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const repoData = await context.getRepository();
+  const status = repoData.security_and_analysis?.secret_scanning_push_protection?.status;
+  if (!status) {
+    throw new CheckSkippedError('security_and_analysis is only visible to repository administrators', 403);
+  }
+
+  if (status !== 'enabled') {
     findings.push({
       id: 'sf-push-protection-check',
       category: 'security-features',
-      severity: 'info',
-      title: 'Verify push protection is enabled',
-      description: 'Secret scanning push protection blocks commits containing secrets.',
+      severity: 'medium',
+      title: 'Push protection not enabled',
+      description: 'Pushes containing supported secrets are accepted, so secrets are only detected after they are in the repository history.',
       recommendation: 'Enable push protection in Settings → Code security to block secrets before they are committed.',
       documentationUrl: 'https://docs.github.com/en/code-security/secret-scanning/push-protection-for-repositories-and-organizations',
       soc2Control: 'CC6.7',
+      currentValue: status,
+      expectedValue: 'enabled',
     });
-
-  } catch (error) {
-    console.error('Error checking security features:', error);
-    throw error;
+  } else {
+    passes.push({ id: 'sf-push-protection-check', category: 'security-features', title: 'Push protection enabled', observedValue: 'secret_scanning_push_protection = enabled', soc2Control: 'CC6.7' });
   }
 
-  return findings;
+  return { findings, passes };
 }
 
-export async function checkDependencyAlerts(
-  octokit: Octokit,
-  owner: string,
-  repo: string
-): Promise<SecurityFinding[]> {
-  const findings: SecurityFinding[] = [];
+/** "2 active, 1 unknown" */
+function countBy(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts].map(([value, count]) => `${count} ${value}`).join(', ');
+}
 
-  try {
-    // Get Dependabot alerts
-    const { data: alerts } = await octokit.dependabot.listAlertsForRepo({
-      owner,
-      repo,
-      state: 'open',
-      per_page: 100,
-    });
+const ALERT_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+type AlertSeverity = typeof ALERT_SEVERITIES[number];
 
-    const criticalAlerts = alerts.filter(a => a.security_vulnerability?.severity === 'critical');
-    const highAlerts = alerts.filter(a => a.security_vulnerability?.severity === 'high');
+const DEPENDABOT_ALERTS_URL = 'https://docs.github.com/en/code-security/dependabot/dependabot-alerts/viewing-and-updating-dependabot-alerts';
 
-    if (criticalAlerts.length > 0) {
-      findings.push({
-        id: 'dep-critical-vulns',
-        category: 'dependencies',
-        severity: 'critical',
-        title: `${criticalAlerts.length} critical vulnerability alert(s)`,
-        description: `Repository has ${criticalAlerts.length} unresolved critical Dependabot alerts.`,
-        recommendation: 'Review and remediate critical Dependabot alerts immediately.',
-        documentationUrl: 'https://docs.github.com/en/code-security/dependabot/dependabot-alerts/viewing-and-updating-dependabot-alerts',
-        soc2Control: 'CC7.1',
-        currentValue: criticalAlerts.length,
-        expectedValue: 0,
-      });
-    }
+/** Open alerts for one package in one manifest */
+interface VulnerablePackage {
+  ecosystem: string;
+  name: string;
+  manifestPath?: string;
+  alerts: DependabotAlert[];
+}
 
-    if (highAlerts.length > 0) {
+/**
+ * Reports each package with open Dependabot alerts under the finding for its
+ * most severe alert, with the advisories, vulnerable ranges and patched
+ * versions, and whether it is a direct or transitive, runtime or development
+ * dependency where GitHub knows.
+ */
+export async function checkDependencyAlerts(
+  context: RepoContext
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const alerts = await openDependabotAlerts(context);
+  const packages = groupByPackage(alerts);
+
+  for (const severity of ALERT_SEVERITIES) {
+    const matching = packages.filter(pkg => highestSeverity(pkg.alerts) === severity);
+    for (const pkg of matching) {
+      const patched = [...new Set(pkg.alerts.map(alert => alert.security_vulnerability.first_patched_version?.identifier).filter(Boolean))];
       findings.push({
-        id: 'dep-high-vulns',
+        id: `dep-${severity}-vulns`,
         category: 'dependencies',
-        severity: 'high',
-        title: `${highAlerts.length} high severity vulnerability alert(s)`,
-        description: `Repository has ${highAlerts.length} unresolved high severity Dependabot alerts.`,
-        recommendation: 'Review and remediate high severity Dependabot alerts.',
-        documentationUrl: 'https://docs.github.com/en/code-security/dependabot/dependabot-alerts/viewing-and-updating-dependabot-alerts',
+        severity,
+        title: `${pkg.alerts.length} vulnerability alert(s) in ${pkg.ecosystem} package ${pkg.name}`,
+        description: `${pkg.name} is a ${dependencyKind(pkg.alerts[0])} dependency${pkg.manifestPath ? ` in ${pkg.manifestPath}` : ''} with ${pkg.alerts.length} open Dependabot alert(s): ${pkg.alerts.map(describeAlert).join('; ')}.`,
+        recommendation: patched.length > 0
+          ? `Upgrade ${pkg.name} to ${patched.join(' or ')} or later, or merge the Dependabot security update.`
+          : `No patched version of ${pkg.name} exists yet. Replace the package, remove the vulnerable code path or dismiss the alert with a documented reason.`,
+        documentationUrl: DEPENDABOT_ALERTS_URL,
         soc2Control: 'CC7.1',
-        currentValue: highAlerts.length,
-        expectedValue: 0,
+        subject: `${pkg.ecosystem}:${pkg.name}`,
+        location: pkg.manifestPath ? { path: pkg.manifestPath } : undefined,
+        currentValue: [...new Set(pkg.alerts.map(alert => alert.security_vulnerability.vulnerable_version_range))].join(', '),
+        expectedValue: patched.length > 0 ? patched.join(', ') : 'no patched version',
       });
     }
+    if (!alerts.some(alert => alert.security_vulnerability.severity === severity)) {
+      passes.push({ id: `dep-${severity}-vulns`, category: 'dependencies', title: `No open ${severity} vulnerability alerts`, observedValue: `open ${severity} alerts = 0`, soc2Control: 'CC7.1' });
+    }
+  }
 
+  return { findings, passes };
+}
+
+/**
+ * Compares the age of each open Dependabot alert with the remediation SLA for
+ * its severity and reports, per package, the alerts that have been open
+ * longer than allowed.
+ */
+export async function checkDependencyRemediation(
+  context: RepoContext,
+  thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS,
+  now: Date = new Date()
+): Promise<CheckResult> {
+  const findings: SecurityFinding[] = [];
+  const passes: PassedCheck[] = [];
+  const alerts = await openDependabotAlerts(context);
+  const slaDays: Record<AlertSeverity, number> = {
+    critical: thresholds.criticalRemediationDays,
+    high: thresholds.highRemediationDays,
+    medium: thresholds.mediumRemediationDays,
+    low: thresholds.lowRemediationDays,
+  };
+  const ageDays = (alert: DependabotAlert) => Math.floor((now.getTime() - Date.parse(alert.created_at)) / DAY_MS);
+  const overdue = (alert: DependabotAlert) => ageDays(alert) - slaDays[alert.security_vulnerability.severity];
+  const slas = ALERT_SEVERITIES.map(severity => `${severity} ${slaDays[severity]}d`).join(', ');
+
+  const breached = groupByPackage(alerts.filter(alert => overdue(alert) > 0));
+  for (const pkg of breached) {
+    const worst = pkg.alerts.reduce((a, b) => overdue(b) > overdue(a) ? b : a);
+    findings.push({
+      id: 'dep-remediation-sla-breached',
+      category: 'dependencies',
+      severity: highestSeverity(pkg.alerts),
+      title: `Remediation SLA breached for ${pkg.ecosystem} package ${pkg.name}`,
+      description: `${pkg.alerts.length} Dependabot alert(s) for ${pkg.name}${pkg.manifestPath ? ` in ${pkg.manifestPath}` : ''} have been open longer than their remediation SLA: ${pkg.alerts.map(alert => `${advisoryIds(alert)} (${alert.security_vulnerability.severity}) open ${ageDays(alert)} days since ${alert.created_at.slice(0, 10)}, SLA ${slaDays[alert.security_vulnerability.severity]} days`).join('; ')}.`,
+      recommendation: `Remediate the alerts, or dismiss them with a documented reason and record an accepted risk. SLAs: ${slas}.`,
+      documentationUrl: DEPENDABOT_ALERTS_URL,
+      soc2Control: 'CC7.1',
+      subject: `${pkg.ecosystem}:${pkg.name}`,
+      location: pkg.manifestPath ? { path: pkg.manifestPath } : undefined,
+      currentValue: `${ageDays(worst)} days`,
+      expectedValue: `≤${slaDays[worst.security_vulnerability.severity]} days`,
+    });
+  }
+
+  if (breached.length === 0) {
+    passes.push({ id: 'dep-remediation-sla-breached', category: 'dependencies', title: 'Dependabot alerts remediated within SLA', observedValue: `open alerts past SLA = 0 of ${alerts.length} (${slas})`, soc2Control: 'CC7.1' });
+  }
+
+  return { findings, passes };
+}
+
+async function openDependabotAlerts(context: RepoContext): Promise<DependabotAlert[]> {
+  try {
+    return await context.getDependabotAlerts();
   } catch (error: any) {
-    // Dependabot alerts might not be accessible (404) or disabled (403)
-    if (error.status !== 404 && error.status !== 403) {
-      console.error('Error checking dependency alerts:', error);
+    // Disabled alerts are reported by the vulnerability-alerts check
+    if (error.status === 403 && /disabled/i.test(error.message || '')) {
+      throw new CheckSkippedError('Dependabot alerts are disabled for this repository', error.status);
     }
+    throw error;
   }
+}
+
+function groupByPackage(alerts: DependabotAlert[]): VulnerablePackage[] {
+  const packages = new Map<string, VulnerablePackage>();
+  for (const alert of alerts) {
+    const { ecosystem, name } = alert.dependency.package ?? alert.security_vulnerability.package;
+    const manifestPath = alert.dependency.manifest_path;
+    const key = `${ecosystem}\0${name}\0${manifestPath ?? ''}`;
+    if (!packages.has(key)) packages.set(key, { ecosystem, name, manifestPath, alerts: [] });
+    packages.get(key)!.alerts.push(alert);
+  }
+  return [...packages.values()];
+}
+
+function highestSeverity(alerts: DependabotAlert[]): AlertSeverity {
+  return ALERT_SEVERITIES.find(severity => alerts.some(alert => alert.security_vulnerability.severity === severity)) ?? 'low';
+}
+
+/** "direct runtime", "transitive development"; parts GitHub does not know for the ecosystem are left out */
+function dependencyKind(alert: DependabotAlert): string {
+  const { relationship, scope } = alert.dependency;
+  const kind = [relationship && relationship !== 'unknown' ? relationship : undefined, scope ?? undefined].filter(Boolean).join(' ');
+  return kind || 'package';
+}
+
+function advisoryIds(alert: DependabotAlert): string {
+  const { ghsa_id, cve_id } = alert.security_advisory;
+  return cve_id ? `${ghsa_id}/${cve_id}` : ghsa_id;
+}
 
-  return findings;
+/** "#12 GHSA-xxxx/CVE-2024-1234 (high): vulnerable < 4.17.21, patched in 4.17.21" */
+function describeAlert(alert: DependabotAlert): string {
+  const { severity, vulnerable_version_range, first_patched_version } = alert.security_vulnerability;
+  return `#${alert.number} ${advisoryIds(alert)} (${severity}): vulnerable ${vulnerable_version_range}, ${first_patched_version ? `patched in ${first_patched_version.identifier}` : 'no patched version'}`;
 }
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { Octokit } from '@octokit/rest';
+import { DirectoryEntry, RepoContext, RepoMetadata } from '../context';
+import { FlatScoringModel } from '../scoring';
+import { checkWorkflowDependencies, checkWorkflowInputs, checkWorkflowPermissions, readWorkflowFiles, WORKFLOWS_DIRECTORY } from './workflows';
+
+/** Serves the given files from .github/workflows instead of the API */
+class WorkflowContext extends RepoContext {
+  constructor(private files: Record<string, string>) {
+    super(new Octokit(), 'acme', 'widget', { repository: { visibility: 'private', default_branch: 'main' } as RepoMetadata });
+  }
+
+  async listDirectory(path = ''): Promise<DirectoryEntry[]> {
+    if (path !== WORKFLOWS_DIRECTORY) return [];
+    return Object.keys(this.files).map(name => ({ name, path: `${WORKFLOWS_DIRECTORY}/${name}`, type: 'file' as const }));
+  }
+
+  async getFileContent(path: string): Promise<string | undefined> {
+    return this.files[path.slice(WORKFLOWS_DIRECTORY.length + 1)];
+  }
+}
+
+function workflow(...lines: string[]): string {
+  return lines.join('\n') + '\n';
+}
+
+describe('readWorkflowFiles', () => {
+  it('parses .yml and .yaml files and keeps files that are not valid YAML with their error', async () => {
+    const files = await readWorkflowFiles(new WorkflowContext({
+      'ci.yml': workflow('on: push', 'jobs:', '  test:', '    runs-on: ubuntu-latest'),
+      'release.yaml': workflow('on: push', 'on: release', 'jobs: {}'),
+      'README.md': '# Workflows',
+    }));
+
+    expect(files.map(file => file.path)).toEqual([`${WORKFLOWS_DIRECTORY}/ci.yml`, `${WORKFLOWS_DIRECTORY}/release.yaml`]);
+    expect(files[0].error).toBeUndefined();
+    expect(files[0].lineOf((files[0].root as any).get('jobs', true))).toBe(3);
+    expect(files[1].root).toBeNull();
+    expect(files[1].error).toEqual({ line: 2, message: expect.stringContaining('Map keys must be unique') });
+  });
+});
+
+describe('checkWorkflowInputs', () => {
+  it('reports workflow files that are not valid YAML', async () => {
+    const result = await checkWorkflowInputs(new WorkflowContext({
+      'ci.yml': workflow('on: push', 'permissions: {}', 'jobs: {}'),
+      'broken.yml': workflow('on: push', 'jobs:', '  test:', '    runs-on: ubuntu-latest', '\tsteps: []'),
+    }));
+
+    expect(result.findings.map(finding => [finding.id, finding.location?.path])).toEqual([['wf-invalid-yaml', `${WORKFLOWS_DIRECTORY}/broken.yml`]]);
+    expect(result.findings[0].location?.line).toBe(5);
+    expect(result.passes.map(pass => [pass.id, pass.observedValue])).toEqual([
+      ['wf-untrusted-checkout', 'workflow files checked = 1'],
+      ['wf-script-injection', 'workflow files checked = 1'],
+    ]);
+  });
+
+  it('flags untrusted event data in run scripts on the line it appears', async () => {
+    const result = await checkWorkflowInputs(new WorkflowContext({
+      'triage.yml': workflow(
+        'on: issues',
+        'jobs:',
+        '  label:',
+        '    runs-on: ubuntu-latest',
+        '    steps:',
+        '      - run: |',
+        '          echo "triaging"',
+        '          echo "${{ github.event.issue.title }}"',
+      ),
+    }));
+
+    expect(result.findings).toMatchObject([{ id: 'wf-script-injection', location: { path: `${WORKFLOWS_DIRECTORY}/triage.yml`, line: 8 } }]);
+    expect(result.passes.map(pass => pass.id)).toEqual(['wf-invalid-yaml', 'wf-untrusted-checkout']);
+  });
+});
+
+describe('checkWorkflowPermissions', () => {
+  it('flags write-all at workflow and job level', async () => {
+    const result = await checkWorkflowPermissions(new WorkflowContext({
+      'ci.yml': workflow(
+        'on: push',
+        'permissions: write-all',
+        'jobs:',
+        '  build:',
+        '    runs-on: ubuntu-latest',
+        '    permissions: write-all',
+      ),
+    }));
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ id: 'wf-write-all-permissions', severity: 'high', location: { line: 2 } });
+    expect(result.findings[0].description).toContain('line 2: workflow; line 6: job build');
+    expect(result.passes.map(pass => pass.id)).toEqual(['wf-no-permissions']);
+  });
+
+  it('reports each file as its own subject so the score deducts once per rule', async () => {
+    const writeAll = workflow('on: push', 'permissions: write-all', 'jobs: {}');
+    const result = await checkWorkflowPermissions(new WorkflowContext({ 'ci.yml': writeAll, 'release.yml': writeAll, 'nightly.yml': writeAll }));
+
+    expect(result.findings.map(finding => finding.subject)).toEqual([`${WORKFLOWS_DIRECTORY}/ci.yml`, `${WORKFLOWS_DIRECTORY}/release.yml`, `${WORKFLOWS_DIRECTORY}/nightly.yml`]);
+    expect(new FlatScoringModel().score(result.findings).score).toBe(85);
+  });
+
+  it('flags jobs left on the default token permissions, except reusable workflow calls', async () => {
+    const result = await checkWorkflowPermissions(new WorkflowContext({
+      'ci.yml': workflow(
+        'on: push',
+        'jobs:',
+        '  build:',
+        '    runs-on: ubuntu-latest',
+        '  deploy:',
+        '    runs-on: ubuntu-latest',
+        '    permissions:',
+        '      contents: read',
+        '  release:',
+        '    uses: ./.github/workflows/release.yml',
+      ),
+      'scoped.yml': workflow('on: push', 'permissions:', '  contents: read', 'jobs:', '  build:', '    runs-on: ubuntu-latest'),
+    }));
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ id: 'wf-no-permissions', location: { path: `${WORKFLOWS_DIRECTORY}/ci.yml`, line: 4 } });
+    expect(result.findings[0].description).toContain('job build');
+    expect(result.findings[0].description).not.toContain('job deploy');
+    expect(result.findings[0].description).not.toContain('job release');
+  });
+});
+
+describe('checkWorkflowDependencies', () => {
+  const sha = 'b4ffde65f46336ab88eb53be808477a3936bae11';
+
+  it('flags third-party actions not pinned to a full commit SHA', async () => {
+    const result = await checkWorkflowDependencies(new WorkflowContext({
+      'ci.yml': workflow(
+        'on: push',
+        'jobs:',
+        '  build:',
+        '    runs-on: ubuntu-latest',
+        '    steps:',
+        '      - uses: actions/checkout@v4',
+        '      - uses: github/codeql-action/init@v3',
+        '      - uses: acme/setup-tools@main',
+        '      - uses: ./.github/actions/local',
+        '      - uses: docker://alpine:3.19',
+        `      - uses: hashicorp/setup-terraform@${sha}`,
+        '      - uses: hashicorp/setup-terraform@v3',
+        '      - uses: pnpm/action-setup@b4ffde6',
+        '  shared:',
+        '    uses: other-org/workflows/.github/workflows/build.yml@v1',
+      ),
+    }));
+
+    const [finding] = result.findings;
+    expect(result.findings).toHaveLength(1);
+    expect(finding).toMatchObject({ id: 'wf-unpinned-action', location: { line: 12 } });
+    expect(finding.description).toContain('line 15: other-org/workflows/.github/workflows/build.yml@v1');
+    expect(finding.description).toContain('line 12: hashicorp/setup-terraform@v3');
+    expect(finding.description).toContain('line 13: pnpm/action-setup@b4ffde6');
+    expect(finding.description).not.toMatch(/actions\/checkout|codeql-action|acme\/setup-tools|local|alpine/);
+    expect(result.passes.map(pass => pass.id)).toEqual(['wf-secrets-inherit']);
+  });
+
+  it('flags secrets: inherit only for reusable workflows owned by someone else', async () => {
+    const result = await checkWorkflowDependencies(new WorkflowContext({
+      'ci.yml': workflow(
+        'on: push',
+        'jobs:',
+        '  internal:',
+        `    uses: acme/workflows/.github/workflows/build.yml@${sha}`,
+        '    secrets: inherit',
+        '  external:',
+        `    uses: other-org/workflows/.github/workflows/build.yml@${sha}`,
+        '    secrets: inherit',
+      ),
+    }));
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ id: 'wf-secrets-inherit', location: { line: 8 } });
+    expect(result.findings[0].description).toContain('job external');
+    expect(result.findings[0].description).not.toContain('job internal');
+  });
+});
@@ -0,0 +1,311 @@
+import { parseDocument, LineCounter, isMap, isSeq, isScalar, Node, Scalar } from 'yaml';
+import { SecurityFinding, PassedCheck, CheckResult, FindingLocation, Severity } from '../types';
+import { RepoContext } from '../context';
+
+export const WORKFLOWS_DIRECTORY = '.github/workflows';
+
+/** A parsed workflow file; `lineOf` maps a YAML node to its 1-based line */
+export interface WorkflowFile {
+  path: string;
+  root: Node | null;
+  lineOf: (node: Node | null | undefined) => number;
+  /** Set when the file is not valid YAML; `root` is then null and the rules find nothing in it */
+  error?: { line: number; message: string };
+}
+
+interface Occurrence {
+  line: number;
+  detail: string;
+}
+
+// Contexts an outside contributor can set, per GitHub's script injection guidance
+const UNTRUSTED_INPUT = /\$\{\{[^}]*?\b(github\.(?:head_ref|event\.(?:issue\.(?:title|body)|pull_request\.(?:title|body|head\.(?:ref|label|repo\.default_branch))|comment\.body|review\.body|review_comment\.body|discussion\.(?:title|body)|pages\.[\w*]+\.page_name|(?:commits\.[\w*]+|head_commit)\.(?:message|author\.(?:email|name))|workflow_run\.(?:head_branch|head_commit\.(?:message|author\.(?:email|name))))))\b/g;
+// Refs that resolve to the pull request's head rather than the base branch
+const UNTRUSTED_REF = /github\.(?:head_ref|event\.pull_request\.head\.|event\.workflow_run\.head_)|refs\/pull\//;
+const UNTRUSTED_CHECKOUT_COMMAND = /\bgh pr checkout\b|\bgit (?:fetch|pull) [^\n]*pull\/|\bgit checkout[^\n]*\$\{\{[^}]*(?:head_ref|pull_request\.head)/;
+const PRIVILEGED_TRIGGERS = ['pull_request_target', 'workflow_run'];
+const FULL_SHA = /^[0-9a-f]{40}$/i;
+const GITHUB_OWNED = ['actions', 'github'];
+
+/** .github/workflows/ci.yml:12 */
+export function formatLocation(location: FindingLocation): string {
+  return location.line ? `${location.path}:${location.line}` : location.path;
+}
+
+/** Parses every .yml/.yaml file in .github/workflows; files that are not valid YAML come back with `error` set */
+export async function readWorkflowFiles(context: RepoContext): Promise<WorkflowFile[]> {
+  const entries = (await context.listDirectory(WORKFLOWS_DIRECTORY))
+    .filter(entry => entry.type === 'file' && /\.ya?ml$/i.test(entry.name));
+  const files: WorkflowFile[] = [];
+  for (const entry of entries) {
+    const content = await context.getFileContent(entry.path);
+    if (content === undefined) continue;
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(content, { lineCounter });
+    if (doc.errors.length > 0) {
+      const [error] = doc.errors;
+      files.push({ path: entry.path, root: null, lineOf: () => 1, error: { line: error.linePos?.[0].line ?? 1, message: error.message.split('\n')[0] } });
+      continue;
+    }
+    files.push({
+      path: entry.path,
+      root: doc.contents,
+      lineOf: node => node?.range ? lineCounter.linePos(node.range[0]).line : 1,
+    });
+  }
+  return files;
+}
+
+/**
+ * Flags privileged workflows that check out pull request code, and `run:`
+ * scripts (or github-script scripts) that expand attacker-controlled event
+ * fields directly into the shell. Workflow files that are not valid YAML are
+ * reported here once, since no workflow rule can look inside them.
+ */
+export async function checkWorkflowInputs(context: RepoContext): Promise<CheckResult> {
+  const files = await readWorkflowFiles(context);
+  const findings: SecurityFinding[] = [];
+
+  for (const file of files) {
+    if (file.error) {
+      findings.push(workflowFinding(file.path, 'wf-invalid-yaml', 'medium', 'CC8.1', 'Workflow file is not valid YAML', [{ line: file.error.line, detail: file.error.message }],
+        'Could not be parsed, so none of the workflow checks could review it',
+        'Fix the YAML syntax; GitHub Actions cannot run the workflow either until it parses.',
+        'https://docs.github.com/en/actions/using-workflows/workflow-syntax-for-github-actions'));
+    }
+    const triggers = workflowTriggers(get(file.root, 'on'));
+    const privileged = triggers.filter(trigger => PRIVILEGED_TRIGGERS.includes(trigger));
+    const checkouts: Occurrence[] = [];
+    const injections: Occurrence[] = [];
+
+    for (const [jobId, job] of jobs(file.root)) {
+      for (const step of items(get(job, 'steps'))) {
+        const uses = text(get(step, 'uses'));
+        const run = get(step, 'run');
+        const refNode = get(get(step, 'with'), 'ref');
+        if (privileged.length > 0 && uses?.toLowerCase().startsWith('actions/checkout@') && UNTRUSTED_REF.test(text(refNode) || '')) {
+          checkouts.push({ line: file.lineOf(refNode), detail: `job ${jobId} checks out ${text(refNode)}` });
+        }
+        if (privileged.length > 0 && UNTRUSTED_CHECKOUT_COMMAND.test(text(run) || '')) {
+          checkouts.push({ line: file.lineOf(run), detail: `job ${jobId} fetches pull request code in a run step` });
+        }
+
+        const script = uses?.toLowerCase().startsWith('actions/github-script@') ? get(get(step, 'with'), 'script') : undefined;
+        for (const node of [run, script]) {
+          for (const match of scriptMatches(file, node)) {
+            injections.push({ line: match.line, detail: `job ${jobId}: ${match.detail}` });
+          }
+        }
+      }
+    }
+
+    if (checkouts.length > 0) {
+      findings.push(workflowFinding(file.path, 'wf-untrusted-checkout', 'critical', 'CC7.1', 'Privileged workflow checks out untrusted code', checkouts,
+        `Runs on ${privileged.join(', ')} with secrets and a write token, but checks out pull request code`,
+        'Do not check out or build pull request code in pull_request_target or workflow_run workflows; use pull_request, or only process the code in an unprivileged job.',
+        'https://securitylab.github.com/research/github-actions-preventing-pwn-requests/'));
+    }
+    if (injections.length > 0) {
+      findings.push(workflowFinding(file.path, 'wf-script-injection', 'high', 'CC7.1', 'Script injection from untrusted event data', injections,
+        'Expands attacker-controlled event fields directly into a script',
+        'Pass the value through an environment variable (env: TITLE: ${{ github.event.issue.title }}) and reference "$TITLE" in the script.',
+        'https://docs.github.com/en/actions/security-guides/security-hardening-for-github-actions#understanding-the-risk-of-script-injections'));
+    }
+  }
+
+  return withPasses(findings, files, [
+    { id: 'wf-invalid-yaml', title: 'Workflow files are valid YAML', soc2Control: 'CC8.1' },
+    { id: 'wf-untrusted-checkout', title: 'No privileged workflow checks out pull request code', soc2Control: 'CC7.1' },
+    { id: 'wf-script-injection', title: 'No untrusted event data expanded into scripts', soc2Control: 'CC7.1' },
+  ]);
+}
+
+/**
+ * Flags actions and reusable workflows outside GitHub and the repository
+ * owner that are not pinned to a full commit SHA, and reusable workflows
+ * from other owners that receive every secret through `secrets: inherit`.
+ */
+export async function checkWorkflowDependencies(context: RepoContext): Promise<CheckResult> {
+  const files = await readWorkflowFiles(context);
+  const findings: SecurityFinding[] = [];
+
+  for (const file of files) {
+    const unpinned: Occurrence[] = [];
+    const inherited: Occurrence[] = [];
+
+    for (const [jobId, job] of jobs(file.root)) {
+      const jobUses = get(job, 'uses');
+      const references = [jobUses, ...items(get(job, 'steps')).map(step => get(step, 'uses'))];
+      for (const node of references) {
+        const reference = parseUses(text(node));
+        if (!reference || GITHUB_OWNED.includes(reference.owner) || reference.owner === context.owner.toLowerCase()) continue;
+        if (!FULL_SHA.test(reference.ref)) unpinned.push({ line: file.lineOf(node), detail: text(node)! });
+      }
+
+      const reusable = parseUses(text(jobUses));
+      const secrets = get(job, 'secrets');
+      if (reusable && reusable.owner !== context.owner.toLowerCase() && text(secrets) === 'inherit') {
+        inherited.push({ line: file.lineOf(secrets), detail: `job ${jobId} passes all secrets to ${text(jobUses)}` });
+      }
+    }
+
+    if (unpinned.length > 0) {
+      findings.push(workflowFinding(file.path, 'wf-unpinned-action', 'medium', 'CC8.1', 'Third-party actions not pinned to a commit SHA', unpinned,
+        'Uses third-party actions by tag or branch, which their owners can move to different code',
+        'Pin each third-party action to a full-length commit SHA (uses: owner/action@<sha> # v1.2.3) and let Dependabot update the pins.',
+        'https://docs.github.com/en/actions/security-guides/security-hardening-for-github-actions#using-third-party-actions'));
+    }
+    if (inherited.length > 0) {
+      findings.push(workflowFinding(file.path, 'wf-secrets-inherit', 'high', 'CC6.1', 'All secrets passed to an external reusable workflow', inherited,
+        'Gives a workflow owned by someone else access to every repository and organization secret',
+        'Pass only the secrets the reusable workflow needs with an explicit secrets: map.',
+        'https://docs.github.com/en/actions/using-workflows/reusing-workflows#passing-inputs-and-secrets-to-a-reusable-workflow'));
+    }
+  }
+
+  return withPasses(findings, files, [
+    { id: 'wf-unpinned-action', title: 'Third-party actions pinned to commit SHAs', soc2Control: 'CC8.1' },
+    { id: 'wf-secrets-inherit', title: 'No secrets inherited by external reusable workflows', soc2Control: 'CC6.1' },
+  ]);
+}
+
+/** Flags `permissions: write-all`, and workflows that leave some job on the repository's default token permissions */
+export async function checkWorkflowPermissions(context: RepoContext): Promise<CheckResult> {
+  const files = await readWorkflowFiles(context);
+  const findings: SecurityFinding[] = [];
+
+  for (const file of files) {
+    const writeAll: Occurrence[] = [];
+    const topLevel = get(file.root, 'permissions');
+    if (text(topLevel) === 'write-all') writeAll.push({ line: file.lineOf(topLevel), detail: 'workflow' });
+
+    const unscoped: Occurrence[] = [];
+    for (const [jobId, job] of jobs(file.root)) {
+      const permissions = get(job, 'permissions');
+      if (text(permissions) === 'write-all') writeAll.push({ line: file.lineOf(permissions), detail: `job ${jobId}` });
+      // Jobs calling a reusable workflow get their permissions from the caller
+      if (!topLevel && !permissions && !get(job, 'uses')) unscoped.push({ line: file.lineOf(job), detail: `job ${jobId}` });
+    }
+
+    if (writeAll.length > 0) {
+      findings.push(workflowFinding(file.path, 'wf-write-all-permissions', 'high', 'CC6.1', 'Workflow grants write-all permissions', writeAll,
+        'Grants the GITHUB_TOKEN write access to every scope',
+        'Replace write-all with the individual scopes the job needs, e.g. permissions: { contents: read, pull-requests: write }.',
+        'https://docs.github.com/en/actions/using-jobs/assigning-permissions-to-jobs'));
+    }
+    if (unscoped.length > 0) {
+      findings.push(workflowFinding(file.path, 'wf-no-permissions', 'medium', 'CC6.1', 'Workflow token permissions not declared', unscoped,
+        'Has no top-level permissions block, so these jobs get the repository\'s default GITHUB_TOKEN permissions',
+        'Add a top-level permissions: block (e.g. permissions: contents: read) and widen it per job where needed.',
+        'https://docs.github.com/en/actions/security-guides/automatic-token-authentication#modifying-the-permissions-for-the-github_token'));
+    }
+  }
+
+  return withPasses(findings, files, [
+    { id: 'wf-write-all-permissions', title: 'No workflow grants write-all', soc2Control: 'CC6.1' },
+    { id: 'wf-no-permissions', title: 'Workflow token permissions declared', soc2Control: 'CC6.1' },
+  ]);
+}
+
+/** Self-hosted runners on public repositories run code from any fork's pull request on your infrastructure */
+export async function checkWorkflowRunners(context: RepoContext): Promise<CheckResult> {
+  const repoData = await context.getRepository();
+  if (repoData.visibility !== 'public') {
+    return { findings: [], passes: [{ id: 'wf-self-hosted-public', category: 'workflows', title: 'Self-hosted runners not exposed to public forks', observedValue: `visibility = ${repoData.visibility}`, soc2Control: 'CC6.1' }] };
+  }
+
+  const files = await readWorkflowFiles(context);
+  const findings: SecurityFinding[] = [];
+  for (const file of files) {
+    const selfHosted: Occurrence[] = [];
+    for (const [jobId, job] of jobs(file.root)) {
+      const runsOn = get(job, 'runs-on');
+      const labels = isMap(runsOn) ? items(get(runsOn, 'labels')).map(text) : isSeq(runsOn) ? items(runsOn).map(text) : [text(runsOn)];
+      if (labels.some(label => label?.toLowerCase() === 'self-hosted')) {
+        selfHosted.push({ line: file.lineOf(runsOn), detail: `job ${jobId}` });
+      }
+    }
+    if (selfHosted.length > 0) {
+      findings.push(workflowFinding(file.path, 'wf-self-hosted-public', 'high', 'CC6.1', 'Self-hosted runner used by a public repository', selfHosted,
+        'Runs jobs on self-hosted runners, which pull requests from forks of this public repository can reach',
+        'Use GitHub-hosted runners for public repositories, or restrict the runner group to private repositories.',
+        'https://docs.github.com/en/actions/hosting-your-own-runners/managing-self-hosted-runners/about-self-hosted-runners#self-hosted-runner-security'));
+    }
+  }
+
+  return withPasses(findings, files, [
+    { id: 'wf-self-hosted-public', title: 'No self-hosted runners on this public repository', soc2Control: 'CC6.1' },
+  ]);
+}
+
+/** One finding per file and rule, located at the first occurrence and listing the rest */
+function workflowFinding(path: string, id: string, severity: Severity, soc2Control: string, title: string, occurrences: Occurrence[], summary: string, recommendation: string, documentationUrl: string): SecurityFinding {
+  const details = occurrences.map(occurrence => `line ${occurrence.line}: ${occurrence.detail}`);
+  return {
+    id,
+    category: 'workflows',
+    severity,
+    title,
+    description: `${path}: ${summary} (${details.join('; ')}).`,
+    recommendation,
+    documentationUrl,
+    soc2Control,
+    // One finding per file: the file is the subject, so scoring deducts once per finding ID
+    subject: path,
+    location: { path, line: Math.min(...occurrences.map(occurrence => occurrence.line)) },
+  };
+}
+
+function withPasses(findings: SecurityFinding[], files: WorkflowFile[], rules: Array<{ id: string; title: string; soc2Control: string }>): CheckResult {
+  const passes: PassedCheck[] = rules
+    .filter(rule => !findings.some(finding => finding.id === rule.id))
+    .map(rule => ({ id: rule.id, category: 'workflows', title: rule.title, observedValue: `workflow files checked = ${files.filter(file => !file.error).length}`, soc2Control: rule.soc2Control }));
+  return { findings, passes };
+}
+
+/** Untrusted expressions in a script, located on the line of the script they appear in */
+function scriptMatches(file: WorkflowFile, node: Node | undefined): Occurrence[] {
+  const script = text(node);
+  if (!node || !script) return [];
+  // Block scalars (run: |) start on the line after the indicator
+  const firstLine = file.lineOf(node) + (isScalar(node) && (node.type === Scalar.BLOCK_LITERAL || node.type === Scalar.BLOCK_FOLDED) ? 1 : 0);
+  const occurrences: Occurrence[] = [];
+  script.split('\n').forEach((line, index) => {
+    for (const match of line.matchAll(UNTRUSTED_INPUT)) {
+      occurrences.push({ line: firstLine + index, detail: `\${{ ${match[1]} }}` });
+    }
+  });
+  return occurrences;
+}
+
+/** Event names from the string, list or map forms of `on:` */
+function workflowTriggers(on: Node | undefined): string[] {
+  if (isMap(on)) return on.items.map(pair => String(isScalar(pair.key) ? pair.key.value : pair.key));
+  if (isSeq(on)) return items(on).map(text).filter((name): name is string => !!name);
+  const name = text(on);
+  return name ? [name] : [];
+}
+
+function jobs(root: Node | null): Array<[string, Node]> {
+  const jobsNode = get(root, 'jobs');
+  if (!isMap(jobsNode)) return [];
+  return jobsNode.items.flatMap(pair => pair.value && isScalar(pair.key) ? [[String(pair.key.value), pair.value as Node] as [string, Node]] : []);
+}
+
+/** owner/repo[/path]@ref; local (./) and docker:// references are not parsed */
+function parseUses(uses: string | undefined): { owner: string; ref: string } | undefined {
+  const match = uses?.match(/^([^./][^/@]*)\/[^@]+@(.+)$/);
+  return match ? { owner: match[1].toLowerCase(), ref: match[2] } : undefined;
+}
+
+function get(node: Node | null | undefined, key: string): Node | undefined {
+  return isMap(node) ? (node.get(key, true) as Node | undefined) : undefined;
+}
+
+function items(node: Node | undefined): Node[] {
+  return isSeq(node) ? (node.items as Node[]) : [];
+}
+
+function text(node: Node | undefined): string | undefined {
+  return isScalar(node) && node.value !== null && node.value !== undefined ? String(node.value) : undefined;
+}
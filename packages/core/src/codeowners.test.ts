@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { matchesCodeownersPattern, parseCodeowners, ruleFor } from './codeowners';
+
+describe('matchesCodeownersPattern', () => {
+  const cases: Array<[pattern: string, path: string, matches: boolean]> = [
+    // Unanchored: a pattern without a slash matches at any depth
+    ['*', 'README.md', true],
+    ['*', 'src/deep/index.ts', true],
+    ['*.js', 'app.js', true],
+    ['*.js', 'src/lib/app.js', true],
+    ['*.js', 'app.jsx', false],
+    ['Makefile', 'tools/Makefile', true],
+    // Anchored: a leading or inner slash ties the pattern to the root
+    ['/build.sh', 'build.sh', true],
+    ['/build.sh', 'scripts/build.sh', false],
+    ['docs/*.md', 'docs/index.md', true],
+    ['docs/*.md', 'src/docs/index.md', false],
+    // docs/* matches files directly in docs but not in its subdirectories
+    ['docs/*', 'docs/index.md', true],
+    ['docs/*', 'docs/api/index.md', false],
+    // Directory: a trailing slash matches everything below the directory, at any depth
+    ['apps/', 'apps/web/index.ts', true],
+    ['apps/', 'src/apps/web/index.ts', true],
+    ['apps/', 'apps', false],
+    ['/apps/', 'src/apps/index.ts', false],
+    // Trailing segment without a wildcard also matches files below it
+    ['src/api', 'src/api', true],
+    ['src/api', 'src/api/routes/users.ts', true],
+    ['src/api', 'src/api-client/index.ts', false],
+    ['.github', '.github/workflows/ci.yml', true],
+    // **
+    ['**/logs', 'logs/today.log', true],
+    ['**/logs', 'deploy/app/logs/today.log', true],
+    ['apps/**/test', 'apps/test/unit.ts', true],
+    ['apps/**/test', 'apps/web/e2e/test/login.ts', true],
+    ['apps/**', 'apps/web/index.ts', true],
+    ['apps/**', 'libs/apps/index.ts', false],
+    // ? matches one character other than a slash
+    ['file?.txt', 'file1.txt', true],
+    ['file?.txt', 'file12.txt', false],
+    ['a?b', 'a/b', false],
+    // Regex metacharacters are literal
+    ['*.(js)', 'app.(js)', true],
+    ['*.(js)', 'app.js', false],
+    ['v1.0/', 'v1x0/notes.md', false],
+  ];
+
+  it.each(cases)('%s matches %s: %s', (pattern, path, matches) => {
+    expect(matchesCodeownersPattern(pattern, path)).toBe(matches);
+  });
+});
+
+describe('parseCodeowners', () => {
+  it('keeps rules with valid owners and skips comments and blank lines', () => {
+    const { rules, errors } = parseCodeowners('.github/CODEOWNERS', [
+      '# Default owners',
+      '*                  @acme/engineering',
+      '',
+      '/docs/            docs@acme.example   # trailing comment',
+      'apps/web/         @octocat @acme/web',
+      '/generated/',
+    ].join('\r\n'));
+
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { pattern: '*', owners: ['@acme/engineering'], line: 2 },
+      { pattern: '/docs/', owners: ['docs@acme.example'], line: 4 },
+      { pattern: 'apps/web/', owners: ['@octocat', '@acme/web'], line: 5 },
+      { pattern: '/generated/', owners: [], line: 6 },
+    ]);
+  });
+
+  const invalid: Array<[line: string, message: string]> = [
+    ['\\#notes.md @octocat', 'Escaping a pattern starting with # is not supported'],
+    ['!vendor/ @octocat', 'Negated patterns (!) are not supported'],
+    ['*.[ch] @octocat', 'Character ranges ([ ]) are not supported'],
+    ['src/ octocat', 'Invalid owner "octocat"'],
+    ['src/ @-octocat @acme/', 'Invalid owner "@-octocat", "@acme/"'],
+    ['src/ @octocat docs@acme', 'Invalid owner "docs@acme"'],
+  ];
+
+  it.each(invalid)('skips %s: %s', (line, message) => {
+    const { rules, errors } = parseCodeowners('CODEOWNERS', `* @acme/engineering\n${line}\n`);
+    expect(rules.map(rule => rule.line)).toEqual([1]);
+    expect(errors).toEqual([{ line: 2, message }]);
+  });
+});
+
+describe('ruleFor', () => {
+  const { rules } = parseCodeowners('CODEOWNERS', [
+    '*           @acme/engineering',
+    '*.md        @acme/docs',
+    '/apps/web/  @acme/web',
+    'apps/web/README.md',
+  ].join('\n'));
+
+  it.each([
+    ['src/index.ts', 1],
+    ['CONTRIBUTING.md', 2],
+    ['apps/web/index.ts', 3],
+    // The last matching rule wins, even over a more specific earlier one
+    ['apps/web/docs/guide.md', 3],
+    ['apps/web/README.md', 4],
+  ])('assigns %s to the rule on line %i', (path, line) => {
+    expect(ruleFor(rules, path)?.line).toBe(line);
+  });
+
+  it('assigns no rule when nothing matches', () => {
+    expect(ruleFor(parseCodeowners('CODEOWNERS', '/docs/ @acme/docs').rules, 'src/index.ts')).toBeUndefined();
+  });
+});
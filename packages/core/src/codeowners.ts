@@ -0,0 +1,124 @@
+import { RepoContext } from './context';
+
+/** Where GitHub looks for CODEOWNERS; the first file found is the only one used */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeownersRule {
+  pattern: string;
+  /** Empty for a pattern that removes ownership from the files it matches */
+  owners: string[];
+  line: number;
+}
+
+/** A line GitHub skips because of invalid syntax */
+export interface CodeownersError {
+  line: number;
+  message: string;
+}
+
+export interface CodeownersFile {
+  path: string;
+  rules: CodeownersRule[];
+  errors: CodeownersError[];
+}
+
+const USER_OWNER = /^@[a-z\d](?:[a-z\d-]*[a-z\d])?$/i;
+const TEAM_OWNER = /^@[a-z\d](?:[a-z\d-]*[a-z\d])?\/[a-z\d._-]+$/i;
+const EMAIL_OWNER = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/** Reads and parses the CODEOWNERS file GitHub uses, or undefined when there is none */
+export async function readCodeowners(context: RepoContext): Promise<CodeownersFile | undefined> {
+  for (const path of CODEOWNERS_PATHS) {
+    const content = await context.getFileContent(path);
+    if (content !== undefined) return parseCodeowners(path, content);
+  }
+  return undefined;
+}
+
+/**
+ * Parses CODEOWNERS the way GitHub does: comments and blank lines are ignored,
+ * and a line with unsupported pattern syntax or a malformed owner is skipped
+ * entirely and reported as an error.
+ */
+export function parseCodeowners(path: string, content: string): CodeownersFile {
+  const rules: CodeownersRule[] = [];
+  const errors: CodeownersError[] = [];
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    const trimmed = text.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) return;
+
+    const [pattern, ...owners] = trimmed.replace(/\s+#.*$/, '').split(/\s+/);
+    let message: string | undefined;
+    if (pattern.startsWith('\\#')) message = 'Escaping a pattern starting with # is not supported';
+    else if (pattern.startsWith('!')) message = 'Negated patterns (!) are not supported';
+    else if (/[[\]]/.test(pattern)) message = 'Character ranges ([ ]) are not supported';
+    else {
+      const invalid = owners.filter(owner => !USER_OWNER.test(owner) && !TEAM_OWNER.test(owner) && !EMAIL_OWNER.test(owner));
+      if (invalid.length > 0) message = `Invalid owner ${invalid.map(owner => `"${owner}"`).join(', ')}`;
+    }
+
+    if (message) errors.push({ line, message });
+    else rules.push({ pattern, owners, line });
+  });
+
+  return { path, rules, errors };
+}
+
+/** The rule that decides who owns a file: the last one whose pattern matches it */
+export function ruleFor(rules: CodeownersRule[], filePath: string): CodeownersRule | undefined {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (matchesCodeownersPattern(rules[i].pattern, filePath)) return rules[i];
+  }
+  return undefined;
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Whether a CODEOWNERS pattern matches a file path. Patterns follow .gitignore
+ * rules: one containing a slash other than a trailing one is anchored to the
+ * repository root, a trailing slash matches everything in the directory, and
+ * a pattern whose last segment has no wildcard also matches files below it.
+ * `docs/*` matches files directly in docs but not in its subdirectories.
+ */
+export function matchesCodeownersPattern(pattern: string, filePath: string): boolean {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = compilePattern(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex.test(filePath);
+}
+
+function compilePattern(pattern: string): RegExp {
+  const directory = pattern.endsWith('/');
+  const trimmed = directory ? pattern.slice(0, -1) : pattern;
+  const anchored = trimmed.includes('/');
+  const body = trimmed.replace(/^\//, '');
+  const lastSegment = body.slice(body.lastIndexOf('/') + 1);
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      if (body[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+
+  const suffix = directory ? '/.*' : /[*?]/.test(lastSegment) ? '' : '(?:/.*)?';
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${suffix}$`);
+}
@@ -0,0 +1,230 @@
+import { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
+import { GITHUB_DOTCOM, ServerInfo } from './server';
+
+export type RepoMetadata = RestEndpointMethodTypes['repos']['get']['response']['data'];
+export type Collaborator = RestEndpointMethodTypes['repos']['listCollaborators']['response']['data'][number];
+export type Workflow = RestEndpointMethodTypes['actions']['listRepoWorkflows']['response']['data']['workflows'][number];
+export type BranchProtectionResponse = RestEndpointMethodTypes['repos']['getBranchProtection']['response']['data'];
+export type BranchRule = RestEndpointMethodTypes['repos']['getBranchRules']['response']['data'][number];
+export type Ruleset = RestEndpointMethodTypes['repos']['getRepoRuleset']['response']['data'];
+export type Branch = RestEndpointMethodTypes['repos']['listBranches']['response']['data'][number];
+export type Tag = RestEndpointMethodTypes['repos']['listTags']['response']['data'][number];
+export type RepoTeam = RestEndpointMethodTypes['repos']['listTeams']['response']['data'][number];
+export type TeamMember = RestEndpointMethodTypes['teams']['listMembersInOrg']['response']['data'][number];
+export type DependabotAlert = RestEndpointMethodTypes['dependabot']['listAlertsForRepo']['response']['data'][number];
+
+export type RepoLicense = NonNullable<RepoMetadata['license']>;
+
+/** Paths of every file on the default branch */
+export interface RepoTree {
+  files: string[];
+  /** GitHub stopped listing the tree early, so `files` is incomplete */
+  truncated: boolean;
+}
+
+export interface DirectoryEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+}
+
+/**
+ * Per-repository data shared by every check in a scan. Each piece of data is
+ * fetched on first use and memoized, including failures, so checks that need
+ * the same API response never request it twice.
+ */
+export class RepoContext {
+  readonly octokit: Octokit;
+  readonly owner: string;
+  readonly repo: string;
+  /** The server being scanned, so checks can tell a disabled feature from a missing API */
+  readonly server: ServerInfo;
+  private cache = new Map<string, Promise<unknown>>();
+
+  constructor(octokit: Octokit, owner: string, repo: string, options: { repository?: RepoMetadata; server?: ServerInfo } = {}) {
+    this.octokit = octokit;
+    this.owner = owner;
+    this.repo = repo;
+    this.server = options.server || GITHUB_DOTCOM;
+    if (options.repository) this.cache.set('repository', Promise.resolve(options.repository));
+  }
+
+  getRepository(): Promise<RepoMetadata> {
+    return this.memoize('repository', async () => {
+      const { data } = await this.octokit.repos.get({ owner: this.owner, repo: this.repo });
+      return data;
+    });
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return (await this.getRepository()).default_branch;
+  }
+
+  /** The license GitHub detected in the repository, or null when there is none */
+  async getLicense(): Promise<Pick<RepoLicense, 'name' | 'spdx_id'> | null> {
+    return (await this.getRepository()).license;
+  }
+
+  /** Lists a directory on the default branch; a missing directory is an empty listing */
+  listDirectory(path = ''): Promise<DirectoryEntry[]> {
+    const dir = path.replace(/^\/+|\/+$/g, '');
+    return this.memoize(`dir:${dir}`, async () => {
+      try {
+        const { data } = await this.octokit.repos.getContent({ owner: this.owner, repo: this.repo, path: dir });
+        if (!Array.isArray(data)) return [];
+        return data.map(entry => ({ name: entry.name, path: entry.path, type: entry.type as DirectoryEntry['type'] }));
+      } catch (error: any) {
+        if (error.status === 404) return [];
+        throw error;
+      }
+    });
+  }
+
+  async fileExists(path: string): Promise<boolean> {
+    const index = path.lastIndexOf('/');
+    const entries = await this.listDirectory(index === -1 ? '' : path.slice(0, index));
+    const name = path.slice(index + 1);
+    return entries.some(entry => entry.name === name && entry.type !== 'dir');
+  }
+
+  /** Returns the decoded file content, or undefined when the file does not exist */
+  getFileContent(path: string): Promise<string | undefined> {
+    return this.memoize(`file:${path}`, async () => {
+      try {
+        const { data } = await this.octokit.repos.getContent({ owner: this.owner, repo: this.repo, path });
+        if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) return undefined;
+        return Buffer.from(data.content, 'base64').toString('utf8');
+      } catch (error: any) {
+        if (error.status === 404) return undefined;
+        throw error;
+      }
+    });
+  }
+
+  getTree(): Promise<RepoTree> {
+    return this.memoize('tree', async () => {
+      try {
+        const { data } = await this.octokit.git.getTree({ owner: this.owner, repo: this.repo, tree_sha: await this.getDefaultBranch(), recursive: 'true' });
+        return { files: data.tree.filter(entry => entry.type === 'blob' && entry.path).map(entry => entry.path!), truncated: data.truncated };
+      } catch (error: any) {
+        // An empty repository has no tree to list
+        if (error.status === 409) return { files: [], truncated: false };
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Users with access to the repository. `all` includes access through teams and
+   * organization base permissions; `direct` only individual grants; `outside`
+   * only users who are not members of the owning organization.
+   */
+  getCollaborators(affiliation: 'all' | 'direct' | 'outside' = 'all'): Promise<Collaborator[]> {
+    return this.memoize(affiliation === 'all' ? 'collaborators' : `collaborators:${affiliation}`, () =>
+      this.octokit.paginate(this.octokit.repos.listCollaborators, { owner: this.owner, repo: this.repo, affiliation, per_page: 100 })
+    );
+  }
+
+  /** Teams granted access to the repository; empty for repositories owned by a user */
+  getTeams(): Promise<RepoTeam[]> {
+    return this.memoize('teams', async () => {
+      if ((await this.getRepository()).owner.type !== 'Organization') return [];
+      return this.octokit.paginate(this.octokit.repos.listTeams, { owner: this.owner, repo: this.repo, per_page: 100 });
+    });
+  }
+
+  /** Members of an organization team, including members of its child teams */
+  getTeamMembers(teamSlug: string): Promise<TeamMember[]> {
+    return this.memoize(`team-members:${teamSlug}`, () =>
+      this.octokit.paginate(this.octokit.teams.listMembersInOrg, { org: this.owner, team_slug: teamSlug, per_page: 100 })
+    );
+  }
+
+  /** Bytes of code per language, as detected by GitHub Linguist */
+  getLanguages(): Promise<Record<string, number>> {
+    return this.memoize('languages', async () => {
+      const { data } = await this.octokit.repos.listLanguages({ owner: this.owner, repo: this.repo });
+      return data;
+    });
+  }
+
+  /** Open Dependabot alerts */
+  getDependabotAlerts(): Promise<DependabotAlert[]> {
+    return this.memoize('dependabot-alerts', () =>
+      this.octokit.paginate(this.octokit.dependabot.listAlertsForRepo, { owner: this.owner, repo: this.repo, state: 'open', per_page: 100 })
+    );
+  }
+
+  getWorkflows(): Promise<Workflow[]> {
+    return this.memoize('workflows', async () => {
+      const { data } = await this.octokit.actions.listRepoWorkflows({ owner: this.owner, repo: this.repo, per_page: 100 });
+      return data.workflows;
+    });
+  }
+
+  getBranchProtection(branch: string): Promise<BranchProtectionResponse> {
+    return this.memoize(`protection:${branch}`, async () => {
+      const { data } = await this.octokit.repos.getBranchProtection({ owner: this.owner, repo: this.repo, branch });
+      return data;
+    });
+  }
+
+  getBranches(): Promise<Branch[]> {
+    return this.memoize('branches', () =>
+      this.octokit.paginate(this.octokit.repos.listBranches, { owner: this.owner, repo: this.repo, per_page: 100 })
+    );
+  }
+
+  getTags(): Promise<Tag[]> {
+    return this.memoize('tags', () =>
+      this.octokit.paginate(this.octokit.repos.listTags, { owner: this.owner, repo: this.repo, per_page: 100 })
+    );
+  }
+
+  /**
+   * Patterns of the deprecated tag protection rules, which rulesets replace.
+   * Empty where the API has been removed.
+   */
+  getTagProtectionPatterns(): Promise<string[]> {
+    return this.memoize('tag-protection', async () => {
+      try {
+        const { data } = await this.octokit.request('GET /repos/{owner}/{repo}/tags/protection', { owner: this.owner, repo: this.repo });
+        return (data as Array<{ pattern: string }>).map(rule => rule.pattern);
+      } catch (error: any) {
+        if (error.status === 404 || error.status === 410) return [];
+        throw error;
+      }
+    });
+  }
+
+  /** Active ruleset rules that apply to a branch, as resolved by GitHub */
+  getBranchRules(branch: string): Promise<BranchRule[]> {
+    return this.memoize(`rules:${branch}`, () =>
+      this.octokit.paginate(this.octokit.repos.getBranchRules, { owner: this.owner, repo: this.repo, branch, per_page: 100 })
+    );
+  }
+
+  /** Rulesets defined on the repository and those inherited from its organization or enterprise */
+  getRulesets(): Promise<Ruleset[]> {
+    return this.memoize('rulesets', () =>
+      this.octokit.paginate(this.octokit.repos.getRepoRulesets, { owner: this.owner, repo: this.repo, includes_parents: true, per_page: 100 })
+    );
+  }
+
+  /** A single ruleset with its rules, conditions and (for admins) bypass actors, which the listing omits */
+  getRuleset(rulesetId: number): Promise<Ruleset> {
+    return this.memoize(`ruleset:${rulesetId}`, async () => {
+      const { data } = await this.octokit.repos.getRepoRuleset({ owner: this.owner, repo: this.repo, ruleset_id: rulesetId, includes_parents: true });
+      return data;
+    });
+  }
+
+  protected memoize<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+    let cached = this.cache.get(key) as Promise<T> | undefined;
+    if (!cached) {
+      cached = fetch();
+      this.cache.set(key, cached);
+    }
+    return cached;
+  }
+}
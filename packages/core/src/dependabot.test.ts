@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from 'yaml';
+import { detectEcosystems, findUncoveredEcosystems, findUpdateProblems, parseDependabotConfig, suggestDependabotConfig } from './dependabot';
+
+const PATH = '.github/dependabot.yml';
+
+const files = [
+  'package.json',
+  'services/api/go.mod',
+  'services/api/Dockerfile',
+  'node_modules/left-pad/package.json',
+  '.github/workflows/ci.yml',
+  'vendor/github.com/pkg/errors/go.mod',
+];
+
+describe('detectEcosystems', () => {
+  it('finds manifests and workflows outside vendored directories', () => {
+    expect(detectEcosystems(files)).toEqual([
+      { ecosystem: 'npm', directories: ['/'] },
+      { ecosystem: 'gomod', directories: ['/services/api'] },
+      { ecosystem: 'docker', directories: ['/services/api'] },
+      { ecosystem: 'github-actions', directories: ['/'] },
+    ]);
+  });
+});
+
+describe('parseDependabotConfig', () => {
+  it('reports malformed YAML with its line', () => {
+    const config = parseDependabotConfig(PATH, 'version: 2\nupdates:\n  - package-ecosystem: "npm\n');
+    expect(config.updates).toEqual([]);
+    expect(config.errors).toHaveLength(1);
+    expect(config.errors[0].message).toMatch(/^Not valid YAML/);
+  });
+
+  it('reports a missing updates list and a wrong version', () => {
+    const config = parseDependabotConfig(PATH, 'version: 1\n');
+    expect(config.errors.map(error => error.message)).toEqual(['version must be 2', 'updates must be a list of update entries']);
+  });
+
+  it('reads entries with their lines', () => {
+    const config = parseDependabotConfig(PATH, [
+      'version: 2',
+      'updates:',
+      '  - package-ecosystem: npm',
+      '    directory: "/"',
+      '    schedule:',
+      '      interval: weekly',
+      '  - package-ecosystem: gomod',
+      '    directories: ["services/api/", "/tools"]',
+      '    open-pull-requests-limit: 0',
+    ].join('\n'));
+    expect(config.errors).toEqual([]);
+    expect(config.updates).toEqual([
+      { ecosystem: 'npm', directories: ['/'], interval: 'weekly', openPullRequestsLimit: undefined, line: 3, directoryLine: 4 },
+      { ecosystem: 'gomod', directories: ['/services/api', '/tools'], interval: undefined, openPullRequestsLimit: 0, line: 7, directoryLine: 8 },
+    ]);
+  });
+});
+
+describe('findUpdateProblems', () => {
+  const detected = detectEcosystems(files);
+
+  it('flags entries without a schedule, with a zero limit or for directories without a manifest', () => {
+    const config = parseDependabotConfig(PATH, [
+      'version: 2',
+      'updates:',
+      '  - package-ecosystem: gomod',
+      '    directories: ["/services/api", "/tools"]',
+      '    open-pull-requests-limit: 0',
+      '  - package-ecosystem: pip',
+      '    directory: /',
+      '    schedule: { interval: daily }',
+    ].join('\n'));
+    expect(findUpdateProblems(config, detected)).toEqual([
+      { line: 3, message: 'gomod has no schedule.interval' },
+      { line: 3, message: 'gomod sets open-pull-requests-limit: 0, which disables version updates' },
+      { line: 4, message: 'no gomod manifest in /tools (found in /services/api)' },
+      { line: 7, message: 'no pip manifest in /' },
+    ]);
+  });
+
+  it('accepts glob directories that cover a manifest', () => {
+    const config = parseDependabotConfig(PATH, 'version: 2\nupdates:\n  - package-ecosystem: docker\n    directories: ["/services/*"]\n    schedule: { interval: weekly }\n');
+    expect(findUpdateProblems(config, detected)).toEqual([]);
+  });
+});
+
+describe('findUncoveredEcosystems', () => {
+  it('lists detected ecosystems without an update entry', () => {
+    const config = parseDependabotConfig(PATH, 'version: 2\nupdates:\n  - package-ecosystem: npm\n    directory: /\n    schedule: { interval: weekly }\n');
+    expect(findUncoveredEcosystems(config, detectEcosystems(files)).map(entry => entry.ecosystem)).toEqual(['gomod', 'docker', 'github-actions']);
+    expect(findUncoveredEcosystems(undefined, detectEcosystems(files))).toHaveLength(4);
+  });
+});
+
+describe('suggestDependabotConfig', () => {
+  const detected = detectEcosystems(files);
+
+  it('writes a config covering every ecosystem when there is none', () => {
+    const suggested = parseDependabotConfig(PATH, suggestDependabotConfig(undefined, detected));
+    expect(suggested.errors).toEqual([]);
+    expect(suggested.updates.map(update => [update.ecosystem, update.directories, update.interval])).toEqual([
+      ['npm', ['/'], 'weekly'],
+      ['gomod', ['/services/api'], 'weekly'],
+      ['docker', ['/services/api'], 'weekly'],
+      ['github-actions', ['/'], 'weekly'],
+    ]);
+  });
+
+  it('fixes existing entries, drops ecosystems that are not present and keeps other settings', () => {
+    const config = parseDependabotConfig(PATH, [
+      'version: 2',
+      'registries:',
+      '  npm-internal:',
+      '    type: npm-registry',
+      '    url: https://npm.example.com',
+      'updates:',
+      '  - package-ecosystem: npm',
+      '    directory: /web',
+      '    registries: [npm-internal]',
+      '    open-pull-requests-limit: 0',
+      '  - package-ecosystem: pip',
+      '    directory: /',
+      '    schedule: { interval: daily }',
+    ].join('\n'));
+    const text = suggestDependabotConfig(config, detected);
+    const data = parse(text);
+
+    expect(Object.keys(data)).toEqual(['version', 'registries', 'updates']);
+    expect(data.registries['npm-internal'].url).toBe('https://npm.example.com');
+    expect(data.updates[0]).toEqual({ 'package-ecosystem': 'npm', directory: '/', registries: ['npm-internal'], schedule: { interval: 'weekly' } });
+    expect(data.updates.map((update: Record<string, unknown>) => update['package-ecosystem'])).toEqual(['npm', 'gomod', 'docker', 'github-actions']);
+  });
+
+  it('round-trips: the suggested file has no problems and covers every ecosystem', () => {
+    const config = parseDependabotConfig(PATH, 'version: 2\nupdates:\n  - package-ecosystem: gomod\n    directory: /\n');
+    const suggested = parseDependabotConfig(PATH, suggestDependabotConfig(config, detected));
+    expect(suggested.errors).toEqual([]);
+    expect(findUpdateProblems(suggested, detected)).toEqual([]);
+    expect(findUncoveredEcosystems(suggested, detected)).toEqual([]);
+    expect(suggestDependabotConfig(suggested, detected)).toBe(suggestDependabotConfig(config, detected));
+  });
+});
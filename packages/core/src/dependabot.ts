@@ -0,0 +1,214 @@
+import { parseDocument, stringify, LineCounter, isMap, isSeq, isScalar, Node } from 'yaml';
+import { matchesGlob } from './utils/glob';
+
+/** Where Dependabot reads its configuration, in the order it looks */
+export const DEPENDABOT_CONFIG_PATHS = ['.github/dependabot.yml', '.github/dependabot.yaml'];
+
+// Files that identify each package ecosystem, by file name
+const ECOSYSTEM_MANIFESTS: Array<{ ecosystem: string; manifest: RegExp }> = [
+  { ecosystem: 'npm', manifest: /^package\.json$/ },
+  { ecosystem: 'pip', manifest: /^(requirements.*\.txt|Pipfile|pyproject\.toml|setup\.py)$/ },
+  { ecosystem: 'bundler', manifest: /^(Gemfile|.+\.gemspec)$/ },
+  { ecosystem: 'composer', manifest: /^composer\.json$/ },
+  { ecosystem: 'gomod', manifest: /^go\.mod$/ },
+  { ecosystem: 'cargo', manifest: /^Cargo\.toml$/ },
+  { ecosystem: 'maven', manifest: /^pom\.xml$/ },
+  { ecosystem: 'gradle', manifest: /^(build|settings)\.gradle(\.kts)?$/ },
+  { ecosystem: 'nuget', manifest: /^(.+\.(cs|fs|vb)proj|packages\.config)$/ },
+  { ecosystem: 'mix', manifest: /^mix\.exs$/ },
+  { ecosystem: 'pub', manifest: /^pubspec\.yaml$/ },
+  { ecosystem: 'swift', manifest: /^Package\.swift$/ },
+  { ecosystem: 'elm', manifest: /^elm\.json$/ },
+  { ecosystem: 'docker', manifest: /^(Dockerfile|Containerfile)(\..+)?$|^.+\.(Dockerfile|Containerfile)$/ },
+  { ecosystem: 'docker-compose', manifest: /^(docker-)?compose(\..+)?\.ya?ml$/ },
+  { ecosystem: 'terraform', manifest: /^.+\.tf$/ },
+  { ecosystem: 'gitsubmodule', manifest: /^\.gitmodules$/ },
+  { ecosystem: 'github-actions', manifest: /^action\.ya?ml$/ },
+];
+
+// Vendored and generated code is not updated by Dependabot
+const IGNORED_DIRECTORY = /(^|\/)(node_modules|vendor|third_party|\.git)\//;
+
+const WORKFLOW_FILE = /^\.github\/workflows\/[^/]+\.ya?ml$/;
+
+/** A package ecosystem found in the repository, with the directories holding its manifests ("/" or "/services/api") */
+export interface DetectedEcosystem {
+  ecosystem: string;
+  directories: string[];
+}
+
+export interface DependabotUpdate {
+  ecosystem?: string;
+  directories: string[];
+  interval?: string;
+  openPullRequestsLimit?: number;
+  line: number;
+  directoryLine: number;
+}
+
+export interface DependabotConfig {
+  path: string;
+  updates: DependabotUpdate[];
+  /** Problems that make the file unusable as a whole */
+  errors: Array<{ line: number; message: string }>;
+  /** The file as plain data, kept for the corrected configuration */
+  data: unknown;
+}
+
+/** A problem with one update entry, located at its line */
+export interface DependabotProblem {
+  line: number;
+  message: string;
+}
+
+/** Ecosystems whose manifests appear in the file list, skipping vendored directories */
+export function detectEcosystems(files: string[]): DetectedEcosystem[] {
+  const found = new Map<string, Set<string>>();
+  const add = (ecosystem: string, directory: string) => {
+    if (!found.has(ecosystem)) found.set(ecosystem, new Set());
+    found.get(ecosystem)!.add(directory);
+  };
+
+  for (const file of files) {
+    if (IGNORED_DIRECTORY.test(file)) continue;
+    // Dependabot reads workflows from .github/workflows when the directory is "/"
+    if (WORKFLOW_FILE.test(file)) {
+      add('github-actions', '/');
+      continue;
+    }
+    const index = file.lastIndexOf('/');
+    const name = file.slice(index + 1);
+    const directory = index === -1 ? '/' : `/${file.slice(0, index)}`;
+    for (const { ecosystem, manifest } of ECOSYSTEM_MANIFESTS) {
+      if (manifest.test(name)) add(ecosystem, directory);
+    }
+  }
+
+  return [...found].map(([ecosystem, directories]) => ({ ecosystem, directories: [...directories].sort() }));
+}
+
+export function parseDependabotConfig(path: string, content: string): DependabotConfig {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  const lineOf = (node: Node | null | undefined) => node?.range ? lineCounter.linePos(node.range[0]).line : 1;
+
+  if (doc.errors.length > 0) {
+    return { path, updates: [], errors: [{ line: doc.errors[0].linePos?.[0].line ?? 1, message: `Not valid YAML: ${doc.errors[0].message.split('\n')[0]}` }], data: undefined };
+  }
+
+  const errors: DependabotConfig['errors'] = [];
+  const root = doc.contents;
+  const version = isMap(root) ? root.get('version', true) : undefined;
+  if (!isScalar(version) || Number(version.value) !== 2) errors.push({ line: lineOf(version ?? root), message: 'version must be 2' });
+
+  const updatesNode = isMap(root) ? root.get('updates', true) : undefined;
+  if (!isSeq(updatesNode)) errors.push({ line: lineOf(updatesNode ?? root), message: 'updates must be a list of update entries' });
+
+  const updates: DependabotUpdate[] = (isSeq(updatesNode) ? updatesNode.items : []).filter(isMap).map(item => {
+    const directory = item.get('directory', true);
+    const directories = item.get('directories', true);
+    const schedule = item.get('schedule', true);
+    const interval = isMap(schedule) ? schedule.get('interval', true) : undefined;
+    const limit = item.get('open-pull-requests-limit', true);
+    return {
+      ecosystem: scalarText(item.get('package-ecosystem', true)),
+      directories: isSeq(directories)
+        ? directories.items.map(scalarText).filter((value): value is string => value !== undefined).map(normalizeDirectory)
+        : [scalarText(directory)].filter((value): value is string => value !== undefined).map(normalizeDirectory),
+      interval: scalarText(interval),
+      openPullRequestsLimit: isScalar(limit) && typeof limit.value === 'number' ? limit.value : undefined,
+      line: lineOf(item),
+      directoryLine: lineOf(directories ?? directory ?? item),
+    };
+  });
+
+  return { path, updates, errors, data: doc.toJS() };
+}
+
+/**
+ * Entries that cannot work as written: no schedule, `open-pull-requests-limit: 0`
+ * (which turns version updates off), or directories without a manifest for the
+ * entry's ecosystem. Directories are only checked for ecosystems detectEcosystems
+ * knows about.
+ */
+export function findUpdateProblems(config: DependabotConfig, detected: DetectedEcosystem[]): DependabotProblem[] {
+  const problems: DependabotProblem[] = [];
+  for (const update of config.updates) {
+    const name = update.ecosystem ?? 'entry';
+    if (!update.ecosystem) problems.push({ line: update.line, message: 'entry has no package-ecosystem' });
+    if (update.directories.length === 0) problems.push({ line: update.line, message: `${name} has no directory` });
+    if (!update.interval) problems.push({ line: update.line, message: `${name} has no schedule.interval` });
+    if (update.openPullRequestsLimit === 0) problems.push({ line: update.line, message: `${name} sets open-pull-requests-limit: 0, which disables version updates` });
+
+    if (update.ecosystem && ECOSYSTEM_MANIFESTS.some(entry => entry.ecosystem === update.ecosystem)) {
+      const manifests = detected.find(entry => entry.ecosystem === update.ecosystem)?.directories ?? [];
+      for (const directory of update.directories) {
+        if (!manifests.some(manifest => coversDirectory(directory, manifest))) {
+          problems.push({ line: update.directoryLine, message: `no ${update.ecosystem} manifest in ${directory}${manifests.length > 0 ? ` (found in ${manifests.join(', ')})` : ''}` });
+        }
+      }
+    }
+  }
+  return problems.sort((a, b) => a.line - b.line);
+}
+
+/** Detected ecosystems that no update entry mentions */
+export function findUncoveredEcosystems(config: DependabotConfig | undefined, detected: DetectedEcosystem[]): DetectedEcosystem[] {
+  return detected.filter(entry => !config?.updates.some(update => update.ecosystem === entry.ecosystem));
+}
+
+/**
+ * A dependabot.yml that fixes the problems found: existing entries keep their
+ * settings but get a weekly schedule when they have none, lose a zero pull
+ * request limit and point at the directories holding their manifests; entries
+ * for ecosystems that are not in the repository are dropped, and each
+ * uncovered ecosystem gets a new entry. Comments are not preserved.
+ */
+export function suggestDependabotConfig(config: DependabotConfig | undefined, detected: DetectedEcosystem[]): string {
+  const usable = config?.data && typeof config.data === 'object' && !Array.isArray(config.data) ? config.data as Record<string, unknown> : {};
+  const existing = Array.isArray(usable.updates) ? usable.updates as Array<Record<string, any>> : [];
+
+  const updates = existing.flatMap(entry => {
+    const ecosystem = entry['package-ecosystem'];
+    const manifests = detected.find(found => found.ecosystem === ecosystem)?.directories;
+    if (!ECOSYSTEM_MANIFESTS.some(known => known.ecosystem === ecosystem)) return [entry];
+    if (!manifests) return [];
+
+    const updated = { ...entry };
+    const directories: string[] = (Array.isArray(entry.directories) ? entry.directories : [entry.directory]).filter((value: unknown) => typeof value === 'string').map(normalizeDirectory);
+    if (directories.length === 0 || directories.some(directory => !manifests.some(manifest => coversDirectory(directory, manifest)))) {
+      delete updated.directory;
+      delete updated.directories;
+      Object.assign(updated, directoryField(manifests));
+    }
+    if (!entry.schedule?.interval) updated.schedule = { ...entry.schedule, interval: 'weekly' };
+    if (entry['open-pull-requests-limit'] === 0) delete updated['open-pull-requests-limit'];
+    return [updated];
+  });
+
+  for (const uncovered of findUncoveredEcosystems(config, detected)) {
+    updates.push({ 'package-ecosystem': uncovered.ecosystem, ...directoryField(uncovered.directories), schedule: { interval: 'weekly' } });
+  }
+
+  // version first and updates after any registries, as in the documentation examples
+  return stringify(Object.assign({ version: 2 }, usable, { version: 2, updates }));
+}
+
+function directoryField(directories: string[]): { directory: string } | { directories: string[] } {
+  return directories.length === 1 ? { directory: directories[0] } : { directories };
+}
+
+/** Whether a configured directory, which may be a glob, covers a manifest directory */
+function coversDirectory(configured: string, manifest: string): boolean {
+  return configured === manifest || (/[*?]/.test(configured) && matchesGlob(manifest, configured));
+}
+
+function normalizeDirectory(directory: string): string {
+  const trimmed = directory.trim().replace(/^\.?\/+|\/+$/g, '');
+  // github-actions entries may name the workflows directory itself
+  return trimmed === '' || trimmed === '.github/workflows' ? '/' : `/${trimmed}`;
+}
+
+function scalarText(node: unknown): string | undefined {
+  return isScalar(node) && node.value !== null && node.value !== undefined ? String(node.value) : undefined;
+}
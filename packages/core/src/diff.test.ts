@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { applyBaseline, diffScanResults, findingKey } from './diff';
+import { SecurityFinding } from './types';
+import { scanResult, securityPolicyFinding as finding, suppressed } from './test/fixtures';
+
+const lowFinding: SecurityFinding = { ...finding, id: 'sf-no-security-policy', severity: 'low', subject: 'docs' };
+
+describe('diffScanResults', () => {
+  it('resolves a finding whose check ran without it', () => {
+    const diff = diffScanResults([scanResult([finding], { status: 'failed' })], [scanResult([], { status: 'passed' })]);
+    expect(diff.repositories[0].resolvedFindings.map(f => f.id)).toEqual(['sf-no-security-policy']);
+    expect(diff.repositories[0].status).toBe('changed');
+  });
+
+  it('does not resolve a finding whose check was skipped, errored or not selected', () => {
+    for (const status of ['skipped', 'errored', undefined] as const) {
+      const diff = diffScanResults([scanResult([finding], { status: 'failed' })], [scanResult([], { status })]);
+      expect(diff.repositories[0].resolvedFindings).toEqual([]);
+      expect(diff.totals.resolvedFindings).toBe(0);
+    }
+  });
+
+  it('does not resolve a finding that was suppressed', () => {
+    const diff = diffScanResults([scanResult([finding], { status: 'failed' })], [scanResult([], { status: 'failed', suppressedFindings: [suppressed(finding)] })]);
+    expect(diff.repositories[0].resolvedFindings).toEqual([]);
+  });
+
+  it('does not report a finding whose suppression expired as new', () => {
+    const diff = diffScanResults([scanResult([], { status: 'failed', suppressedFindings: [suppressed(finding)] })], [scanResult([finding], { status: 'failed' })]);
+    expect(diff.repositories[0].newFindings).toEqual([]);
+    expect(diff.repositories[0].unchangedFindings).toEqual([finding]);
+  });
+
+  it('does not resolve a finding below the severity threshold', () => {
+    const filtered = diffScanResults([scanResult([lowFinding], { status: 'failed' })], [scanResult([], { status: 'passed', severityThreshold: 'high', belowThreshold: [findingKey(lowFinding)] })]);
+    expect(filtered.repositories[0].resolvedFindings).toEqual([]);
+
+    // A finding lowered below the threshold by a policy change is listed under its new severity
+    const lowered = diffScanResults([scanResult([finding], { status: 'failed' })], [scanResult([], { status: 'passed', severityThreshold: 'high', belowThreshold: [findingKey(finding)] })]);
+    expect(lowered.repositories[0].resolvedFindings).toEqual([]);
+
+    // Results recorded without the filtered keys still carry their threshold
+    const threshold = diffScanResults([scanResult([lowFinding], { status: 'failed' })], [scanResult([], { status: 'passed', severityThreshold: 'high' })]);
+    expect(threshold.repositories[0].resolvedFindings).toEqual([]);
+  });
+
+  it('reports score, visibility and default branch changes', () => {
+    const diff = diffScanResults(
+      [scanResult([finding], { status: 'failed' })],
+      [scanResult([], { status: 'passed', repository: { visibility: 'public', defaultBranch: 'trunk' } })]
+    );
+    const [repository] = diff.repositories;
+    expect(repository.score).toEqual({ previous: 92, current: 100, delta: 8 });
+    expect(repository.visibilityChange).toEqual({ previous: 'private', current: 'public' });
+    expect(repository.defaultBranchChange).toEqual({ previous: 'main', current: 'trunk' });
+  });
+
+  it('marks repositories that were added, removed or did not change', () => {
+    const other = scanResult([], { repository: { name: 'gadget', fullName: 'acme/gadget' } });
+    const diff = diffScanResults([scanResult([finding]), other], [scanResult([finding]), scanResult([], { repository: { name: 'new', fullName: 'acme/new' } })]);
+    expect(diff.repositories.map(r => [r.repository, r.status])).toEqual([['acme/gadget', 'removed'], ['acme/new', 'added'], ['acme/widget', 'unchanged']]);
+    expect(diff.repositories[0].score).toEqual({ previous: 100, current: null, delta: -100 });
+    expect(diff.totals).toEqual({ newFindings: 0, resolvedFindings: 0, unchangedFindings: 1 });
+  });
+});
+
+describe('applyBaseline', () => {
+  it('removes findings already in the baseline and leaves the score alone', () => {
+    const introduced = { ...finding, id: 'sf-no-dependabot-config', title: 'No Dependabot configuration' };
+    const [result] = applyBaseline([scanResult([finding, introduced])], [scanResult([finding])]);
+
+    expect(result.findings).toEqual([introduced]);
+    expect(result.summary.medium).toBe(1);
+    expect(result.score).toBe(84);
+  });
+
+  it('keeps findings on another file or subject, and repositories missing from the baseline', () => {
+    const located = { ...finding, location: { path: '.github/SECURITY.md' } };
+    const other = scanResult([finding], { repository: { name: 'gadget', fullName: 'acme/gadget' } });
+    const results = applyBaseline([scanResult([located, lowFinding]), other], [scanResult([finding])]);
+
+    expect(results[0].findings).toEqual([located, lowFinding]);
+    expect(results[1]).toBe(other);
+  });
+});
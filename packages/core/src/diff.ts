@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import { RepoScanResult, RepoScanDiff, ScanDiff, SecurityFinding, Severity } from './types';
+import { summarizeFindings, coveragePercent } from './scanner';
+import { gradeForScore } from './scoring';
+import { getCheckDefinitions } from './checks/registry';
+
+/** Identity of a finding across scans of the same repository; findings are kept apart per subject, release ref and file (not line, which shifts between scans) */
+export function findingKey(finding: SecurityFinding): string {
+  let id = finding.subject ? `${finding.id}[${finding.subject}]` : finding.id;
+  if (finding.location) id = `${id}#${finding.location.path}`;
+  return finding.ref ? `${id}@${finding.ref}` : id;
+}
+
+const SEVERITY_ORDER: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+let checksByFinding: Map<string, string[]> | undefined;
+
+/**
+ * Whether a scan looked for `finding`, so its absence from the scan means the
+ * finding was resolved. A skipped, errored or deselected check proves nothing,
+ * and neither does a severity threshold above the finding's severity. Scans
+ * recorded before coverage was tracked, and finding IDs no current check
+ * reports, count as evaluated.
+ */
+export function wasEvaluated(finding: Pick<SecurityFinding, 'id' | 'severity'>, result: RepoScanResult): boolean {
+  if (result.severityThreshold && SEVERITY_ORDER.indexOf(finding.severity) > SEVERITY_ORDER.indexOf(result.severityThreshold)) return false;
+  if (!checksByFinding) {
+    checksByFinding = new Map();
+    for (const check of getCheckDefinitions()) {
+      for (const id of check.findingIds) checksByFinding.set(id, [...(checksByFinding.get(id) ?? []), check.id]);
+    }
+  }
+  const checkIds = checksByFinding.get(finding.id);
+  if (!result.coverage || !checkIds) return true;
+  return checkIds.every(checkId => {
+    const status = result.coverage.checks.find(check => check.checkId === checkId)?.status;
+    return status === 'passed' || status === 'failed';
+  });
+}
+
+/**
+ * Keys of the findings a scan still holds against the repository: reported,
+ * suppressed as an accepted risk, or found below the severity threshold
+ */
+export function openFindingKeys(result: RepoScanResult): Set<string> {
+  return new Set([
+    ...result.findings.map(findingKey),
+    ...(result.suppressedFindings || []).map(findingKey),
+    ...(result.belowThreshold || []),
+  ]);
+}
+
+export function diffScanResults(previous: RepoScanResult[], current: RepoScanResult[]): ScanDiff {
+  const previousByRepo = new Map(previous.map(r => [r.repository.fullName, r]));
+  const currentByRepo = new Map(current.map(r => [r.repository.fullName, r]));
+  const repoNames = [...new Set([...previousByRepo.keys(), ...currentByRepo.keys()])].sort();
+
+  const repositories = repoNames.map(name => diffRepoScanResult(name, previousByRepo.get(name), currentByRepo.get(name)));
+
+  return {
+    generatedAt: new Date(),
+    repositories,
+    totals: {
+      newFindings: repositories.reduce((sum, r) => sum + r.newFindings.length, 0),
+      resolvedFindings: repositories.reduce((sum, r) => sum + r.resolvedFindings.length, 0),
+      unchangedFindings: repositories.reduce((sum, r) => sum + r.unchangedFindings.length, 0),
+    },
+  };
+}
+
+function diffRepoScanResult(repository: string, previous?: RepoScanResult, current?: RepoScanResult): RepoScanDiff {
+  const previousFindings = previous?.findings || [];
+  const currentFindings = current?.findings || [];
+  const previousKeys = previous ? openFindingKeys(previous) : new Set<string>();
+  const currentKeys = current ? openFindingKeys(current) : new Set<string>();
+
+  const diff: RepoScanDiff = {
+    repository,
+    status: 'unchanged',
+    newFindings: currentFindings.filter(f => !previousKeys.has(findingKey(f))),
+    // Suppressed or filtered findings are still there, and one whose check did not run is neither resolved nor still open
+    resolvedFindings: previousFindings.filter(f => !currentKeys.has(findingKey(f)) && (!current || wasEvaluated(f, current))),
+    unchangedFindings: currentFindings.filter(f => previousKeys.has(findingKey(f))),
+    score: {
+      previous: previous ? previous.score : null,
+      current: current ? current.score : null,
+      delta: (current?.score ?? 0) - (previous?.score ?? 0),
+    },
+  };
+
+  if (previous && current) {
+    if (previous.repository.visibility !== current.repository.visibility) {
+      diff.visibilityChange = { previous: previous.repository.visibility, current: current.repository.visibility };
+    }
+    if (previous.repository.defaultBranch !== current.repository.defaultBranch) {
+      diff.defaultBranchChange = { previous: previous.repository.defaultBranch, current: current.repository.defaultBranch };
+    }
+  }
+
+  if (!previous) diff.status = 'added';
+  else if (!current) diff.status = 'removed';
+  else if (diff.newFindings.length > 0 || diff.resolvedFindings.length > 0 || diff.score.delta !== 0 || diff.visibilityChange || diff.defaultBranchChange) diff.status = 'changed';
+
+  return diff;
+}
+
+/**
+ * Removes findings that are already present in the baseline for the same repository,
+ * so only newly introduced findings are reported. Scores are left untouched.
+ */
+export function applyBaseline(results: RepoScanResult[], baseline: RepoScanResult[]): RepoScanResult[] {
+  const baselineByRepo = new Map(baseline.map(r => [r.repository.fullName, new Set(r.findings.map(findingKey))]));
+  return results.map(result => {
+    const known = baselineByRepo.get(result.repository.fullName);
+    if (!known) return result;
+    const findings = result.findings.filter(f => !known.has(findingKey(f)));
+    return { ...result, findings, summary: summarizeFindings(findings, result.passes.length) };
+  });
+}
+
+/** Reads scan results written by `ghsec scan --json` */
+export function readScanResultsFile(filePath: string): RepoScanResult[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  // "scan --org --json" wraps the repository results alongside the organization result
+  const results = Array.isArray(parsed?.repositories) ? parsed.repositories : parsed;
+  if (!Array.isArray(results)) {
+    throw new Error(`${filePath} does not contain scan results. Expected the output of "ghsec scan --json".`);
+  }
+  return results.map((result: any) => ({
+    ...result,
+    scannedAt: new Date(result.scannedAt),
+    suppressedFindings: result.suppressedFindings || [],
+    passes: result.passes || [],
+    grade: result.grade || gradeForScore(result.score),
+    scoreBreakdown: result.scoreBreakdown || { model: 'unknown', score: result.score, grade: gradeForScore(result.score), deductions: [] },
+    // Results written before coverage was tracked cannot vouch for their checks
+    coverage: result.coverage ? { ...result.coverage, percent: result.coverage.percent ?? coveragePercent(result.coverage.checks) } : { complete: false, percent: 0, checks: [] },
+  }));
+}
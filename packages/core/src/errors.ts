@@ -0,0 +1,48 @@
+import { SkipReason } from './types';
+
+/**
+ * Thrown by a check that cannot evaluate a repository for a known reason,
+ * e.g. the feature it inspects is disabled. Reported as a skipped check in
+ * the scan coverage rather than as an error.
+ */
+export class CheckSkippedError extends Error {
+  readonly httpStatus?: number;
+  /** Skip reason for the coverage entry; derived from `httpStatus` when absent */
+  readonly reason?: SkipReason;
+
+  constructor(message: string, httpStatus?: number, reason?: SkipReason) {
+    super(message);
+    this.name = 'CheckSkippedError';
+    this.httpStatus = httpStatus;
+    this.reason = reason;
+  }
+}
+
+/** Thrown when the GitHub server lacks the API a check needs, e.g. an older GitHub Enterprise Server */
+export class UnsupportedOnServerError extends CheckSkippedError {
+  constructor(feature: string, server: string, minVersion?: string) {
+    super(`${feature} is not supported on this server (${server}${minVersion ? `; requires ${minVersion} or later` : ''})`);
+    this.name = 'UnsupportedOnServerError';
+  }
+}
+
+/** Thrown for any GitHub API request made while scanning a local checkout */
+export class OfflineError extends CheckSkippedError {
+  constructor(request: string) {
+    super(`${request} needs the GitHub API, which is not used when scanning a local checkout`);
+    this.name = 'OfflineError';
+  }
+}
+
+/** Thrown for a repository whose scan evaluated fewer checks than `minCoverage` requires with `coverageAction: 'fail'` */
+export class InsufficientCoverageError extends Error {
+  readonly percent: number;
+  readonly minimum: number;
+
+  constructor(repository: string, percent: number, minimum: number) {
+    super(`Only ${percent}% of checks could be evaluated for ${repository} (minimum ${minimum}%)`);
+    this.name = 'InsufficientCoverageError';
+    this.percent = percent;
+    this.minimum = minimum;
+  }
+}
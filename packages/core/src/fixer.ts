@@ -1,4 +1,6 @@
-import { Octokit } from '@octokit/rest';
+import { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
+import { createOctokit, GitHubServerOptions } from './server';
+import { GitHubCredentials } from './auth';
 
 export interface FixResult {
   success: boolean;
@@ -7,15 +9,56 @@ export interface FixResult {
   error?: string;
 }
 
+/** Findings SecurityFixer can remediate */
+export const FIXABLE_FINDINGS = [
+  'bp-not-enabled', 'bp-no-pr-reviews', 'bp-admin-bypass', 'bp-stale-reviews', 'bp-low-review-count',
+  'rb-not-enabled', 'rb-no-pr-reviews', 'rb-admin-bypass', 'rb-stale-reviews', 'rb-low-review-count',
+  'sf-no-dependabot-alerts', 'rs-token-write-permissions', 'rs-token-can-approve-prs',
+  'rs-no-auto-delete-branches', 'rs-private-forking-allowed',
+];
+
+/** Every fix changes repository settings */
+export const FIX_REQUIRED_PERMISSIONS = ['administration:write'];
+
+export interface FixerOptions {
+  /**
+   * How branch protection findings are fixed: by editing classic branch
+   * protection (default) or by creating and updating a repository ruleset
+   */
+  branchProtection?: 'classic' | 'ruleset';
+}
+
+type RulesetRule = NonNullable<RestEndpointMethodTypes['repos']['createRepoRuleset']['parameters']['rules']>[number];
+type PullRequestRule = Extract<RulesetRule, { type: 'pull_request' }>;
+
+/** Name of the ruleset the fixer creates for a branch; later fixes update the same ruleset */
+export function fixerRulesetName(branch: string): string {
+  return `ghsec: protect ${branch}`;
+}
+
 export class SecurityFixer {
   private octokit: Octokit;
+  private options: FixerOptions;
 
-  constructor(token: string) {
-    this.octokit = new Octokit({ auth: token });
+  /** Accepts a personal access token or GitHub App credentials */
+  constructor(credentials: string | GitHubCredentials, server: GitHubServerOptions = {}, options: FixerOptions = {}) {
+    this.octokit = createOctokit(credentials, server);
+    this.options = options;
   }
 
   async fixFinding(owner: string, repo: string, findingId: string, branch?: string): Promise<FixResult> {
+    // Release branch findings (rb-*) are fixed like their default-branch counterpart, on the branch they were reported for
+    if (findingId.startsWith('rb-')) {
+      if (!branch) {
+        return { success: false, findingId, message: 'Release branch findings are fixed on the branch they were reported for', error: 'BRANCH_REQUIRED' };
+      }
+      const result = await this.fixFinding(owner, repo, findingId.replace(/^rb-/, 'bp-'), branch);
+      return { ...result, findingId };
+    }
     try {
+      if (this.options.branchProtection === 'ruleset' && findingId.startsWith('bp-')) {
+        return await this.fixWithRuleset(owner, repo, findingId, branch || 'main');
+      }
       switch (findingId) {
         case 'bp-not-enabled':
           return await this.enableBranchProtection(owner, repo, branch || 'main');
@@ -127,4 +170,85 @@ export class SecurityFixer {
     await this.octokit.repos.update({ owner, repo, allow_forking: false });
     return { success: true, findingId: 'rs-private-forking-allowed', message: 'Forking disabled' };
   }
+
+  private async fixWithRuleset(owner: string, repo: string, findingId: string, branch: string): Promise<FixResult> {
+    switch (findingId) {
+      case 'bp-not-enabled':
+        await this.upsertRuleset(owner, repo, branch, rules => withRules(rules, { type: 'deletion' }, { type: 'non_fast_forward' }, pullRequestRule(rules, 1)));
+        return { success: true, findingId, message: `Ruleset "${fixerRulesetName(branch)}" created` };
+      case 'bp-no-pr-reviews':
+        await this.upsertRuleset(owner, repo, branch, rules => withRules(rules, pullRequestRule(rules, 1)));
+        return { success: true, findingId, message: 'PR reviews now required by ruleset' };
+      case 'bp-stale-reviews':
+        await this.upsertRuleset(owner, repo, branch, rules => withRules(rules, pullRequestRule(rules, 1)));
+        return { success: true, findingId, message: 'Stale review dismissal enabled in ruleset' };
+      case 'bp-low-review-count':
+        await this.upsertRuleset(owner, repo, branch, rules => withRules(rules, pullRequestRule(rules, 2)));
+        return { success: true, findingId, message: 'Required reviewers set to 2 in ruleset' };
+      case 'bp-admin-bypass':
+        // Rulesets apply to administrators unless they are listed as bypass actors
+        await this.upsertRuleset(owner, repo, branch, rules => rules.length > 0 ? rules : withRules(rules, { type: 'deletion' }, { type: 'non_fast_forward' }, pullRequestRule(rules, 1)), true);
+        return { success: true, findingId, message: 'Ruleset enforced for administrators' };
+      default:
+        return {
+          success: false,
+          findingId,
+          message: 'No automatic ruleset fix available for this finding',
+          error: 'UNSUPPORTED_FIX',
+        };
+    }
+  }
+
+  /**
+   * Creates the fixer's ruleset for the branch, or updates its rules when it
+   * already exists. Existing bypass actors are kept unless `clearBypass` is set.
+   */
+  private async upsertRuleset(owner: string, repo: string, branch: string, update: (rules: RulesetRule[]) => RulesetRule[], clearBypass = false): Promise<void> {
+    const name = fixerRulesetName(branch);
+    const rulesets = await this.octokit.paginate(this.octokit.repos.getRepoRulesets, { owner, repo, per_page: 100 });
+    const existing = rulesets.find(ruleset => ruleset.name === name && ruleset.source_type !== 'Organization');
+
+    if (!existing) {
+      await this.octokit.repos.createRepoRuleset({
+        owner, repo, name,
+        target: 'branch',
+        enforcement: 'active',
+        conditions: { ref_name: { include: [`refs/heads/${branch}`], exclude: [] } },
+        bypass_actors: [],
+        rules: update([]),
+      });
+      return;
+    }
+
+    const { data } = await this.octokit.repos.getRepoRuleset({ owner, repo, ruleset_id: existing.id });
+    await this.octokit.repos.updateRepoRuleset({
+      owner, repo,
+      ruleset_id: existing.id,
+      enforcement: 'active',
+      bypass_actors: clearBypass ? [] : data.bypass_actors,
+      rules: update((data.rules || []) as RulesetRule[]),
+    });
+  }
+}
+
+/** Replaces rules of the same type, keeping the rest */
+function withRules(rules: RulesetRule[], ...added: RulesetRule[]): RulesetRule[] {
+  const types = new Set(added.map(rule => rule.type));
+  return [...rules.filter(rule => !types.has(rule.type)), ...added];
+}
+
+/** A pull request rule that dismisses stale approvals and requires at least `minApprovals`, keeping stricter existing settings */
+function pullRequestRule(rules: RulesetRule[], minApprovals: number): PullRequestRule {
+  const current = rules.find((rule): rule is PullRequestRule => rule.type === 'pull_request')?.parameters;
+  return {
+    type: 'pull_request',
+    parameters: {
+      ...current,
+      dismiss_stale_reviews_on_push: true,
+      require_code_owner_review: current?.require_code_owner_review ?? false,
+      require_last_push_approval: current?.require_last_push_approval ?? false,
+      required_approving_review_count: Math.max(current?.required_approving_review_count ?? 0, minApprovals),
+      required_review_thread_resolution: current?.required_review_thread_resolution ?? false,
+    },
+  };
 }
@@ -0,0 +1,128 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { findingKey } from './diff';
+import { ScanHistoryStore } from './history';
+import { SecurityFinding } from './types';
+import { ScanFixture, scanResult, securityPolicyFinding as finding, suppressed } from './test/fixtures';
+
+function scan(day: number, findings: SecurityFinding[], fixture: ScanFixture = {}) {
+  return scanResult(findings, { scannedAt: new Date(Date.UTC(2026, 0, day)), ...fixture });
+}
+
+function day(n: number): Date {
+  return new Date(Date.UTC(2026, 0, n));
+}
+
+describe('ScanHistoryStore', () => {
+  let directory: string;
+  let store: ScanHistoryStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ghsec-history-'));
+    store = new ScanHistoryStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('getFindingHistory', () => {
+    it('keeps a finding open while its check is skipped, errored or not selected', async () => {
+      await store.record(scan(1, [finding], { status: 'failed' }));
+      await store.record(scan(2, [], { status: 'skipped' }));
+      await store.record(scan(3, [], { status: 'errored' }));
+      await store.record(scan(4, []));
+      await store.record(scan(5, [finding], { status: 'failed' }));
+      await store.record(scan(11, [], { status: 'passed' }));
+
+      const history = await store.getFindingHistory('acme/widget');
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ firstSeen: day(1), lastSeen: day(5), resolvedAt: day(11), open: false });
+    });
+
+    it('keeps a finding open while it is suppressed, and continues the occurrence once the suppression ends', async () => {
+      await store.record(scan(1, [finding], { status: 'failed' }));
+      await store.record(scan(2, [], { status: 'failed', suppressedFindings: [suppressed(finding)] }));
+      await store.record(scan(3, [finding], { status: 'failed' }));
+
+      const history = await store.getFindingHistory('acme/widget');
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ firstSeen: day(1), lastSeen: day(3), open: true });
+      expect(history[0].resolvedAt).toBeUndefined();
+    });
+
+    it('keeps a finding open while the severity threshold hides it', async () => {
+      await store.record(scan(1, [finding], { status: 'failed' }));
+      await store.record(scan(2, [], { status: 'failed', severityThreshold: 'high', belowThreshold: [findingKey(finding)] }));
+      await store.record(scan(3, [], { status: 'passed', severityThreshold: 'high' }));
+
+      const history = await store.getFindingHistory('acme/widget');
+      expect(history[0]).toMatchObject({ lastSeen: day(2), open: true });
+
+      await store.record(scan(4, [], { status: 'passed', severityThreshold: 'low' }));
+      expect((await store.getFindingHistory('acme/widget'))[0]).toMatchObject({ resolvedAt: day(4), open: false });
+    });
+
+    it('reports a finding that returns after being resolved as a new occurrence', async () => {
+      await store.record(scan(1, [finding], { status: 'failed' }));
+      await store.record(scan(2, [], { status: 'passed' }));
+      await store.record(scan(6, [finding], { status: 'failed' }));
+
+      const history = await store.getFindingHistory('acme/widget');
+      expect(history.map(h => [h.firstSeen, h.resolvedAt])).toEqual([[day(1), day(2)], [day(6), undefined]]);
+      expect(await store.getFindingFirstSeen('acme/widget', 'sf-no-security-policy')).toEqual(day(1));
+    });
+  });
+
+  it('returns the score after each scan, oldest first', async () => {
+    await store.record(scan(3, [], { status: 'passed' }));
+    await store.record(scan(1, [finding, { ...finding, id: 'sf-no-dependabot-config' }], { status: 'failed' }));
+
+    expect(await store.getScoreHistory('acme/widget')).toEqual([
+      { scannedAt: day(1), score: 84, findings: 2 },
+      { scannedAt: day(3), score: 100, findings: 0 },
+    ]);
+    expect(await store.getScoreHistory('acme/unknown')).toEqual([]);
+  });
+
+  it('skips lines cut short by an interrupted write', async () => {
+    await store.record(scan(1, [], { status: 'passed' }));
+    await fs.appendFile(path.join(directory, 'acme', 'widget.jsonl'), '{"scannerVersion":"1.0.0","result":{"repos\n');
+    await store.record(scan(2, [], { status: 'passed' }));
+
+    expect(await store.getEntries('acme/widget')).toHaveLength(2);
+  });
+
+  it('averages the time to remediate per finding ID across repositories', async () => {
+    const gadget = { repository: { name: 'gadget', fullName: 'acme/gadget' } };
+    await store.record(scan(1, [finding], { status: 'failed' }));
+    await store.record(scan(5, [], { status: 'passed' }));
+    await store.record(scan(1, [finding], { status: 'failed', ...gadget }));
+    await store.record(scan(2, [], { status: 'failed', ...gadget, suppressedFindings: [suppressed(finding)] }));
+    await store.record(scan(11, [], { status: 'passed', ...gadget }));
+    await store.record(scan(20, [{ ...finding, id: 'sf-no-dependabot-config' }], { status: 'failed', ...gadget }));
+
+    expect(await store.getMeanTimeToRemediate()).toEqual([{ findingId: 'sf-no-security-policy', remediations: 2, meanTimeToRemediateDays: 7 }]);
+    expect(await store.getMeanTimeToRemediate('acme/widget')).toEqual([{ findingId: 'sf-no-security-policy', remediations: 1, meanTimeToRemediateDays: 4 }]);
+  });
+
+  it('lists the repositories with history', async () => {
+    expect(await store.listRepositories()).toEqual([]);
+
+    await store.record(scan(1, [], { repository: { owner: 'zeta', name: 'api', fullName: 'zeta/api' } }));
+    await store.record(scan(1, []));
+    await fs.writeFile(path.join(directory, 'acme', 'notes.txt'), 'not history');
+    await fs.writeFile(path.join(directory, 'README'), 'not an owner');
+
+    expect(await store.listRepositories()).toEqual(['acme/widget', 'zeta/api']);
+  });
+
+  it('rejects repository names that would leave the history directory', async () => {
+    for (const name of ['acme', '../widget', 'acme/..', '/widget']) {
+      await expect(store.getEntries(name)).rejects.toThrow(`Invalid repository name: ${name}`);
+    }
+    await expect(store.record(scan(1, [], { repository: { fullName: '../../etc/passwd' } }))).rejects.toThrow('Invalid repository name');
+  });
+});
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RepoScanResult, Severity } from './types';
+import { findingKey, openFindingKeys, wasEvaluated } from './diff';
+import { SCANNER_VERSION } from './version';
+
+export interface ScanHistoryEntry {
+  scannerVersion: string;
+  recordedAt: string;
+  result: RepoScanResult;
+}
+
+export interface ScoreHistoryPoint {
+  scannedAt: Date;
+  score: number;
+  findings: number;
+}
+
+export interface FindingHistory {
+  repository: string;
+  findingId: string;
+  ref?: string;
+  /** Secret type, package or other item the finding is about, for checks that report one finding per item */
+  subject?: string;
+  /** File the finding points at, for findings in workflow and other repository files */
+  path?: string;
+  title: string;
+  severity: Severity;
+  firstSeen: Date;
+  lastSeen: Date;
+  resolvedAt?: Date;
+  open: boolean;
+}
+
+export interface RemediationStats {
+  findingId: string;
+  remediations: number;
+  meanTimeToRemediateDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function defaultHistoryDirectory(): string {
+  return process.env.GHSEC_HISTORY_DIR || path.join(os.homedir(), '.ghsec', 'history');
+}
+
+/**
+ * Append-only scan history stored as one JSONL file per repository:
+ * `<directory>/<owner>/<repo>.jsonl`, one scan result per line.
+ */
+export class ScanHistoryStore {
+  private directory: string;
+
+  constructor(directory: string = defaultHistoryDirectory()) {
+    this.directory = directory;
+  }
+
+  async record(result: RepoScanResult): Promise<void> {
+    const entry: ScanHistoryEntry = { scannerVersion: SCANNER_VERSION, recordedAt: new Date().toISOString(), result };
+    const filePath = this.repoFile(result.repository.fullName);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  async listRepositories(): Promise<string[]> {
+    const repositories: string[] = [];
+    let owners: string[];
+    try {
+      owners = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    for (const owner of owners) {
+      const ownerDir = path.join(this.directory, owner);
+      if (!(await fs.stat(ownerDir)).isDirectory()) continue;
+      for (const file of await fs.readdir(ownerDir)) {
+        if (file.endsWith('.jsonl')) repositories.push(`${owner}/${file.slice(0, -'.jsonl'.length)}`);
+      }
+    }
+    return repositories.sort();
+  }
+
+  async getEntries(repoFullName: string): Promise<ScanHistoryEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.repoFile(repoFullName), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: ScanHistoryEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as ScanHistoryEntry;
+        entry.result.scannedAt = new Date(entry.result.scannedAt);
+        entries.push(entry);
+      } catch {
+        // Skip lines truncated by an interrupted write
+      }
+    }
+    return entries.sort((a, b) => a.result.scannedAt.getTime() - b.result.scannedAt.getTime());
+  }
+
+  async getScoreHistory(repoFullName: string): Promise<ScoreHistoryPoint[]> {
+    const entries = await this.getEntries(repoFullName);
+    return entries.map(({ result }) => ({ scannedAt: result.scannedAt, score: result.score, findings: result.findings.length }));
+  }
+
+  /**
+   * Reconstructs when each finding appeared and was resolved. A finding that
+   * disappears and later returns is reported as separate occurrences. One that
+   * is suppressed, below the scan's severity threshold, or missing because its
+   * check did not run stays open.
+   */
+  async getFindingHistory(repoFullName: string): Promise<FindingHistory[]> {
+    const entries = await this.getEntries(repoFullName);
+    const open = new Map<string, FindingHistory>();
+    const history: FindingHistory[] = [];
+
+    for (const { result } of entries) {
+      const seen = openFindingKeys(result);
+      for (const finding of [...result.findings, ...(result.suppressedFindings || [])]) {
+        const key = findingKey(finding);
+        const current = open.get(key);
+        if (current) {
+          current.lastSeen = result.scannedAt;
+        } else {
+          const occurrence: FindingHistory = {
+            repository: repoFullName,
+            findingId: finding.id,
+            ref: finding.ref,
+            subject: finding.subject,
+            path: finding.location?.path,
+            title: finding.title,
+            severity: finding.severity,
+            firstSeen: result.scannedAt,
+            lastSeen: result.scannedAt,
+            open: true,
+          };
+          open.set(key, occurrence);
+          history.push(occurrence);
+        }
+      }
+      for (const [key, occurrence] of open) {
+        if (seen.has(key)) {
+          occurrence.lastSeen = result.scannedAt;
+          continue;
+        }
+        // Carried forward while its check is skipped, errored or not selected, or the threshold hides it
+        if (!wasEvaluated({ id: occurrence.findingId, severity: occurrence.severity }, result)) continue;
+        occurrence.resolvedAt = result.scannedAt;
+        occurrence.open = false;
+        open.delete(key);
+      }
+    }
+
+    return history;
+  }
+
+  async getFindingFirstSeen(repoFullName: string, findingId: string): Promise<Date | undefined> {
+    const history = await this.getFindingHistory(repoFullName);
+    return history.find(h => h.findingId === findingId)?.firstSeen;
+  }
+
+  /** Mean time from first detection to resolution, per finding ID */
+  async getMeanTimeToRemediate(repoFullName?: string): Promise<RemediationStats[]> {
+    const repositories = repoFullName ? [repoFullName] : await this.listRepositories();
+    const durations = new Map<string, number[]>();
+
+    for (const repository of repositories) {
+      for (const occurrence of await this.getFindingHistory(repository)) {
+        if (!occurrence.resolvedAt) continue;
+        const list = durations.get(occurrence.findingId) || [];
+        list.push(occurrence.resolvedAt.getTime() - occurrence.firstSeen.getTime());
+        durations.set(occurrence.findingId, list);
+      }
+    }
+
+    return [...durations.entries()]
+      .map(([findingId, list]) => ({
+        findingId,
+        remediations: list.length,
+        meanTimeToRemediateDays: Math.round((list.reduce((sum, d) => sum + d, 0) / list.length / DAY_MS) * 10) / 10,
+      }))
+      .sort((a, b) => b.meanTimeToRemediateDays - a.meanTimeToRemediateDays);
+  }
+
+  private repoFile(repoFullName: string): string {
+    const [owner, repo] = repoFullName.split('/');
+    if (!owner || !repo || owner.includes('..') || repo.includes('..')) {
+      throw new Error(`Invalid repository name: ${repoFullName}`);
+    }
+    return path.join(this.directory, owner, `${repo}.jsonl`);
+  }
+}
@@ -2,10 +2,38 @@
 export * from './types';
 export * from './scanner';
 export * from './reports/soc2';
+export * from './reports/access-matrix';
 export * from './fixer';
+export * from './policy';
+export * from './suppressions';
+export * from './diff';
+export * from './history';
+export * from './version';
+export * from './rate-limit';
+export * from './context';
+export * from './org-context';
+export * from './local-context';
+export * from './errors';
+export * from './scoring';
+export * from './server';
+export * from './auth';
+export * from './preflight';
+export * from './branch-rules';
+export * from './access';
+export * from './codeowners';
+export * from './dependabot';
+export { mapWithConcurrency } from './utils/concurrency';
 
 // Check modules
 export { checkBranchProtection } from './checks/branch-protection';
-export { checkSecurityFeatures, checkDependencyAlerts } from './checks/security-features';
+export { checkReleaseBranches, checkReleaseTags } from './checks/release-protection';
+export { checkSecurityFeatures, checkSecretScanningAlerts, checkPushProtection, checkDependencyAlerts, checkDependencyRemediation } from './checks/security-features';
 export { checkAccessControl } from './checks/access-control';
 export { checkRepositorySettings } from './checks/repository-settings';
+export { checkCodeownersRules, checkCodeownersOwners } from './checks/codeowners';
+export { checkCodeScanning, checkCodeScanningAlerts } from './checks/code-scanning';
+export { checkWorkflowInputs, checkWorkflowDependencies, checkWorkflowPermissions, checkWorkflowRunners, readWorkflowFiles, formatLocation, WorkflowFile } from './checks/workflows';
+export { checkOrgTwoFactor, checkOrgBasePermissions, checkOrgRepositoryCreation, checkOrgSecurityDefaults, checkOrgActionsPolicy, checkOrgOutsideCollaborators } from './checks/organization';
+
+// Check registry
+export { listChecks, selectChecks, selectOrgChecks, findUnknownChecks, getCheckDefinitions, getOrgCheckDefinitions, CheckDefinition, OrgCheckDefinition, CheckSelection } from './checks/registry';
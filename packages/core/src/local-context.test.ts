@@ -0,0 +1,126 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { OfflineError } from './errors';
+import { LocalRepoContext } from './local-context';
+import { GitHubSecurityScanner } from './scanner';
+import { ScannerConfigSchema } from './types';
+
+const run = promisify(execFile);
+
+async function git(cwd: string, ...args: string[]): Promise<void> {
+  await run('git', args, { cwd });
+}
+
+describe('LocalRepoContext', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ghsec-local-')));
+    await git(directory, 'init', '--quiet', '--initial-branch', 'trunk');
+    await fs.mkdir(path.join(directory, '.github', 'workflows'), { recursive: true });
+    await fs.writeFile(path.join(directory, 'SECURITY.md'), '# Security\n');
+    await fs.writeFile(path.join(directory, 'LICENSE.txt'), 'MIT License\n');
+    await fs.writeFile(path.join(directory, '.gitignore'), 'dist/\n');
+    await fs.writeFile(path.join(directory, '.github', 'workflows', 'ci.yml'), 'on: push\n');
+    await fs.mkdir(path.join(directory, 'dist'));
+    await fs.writeFile(path.join(directory, 'dist', 'index.js'), '');
+    await git(directory, 'add', 'SECURITY.md', '.gitignore');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('open', () => {
+    it('names the repository after the origin remote and opens the checkout from a subdirectory', async () => {
+      await git(directory, 'remote', 'add', 'origin', 'git@github.com:acme/widget.git');
+      const context = await LocalRepoContext.open(path.join(directory, '.github', 'workflows'));
+
+      expect(context.root).toBe(directory);
+      expect(context.repository).toEqual({ owner: 'acme', name: 'widget', fullName: 'acme/widget', visibility: 'unknown', defaultBranch: 'trunk', url: 'https://github.com/acme/widget' });
+      expect([context.owner, context.repo]).toEqual(['acme', 'widget']);
+    });
+
+    it('parses HTTPS and SSH remote URLs, including GHES hosts', async () => {
+      for (const [remote, url] of [
+        ['https://github.com/acme/widget.git', 'https://github.com/acme/widget'],
+        ['ssh://git@github.example.com:2222/acme/widget', 'https://github.example.com/acme/widget'],
+        ['https://token@github.example.com/acme/widget/', 'https://github.example.com/acme/widget'],
+      ]) {
+        await git(directory, 'remote', 'remove', 'origin').catch(() => undefined);
+        await git(directory, 'remote', 'add', 'origin', remote);
+        expect((await LocalRepoContext.open(directory)).repository).toMatchObject({ fullName: 'acme/widget', url });
+      }
+    });
+
+    it('takes the default branch from origin/HEAD', async () => {
+      await git(directory, 'symbolic-ref', 'refs/remotes/origin/HEAD', 'refs/remotes/origin/main');
+      expect((await LocalRepoContext.open(directory)).repository.defaultBranch).toBe('main');
+    });
+
+    it('falls back to the directory name without a remote', async () => {
+      const { repository } = await LocalRepoContext.open(directory);
+      expect(repository).toMatchObject({ owner: '', name: path.basename(directory), fullName: path.basename(directory), url: `file://${directory}` });
+    });
+
+    it('rejects a directory outside a git checkout', async () => {
+      const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'ghsec-plain-'));
+      try {
+        await expect(LocalRepoContext.open(outside)).rejects.toThrow('is not a git checkout');
+      } finally {
+        await fs.rm(outside, { recursive: true, force: true });
+      }
+    });
+  });
+
+  it('reads files and directories from the working tree', async () => {
+    const context = await LocalRepoContext.open(directory);
+
+    expect(await context.getFileContent('SECURITY.md')).toBe('# Security\n');
+    expect(await context.getFileContent('CODEOWNERS')).toBeUndefined();
+    expect(await context.getFileContent('.github')).toBeUndefined();
+    expect(await context.getFileContent('SECURITY.md/nested')).toBeUndefined();
+
+    expect(await context.listDirectory('/.github/workflows/')).toEqual([{ name: 'ci.yml', path: '.github/workflows/ci.yml', type: 'file' }]);
+    expect((await context.listDirectory()).find(entry => entry.name === '.github')).toEqual({ name: '.github', path: '.github', type: 'dir' });
+    expect(await context.listDirectory('docs')).toEqual([]);
+    expect(await context.getLicense()).toEqual({ name: 'LICENSE.txt', spdx_id: null });
+  });
+
+  it('lists tracked files and new files git does not ignore', async () => {
+    const { files, truncated } = await (await LocalRepoContext.open(directory)).getTree();
+
+    expect(files.sort()).toEqual(['.github/workflows/ci.yml', '.gitignore', 'LICENSE.txt', 'SECURITY.md']);
+    expect(truncated).toBe(false);
+  });
+
+  it('fails every API request with OfflineError', async () => {
+    const context = await LocalRepoContext.open(directory);
+
+    await expect(context.getRepository()).rejects.toBeInstanceOf(OfflineError);
+    await expect(context.octokit.repos.listCollaborators({ owner: 'acme', repo: 'widget' })).rejects.toBeInstanceOf(OfflineError);
+  });
+
+  it('is scanned without credentials, skipping the checks that need the API', async () => {
+    const scanner = new GitHubSecurityScanner(ScannerConfigSchema.parse({ checks: ['security-policy', 'default-branch-protection'] }));
+    const result = await scanner.scanLocalRepository(directory);
+
+    const coverage = Object.fromEntries(result.coverage.checks.map(check => [check.checkId, check]));
+    expect(coverage['security-policy'].status).toBe('passed');
+    expect(coverage['default-branch-protection']).toMatchObject({ status: 'skipped', reason: 'offline' });
+  });
+});
+
+describe('ScannerConfigSchema', () => {
+  it('accepts a token, app credentials or neither, but not both', () => {
+    const app = { appId: 1, privateKey: 'key', installationId: 2 };
+    expect(() => ScannerConfigSchema.parse({})).not.toThrow();
+    expect(() => ScannerConfigSchema.parse({ token: 'ghp_test' })).not.toThrow();
+    expect(() => ScannerConfigSchema.parse({ app })).not.toThrow();
+    expect(() => ScannerConfigSchema.parse({ token: 'ghp_test', app })).toThrow('not both');
+  });
+});
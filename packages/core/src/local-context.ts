@@ -0,0 +1,131 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { Octokit } from '@octokit/rest';
+import { DirectoryEntry, RepoContext, RepoLicense, RepoMetadata, RepoTree } from './context';
+import { RepoScanResult } from './types';
+import { OfflineError } from './errors';
+
+const run = promisify(execFile);
+
+// GitHub detects a license from these file names in the repository root
+const LICENSE_FILE = /^(licen[cs]e|copying)([.-].*)?$/i;
+
+/**
+ * A repository read from a local git checkout instead of the API. Files come
+ * from the working tree, so uncommitted changes are scanned too. Every API
+ * request fails with OfflineError, which the scanner reports as a skipped
+ * check, so checks that need repository settings never reach the network.
+ */
+export class LocalRepoContext extends RepoContext {
+  /** Top-level directory of the checkout */
+  readonly root: string;
+  readonly repository: RepoScanResult['repository'];
+
+  private constructor(root: string, repository: RepoScanResult['repository']) {
+    super(offlineOctokit(), repository.owner, repository.name);
+    this.root = root;
+    this.repository = repository;
+  }
+
+  /** Opens the checkout containing `directory`; rejects when it is not inside a git work tree */
+  static async open(directory: string): Promise<LocalRepoContext> {
+    let root: string;
+    try {
+      root = await git(directory, 'rev-parse', '--show-toplevel');
+    } catch {
+      throw new Error(`${path.resolve(directory)} is not a git checkout`);
+    }
+    const remote = parseRemote(await git(root, 'config', '--get', 'remote.origin.url').catch(() => ''));
+    const name = remote?.name ?? path.basename(root);
+    return new LocalRepoContext(root, {
+      owner: remote?.owner ?? '',
+      name,
+      fullName: remote ? `${remote.owner}/${remote.name}` : name,
+      visibility: 'unknown',
+      defaultBranch: await defaultBranch(root),
+      url: remote?.url ?? `file://${root}`,
+    });
+  }
+
+  getRepository(): Promise<RepoMetadata> {
+    return Promise.reject(new OfflineError('Repository settings'));
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return this.repository.defaultBranch;
+  }
+
+  /** Lists a directory of the working tree; a missing directory is an empty listing */
+  listDirectory(dirPath = ''): Promise<DirectoryEntry[]> {
+    const dir = dirPath.replace(/^\/+|\/+$/g, '');
+    return this.memoize(`dir:${dir}`, async () => {
+      try {
+        const entries = await fs.readdir(path.join(this.root, dir), { withFileTypes: true });
+        return entries.map(entry => ({
+          name: entry.name,
+          path: dir ? `${dir}/${entry.name}` : entry.name,
+          type: entry.isSymbolicLink() ? 'symlink' : entry.isDirectory() ? 'dir' : 'file',
+        }));
+      } catch (error: any) {
+        if (error.code === 'ENOENT' || error.code === 'ENOTDIR') return [];
+        throw error;
+      }
+    });
+  }
+
+  getFileContent(filePath: string): Promise<string | undefined> {
+    return this.memoize(`file:${filePath}`, async () => {
+      try {
+        return await fs.readFile(path.join(this.root, filePath), 'utf8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT' || error.code === 'ENOTDIR' || error.code === 'EISDIR') return undefined;
+        throw error;
+      }
+    });
+  }
+
+  /** Tracked files plus new files git does not ignore, so files about to be committed are included */
+  getTree(): Promise<RepoTree> {
+    return this.memoize('tree', async () => {
+      const { stdout } = await run('git', ['ls-files', '-z', '--cached', '--others', '--exclude-standard'], { cwd: this.root, maxBuffer: 256 * 1024 * 1024 });
+      return { files: stdout.split('\0').filter(Boolean), truncated: false };
+    });
+  }
+
+  /** The license file in the root of the checkout; its SPDX identifier is only known to GitHub */
+  async getLicense(): Promise<Pick<RepoLicense, 'name' | 'spdx_id'> | null> {
+    const file = (await this.listDirectory()).find(entry => entry.type === 'file' && LICENSE_FILE.test(entry.name));
+    return file ? { name: file.name, spdx_id: null } : null;
+  }
+}
+
+function offlineOctokit(): Octokit {
+  const octokit = new Octokit();
+  octokit.hook.wrap('request', (_request, options) => {
+    throw new OfflineError(`${options.method} ${options.url}`);
+  });
+  return octokit;
+}
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await run('git', args, { cwd });
+  return stdout.trim();
+}
+
+/** The branch origin/HEAD points at, falling back to the checked-out branch */
+async function defaultBranch(root: string): Promise<string> {
+  const remoteHead = await git(root, 'symbolic-ref', '--short', 'refs/remotes/origin/HEAD').catch(() => '');
+  if (remoteHead) return remoteHead.replace(/^origin\//, '');
+  // Detached in most CI checkouts, where there is no branch name to report
+  return git(root, 'symbolic-ref', '--short', 'HEAD').catch(() => 'HEAD');
+}
+
+/** Owner, name and web URL from an HTTPS, SSH or scp-style remote URL */
+function parseRemote(remoteUrl: string): { owner: string; name: string; url: string } | undefined {
+  const match = remoteUrl.match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](?:.+\/)?([^/]+)\/([^/]+?)(?:\.git)?\/?$/i);
+  if (!match) return undefined;
+  const [, host, owner, name] = match;
+  return { owner, name, url: `https://${host}/${owner}/${name}` };
+}
@@ -0,0 +1,67 @@
+import { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
+import { GITHUB_DOTCOM, ServerInfo } from './server';
+
+export type OrgMetadata = RestEndpointMethodTypes['orgs']['get']['response']['data'];
+export type OrgMember = RestEndpointMethodTypes['orgs']['listMembers']['response']['data'][number];
+export type OrgActionsPermissions = RestEndpointMethodTypes['actions']['getGithubActionsPermissionsOrganization']['response']['data'];
+export type OrgWorkflowPermissions = RestEndpointMethodTypes['actions']['getGithubActionsDefaultWorkflowPermissionsOrganization']['response']['data'];
+
+/**
+ * Organization data shared by the organization checks, memoized like
+ * RepoContext. Most settings are only returned to organization owners.
+ */
+export class OrgContext {
+  readonly octokit: Octokit;
+  readonly org: string;
+  readonly server: ServerInfo;
+  private cache = new Map<string, Promise<unknown>>();
+
+  constructor(octokit: Octokit, org: string, options: { server?: ServerInfo } = {}) {
+    this.octokit = octokit;
+    this.org = org;
+    this.server = options.server || GITHUB_DOTCOM;
+  }
+
+  getOrganization(): Promise<OrgMetadata> {
+    return this.memoize('organization', async () => {
+      const { data } = await this.octokit.orgs.get({ org: this.org });
+      return data;
+    });
+  }
+
+  /** Members who have not enabled two-factor authentication; only visible to owners */
+  getMembersWithout2FA(): Promise<OrgMember[]> {
+    return this.memoize('members-2fa-disabled', () =>
+      this.octokit.paginate(this.octokit.orgs.listMembers, { org: this.org, filter: '2fa_disabled', per_page: 100 })
+    );
+  }
+
+  getOutsideCollaborators(): Promise<OrgMember[]> {
+    return this.memoize('outside-collaborators', () =>
+      this.octokit.paginate(this.octokit.orgs.listOutsideCollaborators, { org: this.org, per_page: 100 })
+    );
+  }
+
+  getActionsPermissions(): Promise<OrgActionsPermissions> {
+    return this.memoize('actions-permissions', async () => {
+      const { data } = await this.octokit.actions.getGithubActionsPermissionsOrganization({ org: this.org });
+      return data;
+    });
+  }
+
+  getWorkflowPermissions(): Promise<OrgWorkflowPermissions> {
+    return this.memoize('workflow-permissions', async () => {
+      const { data } = await this.octokit.actions.getGithubActionsDefaultWorkflowPermissionsOrganization({ org: this.org });
+      return data;
+    });
+  }
+
+  private memoize<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+    let cached = this.cache.get(key) as Promise<T> | undefined;
+    if (!cached) {
+      cached = fetch();
+      this.cache.set(key, cached);
+    }
+    return cached;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parsePolicy } from './policy';
+
+const suppression = {
+  repo: 'acme',
+  justification: 'Contractors are reviewed quarterly',
+  approver: 'security@acme.example',
+  expires: '2099-01-01',
+};
+
+describe('parsePolicy', () => {
+  it('accepts severities and suppressions for organization findings', () => {
+    const policy = parsePolicy({
+      version: 1,
+      severities: { 'org-2fa-not-required': 'high' },
+      suppressions: [{ findingId: 'org-outside-collaborators', ...suppression }],
+    });
+
+    expect(policy.severities).toEqual({ 'org-2fa-not-required': 'high' });
+    expect(policy.suppressions[0].findingId).toBe('org-outside-collaborators');
+  });
+
+  it('fills in defaults for an empty policy', () => {
+    expect(parsePolicy({})).toEqual({ version: 1, rules: [], suppressions: [] });
+  });
+
+  it('rejects thresholds outside their range', () => {
+    expect(() => parsePolicy({ thresholds: { minApprovingReviews: 7 } })).toThrow(/minApprovingReviews/);
+    expect(() => parsePolicy({ thresholds: { maxAdmins: -1 } })).toThrow(/maxAdmins/);
+    expect(() => parsePolicy({ thresholds: { maxCodeScanningAgeDays: 1.5 } })).toThrow(/maxCodeScanningAgeDays/);
+    expect(() => parsePolicy({ thresholds: { maxStaleness: 3 } })).toThrow(/maxStaleness/);
+  });
+
+  it('rejects unknown keys, versions and severities', () => {
+    expect(() => parsePolicy({ version: 2 })).toThrow(/version/);
+    expect(() => parsePolicy({ suppress: [] })).toThrow(/suppress/);
+    expect(() => parsePolicy({ severities: { 'bp-not-enabled': 'urgent' } })).toThrow(/bp-not-enabled/);
+    expect(() => parsePolicy({ rules: [{ name: 'prod', match: { team: ['platform'] } }] })).toThrow(/team/);
+  });
+
+  it('rejects unknown checks and categories', () => {
+    expect(() => parsePolicy({ checks: { include: ['branch-protection', 'no-such-check'] } }))
+      .toThrow('Invalid policy defaults: unknown check or category: no-such-check');
+    expect(() => parsePolicy({ rules: [{ name: 'prod', match: { topics: ['production'] }, checks: { exclude: ['nope'] } }] }))
+      .toThrow('Invalid rule "prod": unknown check or category: nope');
+  });
+
+  it('rejects suppressions without an approver or a valid expiry date', () => {
+    expect(() => parsePolicy({ suppressions: [{ findingId: 'bp-not-enabled', ...suppression, approver: undefined }] })).toThrow(/approver/);
+    expect(() => parsePolicy({ suppressions: [{ findingId: 'bp-not-enabled', ...suppression, expires: 'next quarter' }] }))
+      .toThrow('expires must be an ISO 8601 date');
+  });
+
+  it('rejects unknown finding IDs', () => {
+    expect(() => parsePolicy({ version: 1, severities: { 'org-does-not-exist': 'high' } }))
+      .toThrow('Invalid policy defaults: unknown finding ID: org-does-not-exist');
+    expect(() => parsePolicy({ rules: [{ name: 'prod', match: {}, severities: { 'bp-does-not-exist': 'low' } }] }))
+      .toThrow('Invalid rule "prod": unknown finding ID: bp-does-not-exist');
+    expect(() => parsePolicy({ version: 1, suppressions: [{ findingId: 'org-does-not-exist', ...suppression }] }))
+      .toThrow('Invalid suppression: unknown finding ID: org-does-not-exist');
+  });
+});
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Policy, PolicyOverrides, PolicyRule, PolicyThresholds, PolicySchema, ReleasePatterns, Severity, DEFAULT_POLICY_THRESHOLDS, DEFAULT_RELEASE_PATTERNS } from './types';
+import { findUnknownChecks, getCheckDefinitions, getOrgCheckDefinitions } from './checks/registry';
+import { matchesGlob } from './utils/glob';
+
+export const POLICY_FILE_NAMES = ['.ghsec.yml', '.ghsec.yaml', '.ghsec.json'];
+
+export const DEFAULTS_RULE_NAME = 'defaults';
+
+// Findings whose trigger condition is controlled by each threshold
+const THRESHOLD_FINDINGS: Record<keyof PolicyThresholds, string[]> = {
+  maxAdmins: ['ac-too-many-admins'],
+  minApprovingReviews: ['bp-low-review-count', 'rb-low-review-count'],
+  deployKeyMaxAgeDays: ['ac-old-deploy-keys'],
+  minCodeownersCoverage: ['co-low-coverage'],
+  maxCodeScanningAgeDays: ['sf-code-scanning-stale'],
+  criticalRemediationDays: ['dep-remediation-sla-breached'],
+  highRemediationDays: ['dep-remediation-sla-breached'],
+  mediumRemediationDays: ['dep-remediation-sla-breached'],
+  lowRemediationDays: ['dep-remediation-sla-breached'],
+};
+
+export interface PolicyRepoContext {
+  owner: string;
+  fullName: string;
+  topics: string[];
+}
+
+export interface ResolvedPolicy {
+  thresholds: PolicyThresholds;
+  releases: ReleasePatterns;
+  severities: Record<string, Severity>;
+  include?: string[];
+  exclude: string[];
+  /** Name of the policy rule that last changed each finding's threshold or severity */
+  findingRules: Record<string, string>;
+}
+
+export function parsePolicy(input: unknown): Policy {
+  const policy = PolicySchema.parse(input) as Policy;
+
+  const knownFindings = new Set([...getCheckDefinitions(), ...getOrgCheckDefinitions()].flatMap(check => check.findingIds));
+  for (const section of [policy, ...policy.rules]) {
+    const label = 'name' in section ? `rule "${section.name}"` : 'policy defaults';
+    const unknownChecks = findUnknownChecks([...(section.checks?.include || []), ...(section.checks?.exclude || [])]);
+    if (unknownChecks.length > 0) {
+      throw new Error(`Invalid ${label}: unknown check or category: ${unknownChecks.join(', ')}`);
+    }
+    const unknownFindings = Object.keys(section.severities || {}).filter(id => !knownFindings.has(id));
+    if (unknownFindings.length > 0) {
+      throw new Error(`Invalid ${label}: unknown finding ID: ${unknownFindings.join(', ')}`);
+    }
+  }
+
+  const unknownSuppressions = policy.suppressions.filter(s => !knownFindings.has(s.findingId)).map(s => s.findingId);
+  if (unknownSuppressions.length > 0) {
+    throw new Error(`Invalid suppression: unknown finding ID: ${unknownSuppressions.join(', ')}`);
+  }
+
+  return policy;
+}
+
+export function loadPolicyFile(filePath: string): Policy {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const raw = filePath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  try {
+    return parsePolicy(raw ?? {});
+  } catch (error: any) {
+    throw new Error(`Invalid policy file ${filePath}: ${error.message}`);
+  }
+}
+
+export function findPolicyFile(directory: string): string | undefined {
+  for (const name of POLICY_FILE_NAMES) {
+    const candidate = path.join(directory, name);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/** `releases` seeds the release patterns, e.g. from the scanner config; the policy overrides them */
+export function resolvePolicy(policy: Policy | undefined, repo: PolicyRepoContext, releases: ReleasePatterns = DEFAULT_RELEASE_PATTERNS): ResolvedPolicy {
+  const resolved: ResolvedPolicy = {
+    thresholds: { ...DEFAULT_POLICY_THRESHOLDS },
+    releases: { ...releases },
+    severities: {},
+    exclude: [],
+    findingRules: {},
+  };
+  if (!policy) return resolved;
+
+  applyOverrides(resolved, policy, DEFAULTS_RULE_NAME);
+  for (const rule of policy.rules) {
+    if (ruleMatches(rule, repo)) applyOverrides(resolved, rule, rule.name);
+  }
+  return resolved;
+}
+
+function ruleMatches(rule: PolicyRule, repo: PolicyRepoContext): boolean {
+  const { orgs, repos, topics } = rule.match;
+  if (orgs && !orgs.some(org => org.toLowerCase() === repo.owner.toLowerCase())) return false;
+  if (repos && !repos.some(pattern => matchesGlob(repo.fullName, pattern))) return false;
+  if (topics && !topics.some(topic => repo.topics.includes(topic))) return false;
+  return true;
+}
+
+function applyOverrides(resolved: ResolvedPolicy, overrides: PolicyOverrides, ruleName: string): void {
+  for (const [key, value] of Object.entries(overrides.thresholds || {}) as Array<[keyof PolicyThresholds, number | undefined]>) {
+    if (value === undefined) continue;
+    resolved.thresholds[key] = value;
+    for (const findingId of THRESHOLD_FINDINGS[key]) resolved.findingRules[findingId] = ruleName;
+  }
+  if (overrides.releases?.branches) resolved.releases.branches = overrides.releases.branches;
+  if (overrides.releases?.tags) resolved.releases.tags = overrides.releases.tags;
+  for (const [findingId, severity] of Object.entries(overrides.severities || {})) {
+    resolved.severities[findingId] = severity;
+    resolved.findingRules[findingId] = ruleName;
+  }
+  if (overrides.checks?.include) resolved.include = overrides.checks.include;
+  if (overrides.checks?.exclude) resolved.exclude = [...resolved.exclude, ...overrides.checks.exclude];
+}
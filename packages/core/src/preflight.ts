@@ -0,0 +1,99 @@
+import { Octokit } from '@octokit/rest';
+import { CheckCoverage } from './types';
+import { CheckDefinition } from './checks/registry';
+import { GitHubCredentials } from './auth';
+import { ServerInfo } from './server';
+
+export type CapabilityStatus = 'available' | 'degraded' | 'unavailable';
+
+export interface TokenInfo {
+  type: 'classic' | 'fine-grained' | 'app-installation' | 'unknown';
+  /** Authenticated user; absent for app installations */
+  login?: string;
+  /** OAuth scopes of a classic token */
+  scopes?: string[];
+  expiresAt?: Date;
+}
+
+export interface CheckCapability {
+  checkId: string;
+  name: string;
+  status: CapabilityStatus;
+  requiredPermissions: string[];
+  reason?: string;
+}
+
+export interface FixCapability {
+  findingId: string;
+  status: CapabilityStatus;
+  requiredPermissions: string[];
+  reason?: string;
+}
+
+export interface PreflightReport {
+  server: ServerInfo;
+  token: TokenInfo;
+  /** Repository the checks were probed against */
+  repository?: string;
+  checks: CheckCapability[];
+  fixes: FixCapability[];
+  /** Share of checks that will run, 0-100 */
+  coverage: number;
+  warnings: string[];
+}
+
+const EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Identifies the credential type. Classic tokens report their scopes in the
+ * x-oauth-scopes header; fine-grained tokens do not expose their permissions,
+ * so for them only the repository probe tells what will work.
+ */
+export async function inspectToken(octokit: Octokit, credentials: GitHubCredentials): Promise<TokenInfo> {
+  if (credentials.app) return { type: 'app-installation' };
+
+  const { data, headers } = await octokit.users.getAuthenticated();
+  const expiration = headers['github-authentication-token-expiration'] as string | undefined;
+  const scopes = headers['x-oauth-scopes'] as string | undefined;
+  return {
+    type: scopes !== undefined ? 'classic' : credentials.token?.startsWith('github_pat_') ? 'fine-grained' : 'unknown',
+    login: data.login,
+    scopes: scopes !== undefined ? scopes.split(',').map(scope => scope.trim()).filter(Boolean) : undefined,
+    expiresAt: expiration ? new Date(expiration) : undefined,
+  };
+}
+
+export function tokenWarnings(token: TokenInfo): string[] {
+  const warnings: string[] = [];
+  if (token.scopes && !token.scopes.includes('repo')) {
+    warnings.push(token.scopes.includes('public_repo')
+      ? 'Classic token has public_repo but not repo: private repositories cannot be scanned.'
+      : 'Classic token lacks the repo scope: only public repository data is readable.');
+  }
+  if (token.expiresAt && token.expiresAt.getTime() - Date.now() < EXPIRY_WARNING_MS) {
+    warnings.push(`Token expires on ${token.expiresAt.toISOString().slice(0, 10)}.`);
+  }
+  return warnings;
+}
+
+/** Maps a check's coverage on the probed repository to whether it will work */
+export function checkCapability(check: CheckDefinition, coverage: CheckCoverage): CheckCapability {
+  const base = { checkId: check.id, name: check.name, requiredPermissions: check.requiredPermissions };
+  if (coverage.status === 'passed' || coverage.status === 'failed') return { ...base, status: 'available' };
+
+  switch (coverage.reason) {
+    case 'permission':
+      return { ...base, status: 'unavailable', reason: `Token was refused (HTTP ${coverage.httpStatus}); needs ${check.requiredPermissions.join(', ') || 'no extra permissions'}` };
+    case 'unsupported':
+      return { ...base, status: 'unavailable', reason: coverage.message };
+    default:
+      return { ...base, status: 'degraded', reason: `${coverage.message || 'Could not be evaluated'}; the token may lack ${check.requiredPermissions.join(', ')} or the feature is not enabled on this repository` };
+  }
+}
+
+/** Fixes change repository settings, so they need admin access to the repository */
+export function fixCapability(findingId: string, requiredPermissions: string[], admin: boolean | undefined): FixCapability {
+  if (admin === true) return { findingId, status: 'available', requiredPermissions };
+  if (admin === false) return { findingId, status: 'unavailable', requiredPermissions, reason: 'Token does not have admin access to the repository' };
+  return { findingId, status: 'degraded', requiredPermissions, reason: 'Could not determine write access; the fix may be refused' };
+}
@@ -0,0 +1,109 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { Octokit } from '@octokit/rest';
+import { RateLimiter, RateLimitEvent, RateLimitOptions } from './rate-limit';
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  message?: string;
+}
+
+describe('RateLimiter', () => {
+  let server: http.Server;
+  let responses: StubResponse[];
+  let requests: number[];
+
+  beforeEach(async () => {
+    responses = [];
+    requests = [];
+    // Answers each request with the next queued response, then with 200
+    server = http.createServer((_req, res) => {
+      requests.push(Date.now());
+      const { status, headers = {}, message = 'ok' } = responses.shift() ?? { status: 200 };
+      res.writeHead(status, { 'content-type': 'application/json', ...headers });
+      res.end(JSON.stringify({ message }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function client(options: RateLimitOptions = {}): { octokit: Octokit; events: RateLimitEvent[] } {
+    const events: RateLimitEvent[] = [];
+    const limiter = new RateLimiter({ ...options, onRateLimit: event => events.push(event) });
+    const octokit = limiter.install(new Octokit({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }));
+    return { octokit, events };
+  }
+
+  it('waits for the reset time after a 403 with x-ratelimit-remaining: 0', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 1;
+    responses.push({ status: 403, headers: { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }, message: 'API rate limit exceeded' });
+    const { octokit, events } = client();
+
+    const { status } = await octokit.request('GET /rate_limit');
+
+    expect(status).toBe(200);
+    expect(requests).toHaveLength(2);
+    expect(events).toMatchObject([{ type: 'primary', method: 'GET', url: '/rate_limit', attempt: 1 }]);
+    // One second past the reset, allowing for clock reads a few milliseconds apart
+    expect(Math.abs(events[0].resumeAt.getTime() - (reset * 1000 + 1000))).toBeLessThan(50);
+    expect(requests[1]).toBeGreaterThanOrEqual(reset * 1000 + 950);
+  });
+
+  it('honours retry-after on a 429', async () => {
+    responses.push({ status: 429, headers: { 'retry-after': '1' }, message: 'Too many requests' });
+    const { octokit, events } = client();
+
+    await octokit.request('GET /rate_limit');
+
+    expect(events).toMatchObject([{ type: 'secondary', waitMs: 1000 }]);
+    expect(requests[1] - requests[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it('backs off exponentially on secondary limits without retry-after', async () => {
+    const secondary = { status: 403, message: 'You have exceeded a secondary rate limit' };
+    responses.push(secondary, secondary);
+    const { octokit, events } = client({ baseBackoffMs: 20 });
+
+    await octokit.request('GET /rate_limit');
+
+    expect(events.map(event => [event.type, event.waitMs, event.attempt])).toEqual([['secondary', 20, 1], ['secondary', 40, 2]]);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('surfaces the error once retries are used up', async () => {
+    const secondary = { status: 403, message: 'You have exceeded a secondary rate limit' };
+    responses.push(secondary, secondary, secondary);
+    const { octokit } = client({ baseBackoffMs: 1, maxRetries: 2 });
+
+    await expect(octokit.request('GET /rate_limit')).rejects.toMatchObject({ status: 403 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry a 403 that is not a rate limit', async () => {
+    responses.push({ status: 403, message: 'Resource not accessible by integration' });
+    const { octokit, events } = client();
+
+    await expect(octokit.request('GET /rate_limit')).rejects.toMatchObject({ status: 403 });
+    expect(events).toEqual([]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    responses.push({ status: 429, headers: { 'retry-after': '60' } });
+    const { octokit } = client();
+    const controller = new AbortController();
+    const started = Date.now();
+
+    const request = octokit.request('GET /rate_limit', { request: { signal: controller.signal } });
+    setTimeout(() => controller.abort(new Error('cancelled')), 50);
+
+    await expect(request).rejects.toThrow('cancelled');
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(requests).toHaveLength(1);
+  });
+});
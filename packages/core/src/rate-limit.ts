@@ -0,0 +1,161 @@
+import { Octokit } from '@octokit/rest';
+
+export interface RateLimitOptions {
+  /** Retries for a rate limited request before the error is surfaced */
+  maxRetries?: number;
+  /** Pause all requests once this many primary rate limit requests remain */
+  minRemaining?: number;
+  /** Backoff used for secondary rate limits that do not send a retry-after header */
+  baseBackoffMs?: number;
+  /** Longest pause accepted before giving up on a request */
+  maxWaitMs?: number;
+  onRateLimit?: (event: RateLimitEvent) => void;
+}
+
+export interface RateLimitEvent {
+  type: 'primary' | 'secondary';
+  method: string;
+  url: string;
+  waitMs: number;
+  resumeAt: Date;
+  attempt: number;
+}
+
+export interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: Required<Omit<RateLimitOptions, 'onRateLimit'>> = {
+  maxRetries: 3,
+  minRemaining: 0,
+  baseBackoffMs: 60 * 1000,
+  maxWaitMs: 60 * 60 * 1000,
+};
+
+type Headers = Record<string, string | number | undefined>;
+
+/**
+ * Tracks the primary rate limit reported in response headers and retries
+ * requests rejected by primary or secondary rate limits. Requests made while
+ * the primary limit is exhausted wait until it resets, so every concurrent
+ * scan sharing the Octokit instance pauses and resumes together.
+ */
+export class RateLimiter {
+  private options: Required<Omit<RateLimitOptions, 'onRateLimit'>>;
+  private onRateLimit?: (event: RateLimitEvent) => void;
+  private state: RateLimitState = {};
+  private resumeAt = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    const { onRateLimit, ...rest } = options;
+    this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...definedOnly(rest) };
+    this.onRateLimit = onRateLimit;
+  }
+
+  getState(): RateLimitState {
+    return { ...this.state };
+  }
+
+  install(octokit: Octokit): Octokit {
+    octokit.hook.wrap('request', async (request, options) => {
+      const method = options.method;
+      const url = options.url;
+
+      const signal = options.request?.signal as AbortSignal | undefined;
+
+      for (let attempt = 1; ; attempt++) {
+        await this.throttle(signal);
+        try {
+          const response = await request(options);
+          const pausedUntil = this.update(response.headers as Headers);
+          if (pausedUntil) {
+            this.onRateLimit?.({ type: 'primary', method, url, waitMs: pausedUntil - Date.now(), resumeAt: new Date(pausedUntil), attempt });
+          }
+          return response;
+        } catch (error: any) {
+          const headers: Headers = error?.response?.headers || {};
+          this.update(headers);
+
+          const retry = attempt <= this.options.maxRetries ? this.retryAfter(error?.status, headers, error?.message, attempt) : undefined;
+          if (!retry || retry.waitMs > this.options.maxWaitMs) throw error;
+
+          const resumeAt = Date.now() + retry.waitMs;
+          this.resumeAt = Math.max(this.resumeAt, resumeAt);
+          this.onRateLimit?.({ type: retry.type, method, url, waitMs: retry.waitMs, resumeAt: new Date(resumeAt), attempt });
+        }
+      }
+    });
+    return octokit;
+  }
+
+  private async throttle(signal?: AbortSignal): Promise<void> {
+    const waitMs = this.resumeAt - Date.now();
+    if (waitMs > 0) await sleep(waitMs, signal);
+  }
+
+  /** Records rate limit headers; returns the resume time when this response started a pause */
+  private update(headers: Headers): number | undefined {
+    const limit = numberHeader(headers['x-ratelimit-limit']);
+    const remaining = numberHeader(headers['x-ratelimit-remaining']);
+    const reset = numberHeader(headers['x-ratelimit-reset']);
+    if (limit !== undefined) this.state.limit = limit;
+    if (remaining !== undefined) this.state.remaining = remaining;
+    if (reset !== undefined) this.state.resetAt = new Date(reset * 1000);
+
+    // Pause before the next request instead of letting it fail
+    const pauseUntil = reset !== undefined ? reset * 1000 + 1000 : 0;
+    if (remaining !== undefined && remaining <= this.options.minRemaining && pauseUntil > Math.max(this.resumeAt, Date.now())) {
+      this.resumeAt = pauseUntil;
+      return pauseUntil;
+    }
+    return undefined;
+  }
+
+  private retryAfter(status: number | undefined, headers: Headers, message = '', attempt: number): { type: RateLimitEvent['type']; waitMs: number } | undefined {
+    if (status !== 403 && status !== 429) return undefined;
+
+    const retryAfter = numberHeader(headers['retry-after']);
+    const remaining = numberHeader(headers['x-ratelimit-remaining']);
+    const reset = numberHeader(headers['x-ratelimit-reset']);
+
+    if (remaining === 0 && reset !== undefined && retryAfter === undefined) {
+      return { type: 'primary', waitMs: Math.max(0, reset * 1000 - Date.now()) + 1000 };
+    }
+
+    const isSecondary = status === 429 || retryAfter !== undefined || /secondary rate limit|abuse/i.test(message);
+    if (!isSecondary) return undefined;
+
+    const waitMs = retryAfter !== undefined
+      ? retryAfter * 1000
+      : this.options.baseBackoffMs * 2 ** (attempt - 1);
+    return { type: 'secondary', waitMs };
+  }
+}
+
+function numberHeader(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/** Waits `ms`, or rejects with the abort reason as soon as `signal` aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
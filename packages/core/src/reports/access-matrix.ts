@@ -0,0 +1,53 @@
+import { RepoAccessReview, FailedRepo } from '../types';
+import { describeGrants } from '../access';
+
+const CSV_COLUMNS = ['repository', 'user', 'affiliation', 'permission', 'role', 'granted_via', 'reviewed_at'];
+
+/** One row per user and repository, for loading into a spreadsheet during an access review */
+export function formatAccessMatrixCSV(reviews: RepoAccessReview[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  for (const review of reviews) {
+    for (const user of review.users) {
+      rows.push([review.repository, user.login, user.affiliation, user.permission, user.role, describeGrants(user), review.reviewedAt.toISOString()].map(csvField).join(','));
+    }
+  }
+  return rows.join('\n');
+}
+
+/** A users × repositories matrix of roles, followed by each repository's teams and grants */
+export function formatAccessMatrixMarkdown(reviews: RepoAccessReview[], failedRepos: FailedRepo[] = []): string {
+  const lines: string[] = [];
+  lines.push('# Repository Access Review', '', `**Generated:** ${new Date().toISOString()}`, `**Repositories Reviewed:** ${reviews.length}`);
+  if (failedRepos.length > 0) lines.push(`**Repositories Not Reviewed:** ${failedRepos.length}`);
+
+  const logins = [...new Set(reviews.flatMap(review => review.users.map(user => user.login)))].sort((a, b) => a.localeCompare(b));
+  lines.push('', '## Access Matrix', '', `| User | ${reviews.map(review => review.repository).join(' | ')} |`, `|------|${reviews.map(() => '------').join('|')}|`);
+  for (const login of logins) {
+    const cells = reviews.map(review => {
+      const user = review.users.find(candidate => candidate.login === login);
+      return user ? (user.role === user.permission ? user.role : `${user.role} (${user.permission})`) : '—';
+    });
+    lines.push(`| ${login} | ${cells.join(' | ')} |`);
+  }
+
+  for (const review of reviews) {
+    lines.push('', `## ${review.repository}`, '');
+    if (review.teams.length > 0) {
+      lines.push('**Teams:**', '', '| Team | Role | Members |', '|------|------|---------|');
+      for (const team of review.teams) lines.push(`| ${team.slug}${team.parent ? ` (child of ${team.parent})` : ''} | ${team.role} | ${team.members.join(', ') || '—'} |`);
+      lines.push('');
+    }
+    lines.push('**Users:**', '', '| User | Affiliation | Role | Granted via |', '|------|-------------|------|-------------|');
+    for (const user of review.users) lines.push(`| ${user.login} | ${user.affiliation} | ${user.role === user.permission ? user.role : `${user.role} (${user.permission})`} | ${describeGrants(user)} |`);
+  }
+
+  if (failedRepos.length > 0) {
+    lines.push('', '## Repositories Not Reviewed', '');
+    for (const failed of failedRepos) lines.push(`- ${failed.repository}: ${failed.httpStatus ? `HTTP ${failed.httpStatus}: ` : ''}${failed.error}`);
+  }
+  return lines.join('\n');
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -1,4 +1,7 @@
-import { RepoScanResult, SOC2Report, SOC2Control, SecurityFinding } from '../types';
+import { RepoScanResult, OrgScanResult, SOC2Report, SOC2Control, SecurityFinding, SuppressedFinding, FailedRepo, FindingLocation } from '../types';
+import { getCheckDefinitions, getOrgCheckDefinitions } from '../checks/registry';
+import { shortRef } from '../branch-rules';
+import { formatLocation } from '../checks/workflows';
 
 const SOC2_CONTROLS: Record<string, { name: string; description: string }> = {
   'CC6.1': { name: 'Logical and Physical Access Controls', description: 'The entity implements logical access security software, infrastructure, and architectures over protected information assets.' },
@@ -9,54 +12,95 @@ const SOC2_CONTROLS: Record<string, { name: string; description: string }> = {
   'CC8.1': { name: 'Change Management', description: 'The entity authorizes, designs, develops or acquires, configures, documents, tests, approves, and implements changes to infrastructure, data, software, and procedures.' },
 };
 
-export function generateSOC2Report(scanResults: RepoScanResult[]): SOC2Report {
+/** Organization results, when given, contribute their findings and evidence under the organization login */
+export function generateSOC2Report(scanResults: RepoScanResult[], failedRepos: FailedRepo[] = [], orgResults: OrgScanResult[] = []): SOC2Report {
   const controlFindings: Record<string, SecurityFinding[]> = {};
+  const controlAcceptedRisks: Record<string, SuppressedFinding[]> = {};
   const controlEvidence: Record<string, string[]> = {};
+  const controlGaps: Record<string, string[]> = {};
+  const checks = new Map([...getCheckDefinitions(), ...getOrgCheckDefinitions()].map(check => [check.id, check]));
 
   for (const controlId of Object.keys(SOC2_CONTROLS)) {
     controlFindings[controlId] = [];
+    controlAcceptedRisks[controlId] = [];
     controlEvidence[controlId] = [];
+    // A repository that could not be scanned leaves a gap in every control
+    controlGaps[controlId] = failedRepos.map(failed => `${failed.repository}: Repository could not be scanned (${describeFailure(failed.httpStatus, failed.error)}).`);
   }
 
-  for (const result of scanResults) {
+  const scanned: Array<{ name: string; result: Pick<RepoScanResult, 'findings' | 'suppressedFindings' | 'passes' | 'coverage'> }> = [
+    ...orgResults.map(result => ({ name: result.organization.login, result })),
+    ...scanResults.map(result => ({ name: result.repository.fullName, result })),
+  ];
+
+  for (const { name: repoName, result } of scanned) {
     for (const finding of result.findings) {
       if (finding.soc2Control && controlFindings[finding.soc2Control]) {
-        controlFindings[finding.soc2Control].push({ ...finding, description: `[${result.repository.fullName}] ${finding.description}` });
+        controlFindings[finding.soc2Control].push({ ...finding, description: `[${scope(repoName, finding.ref, finding.location)}] ${finding.description}` });
       }
     }
 
-    const repoName = result.repository.fullName;
-    if (!result.findings.some(f => f.id === 'bp-not-enabled')) controlEvidence['CC6.1'].push(`${repoName}: Branch protection is enabled on default branch.`);
-    if (!result.findings.some(f => f.id === 'sf-no-dependabot-alerts')) controlEvidence['CC7.1'].push(`${repoName}: Dependabot alerts are enabled for vulnerability detection.`);
-    if (!result.findings.some(f => f.id === 'sf-no-code-scanning')) controlEvidence['CC7.1'].push(`${repoName}: Code scanning is configured for security analysis.`);
-    if (!result.findings.some(f => f.id === 'sf-no-security-policy')) controlEvidence['CC7.4'].push(`${repoName}: Security policy (SECURITY.md) is in place.`);
-    if (!result.findings.some(f => f.id === 'sf-no-secret-scanning')) controlEvidence['CC6.7'].push(`${repoName}: Secret scanning is enabled to prevent credential leaks.`);
+    for (const finding of result.suppressedFindings || []) {
+      if (finding.soc2Control && controlAcceptedRisks[finding.soc2Control]) {
+        controlAcceptedRisks[finding.soc2Control].push({ ...finding, description: `[${scope(repoName, finding.ref, finding.location)}] ${finding.description}` });
+      }
+    }
+
+    for (const coverage of result.coverage.checks) {
+      if (coverage.status !== 'skipped' && coverage.status !== 'errored') continue;
+      const check = checks.get(coverage.checkId);
+      if (!check?.soc2Control || !controlGaps[check.soc2Control]) continue;
+      controlGaps[check.soc2Control].push(`${repoName}: ${check.name} check ${coverage.status} (${describeFailure(coverage.httpStatus, coverage.message)}).`);
+    }
+
+    // Evidence comes only from conditions a check actually verified
+    for (const pass of result.passes) {
+      if (pass.soc2Control && controlEvidence[pass.soc2Control]) {
+        controlEvidence[pass.soc2Control].push(`${scope(repoName, pass.ref)}: ${pass.title} (${pass.observedValue}).`);
+      }
+    }
   }
 
   const controls: SOC2Control[] = Object.entries(SOC2_CONTROLS).map(([id, info]) => {
     const findings = controlFindings[id];
     const evidence = controlEvidence[id];
+    const coverageGaps = controlGaps[id];
     const criticalOrHigh = findings.filter(f => f.severity === 'critical' || f.severity === 'high');
-    let status: 'compliant' | 'partial' | 'non-compliant';
-    if (criticalOrHigh.length === 0 && findings.length <= 2) status = 'compliant';
+    let status: SOC2Control['status'];
+    if (criticalOrHigh.length === 0 && findings.length <= 2) status = coverageGaps.length > 0 ? 'incomplete' : 'compliant';
     else if (criticalOrHigh.length === 0) status = 'partial';
     else status = 'non-compliant';
-    return { id, name: info.name, description: info.description, status, findings, evidence };
+    return { id, name: info.name, description: info.description, status, findings, acceptedRisks: controlAcceptedRisks[id], evidence, coverageGaps };
   });
 
   const compliantCount = controls.filter(c => c.status === 'compliant').length;
   const partialCount = controls.filter(c => c.status === 'partial').length;
   const overallCompliance = Math.round(((compliantCount + partialCount * 0.5) / controls.length) * 100);
 
-  return { generatedAt: new Date(), repositories: scanResults.map(r => r.repository.fullName), controls, overallCompliance };
+  const report: SOC2Report = { generatedAt: new Date(), repositories: scanResults.map(r => r.repository.fullName), failedRepositories: failedRepos, controls, overallCompliance };
+  if (orgResults.length > 0) report.organizations = orgResults.map(result => result.organization.login);
+  return report;
+}
+
+function describeFailure(httpStatus: number | undefined, message: string | undefined): string {
+  const reason = message || 'unknown error';
+  return httpStatus ? `HTTP ${httpStatus}: ${reason}` : reason;
 }
 
 export function formatSOC2ReportMarkdown(report: SOC2Report): string {
   const lines: string[] = [];
-  lines.push('# SOC 2 Compliance Report', '', `**Generated:** ${report.generatedAt.toISOString()}`, `**Repositories Scanned:** ${report.repositories.length}`, `**Overall Compliance:** ${report.overallCompliance}%`, '', '---', '', '## Control Summary', '', '| Control | Name | Status |', '|---------|------|--------|');
+  const failedRepositories = report.failedRepositories;
+  lines.push('# SOC 2 Compliance Report', '', `**Generated:** ${report.generatedAt.toISOString()}`);
+  if (report.organizations) lines.push(`**Organizations Scanned:** ${report.organizations.join(', ')}`);
+  lines.push(`**Repositories Scanned:** ${report.repositories.length}`);
+  if (failedRepositories.length > 0) lines.push(`**Repositories Not Scanned:** ${failedRepositories.length}`);
+  lines.push(`**Overall Compliance:** ${report.overallCompliance}%`);
+  if (report.controls.some(c => c.coverageGaps.length > 0)) lines.push('', '> ⚠️ Evidence is incomplete: some checks could not run. Controls marked *incomplete* are not claimed as compliant.');
+  lines.push('', '---', '', '## Control Summary', '', '| Control | Name | Status |', '|---------|------|--------|');
   for (const control of report.controls) {
-    const statusEmoji = control.status === 'compliant' ? '✅' : control.status === 'partial' ? '⚠️' : '❌';
-    lines.push(`| ${control.id} | ${control.name} | ${statusEmoji} ${control.status} |`);
+    const statusEmoji = control.status === 'compliant' ? '✅' : control.status === 'partial' ? '⚠️' : control.status === 'incomplete' ? '❔' : '❌';
+    const accepted = control.acceptedRisks.length > 0 ? ` (${control.acceptedRisks.length} accepted risk${control.acceptedRisks.length === 1 ? '' : 's'})` : '';
+    lines.push(`| ${control.id} | ${control.name} | ${statusEmoji} ${control.status}${accepted} |`);
   }
   lines.push('', '---', '', '## Detailed Findings', '');
   for (const control of report.controls) {
@@ -75,13 +119,34 @@ export function formatSOC2ReportMarkdown(report: SOC2Report): string {
     } else {
       lines.push('*No findings for this control.*', '');
     }
+    if (control.coverageGaps.length > 0) {
+      lines.push('**Evidence Gaps:**');
+      for (const gap of control.coverageGaps) lines.push(`- ${gap}`);
+      lines.push('');
+    }
+    if (control.acceptedRisks.length > 0) {
+      lines.push('**Accepted Risks:**', '');
+      for (const finding of control.acceptedRisks) {
+        const { justification, approver, expires } = finding.suppression;
+        lines.push(`- ⚪ **${finding.title}** (${finding.severity}, accepted risk)`, `  - ${finding.description}`, `  - *Justification:* ${justification}`, `  - *Approved by:* ${approver} · *Expires:* ${expires}`, '');
+      }
+    }
     lines.push('---', '');
   }
   lines.push('## Repositories Included', '');
   for (const repo of report.repositories) lines.push(`- ${repo}`);
+  if (failedRepositories.length > 0) {
+    lines.push('', '## Repositories Not Scanned', '');
+    for (const failed of failedRepositories) lines.push(`- ${failed.repository}: ${describeFailure(failed.httpStatus, failed.error)}`);
+  }
   return lines.join('\n');
 }
 
 export function formatSOC2ReportJSON(report: SOC2Report): string {
   return JSON.stringify(report, null, 2);
 }
+
+/** Repository name, plus the release branch or tag for ref-specific results and the file for file-specific ones */
+function scope(repository: string, ref?: string, location?: FindingLocation): string {
+  return [repository, ref ? shortRef(ref) : undefined, location ? formatLocation(location) : undefined].filter(Boolean).join(' ');
+}
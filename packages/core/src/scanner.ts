@@ -1,17 +1,63 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { Octokit } from '@octokit/rest';
-import { ScannerConfig, RepoScanResult, SecurityFinding, Severity } from './types';
-import { checkBranchProtection } from './checks/branch-protection';
-import { checkSecurityFeatures, checkDependencyAlerts } from './checks/security-features';
-import { checkAccessControl } from './checks/access-control';
-import { checkRepositorySettings } from './checks/repository-settings';
+import { ScannerConfig, RepoScanResult, SecurityFinding, Severity, CheckCoverage, CheckMetadata, CheckResult, MultiRepoScanResult, PassedCheck, ScanCoverage, SkipReason, ScanOptions, SuppressedFinding, OrgScanResult, RepoAccessReview, FailedRepo, DEFAULT_RELEASE_PATTERNS } from './types';
+import { CheckDefinition, OrgCheckDefinition, getCheckDefinitions, selectChecks, selectOrgChecks } from './checks/registry';
+import { resolvePolicy, ResolvedPolicy } from './policy';
+import { applySuppressions } from './suppressions';
+import { ScanHistoryStore } from './history';
+import { findingKey } from './diff';
+import { RepoContext } from './context';
+import { LocalRepoContext } from './local-context';
+import { OrgContext } from './org-context';
+import { reviewRepoAccess } from './access';
+import { CheckSkippedError, InsufficientCoverageError, OfflineError, UnsupportedOnServerError } from './errors';
+import { RateLimiter, RateLimitState } from './rate-limit';
+import { mapWithConcurrency } from './utils/concurrency';
+import { getScoringModel, ScoringModel } from './scoring';
+import { createOctokit, detectServer, describeServer, isSupported, ServerInfo } from './server';
+import { checkCapability, fixCapability, inspectToken, tokenWarnings, PreflightReport } from './preflight';
+import { FIXABLE_FINDINGS, FIX_REQUIRED_PERMISSIONS } from './fixer';
+
+export const DEFAULT_SCAN_CONCURRENCY = 4;
+
+export interface RepoScanOutcome {
+  repository: string;
+  result?: RepoScanResult;
+  error?: Error;
+  /** The scan was aborted before this repository finished */
+  cancelled?: boolean;
+}
+
+// Signal of the scan issuing each request, so concurrent scans on one scanner cancel independently
+const scanSignal = new AsyncLocalStorage<AbortSignal | undefined>();
 
 export class GitHubSecurityScanner {
-  private octokit: Octokit;
+  private client?: Octokit;
   private config: ScannerConfig;
+  private history?: ScanHistoryStore;
+  private rateLimiter: RateLimiter;
+  private scoringModel: ScoringModel;
+  private server?: Promise<ServerInfo>;
 
   constructor(config: ScannerConfig) {
     this.config = config;
-    this.octokit = new Octokit({ auth: config.token });
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+    this.scoringModel = getScoringModel(config.scoring);
+    if (config.historyDir) this.history = new ScanHistoryStore(config.historyDir);
+    // Fail fast on unknown check IDs before any repository is scanned
+    selectChecks({ include: config.checks, exclude: config.excludeChecks });
+  }
+
+  /** Created on first use, so a scanner without credentials can still scan local checkouts */
+  private get octokit(): Octokit {
+    if (!this.client) {
+      this.client = this.rateLimiter.install(createOctokit({ token: this.config.token, app: this.config.app }, { baseUrl: this.config.baseUrl, apiVersion: this.config.apiVersion }));
+      this.client.hook.before('request', options => {
+        const signal = scanSignal.getStore();
+        if (signal) options.request = { ...options.request, signal };
+      });
+    }
+    return this.client;
   }
 
   async listAvailableRepos(): Promise<Array<{ owner: string; name: string; fullName: string }>> {
@@ -29,6 +75,14 @@ export class GitHubSecurityScanner {
           repos.push({ owner: repo.owner.login, name: repo.name, fullName: repo.full_name });
         }
       }
+    } else if (this.config.app) {
+      // Installation tokens have no user; list what the app was granted instead
+      const installationRepos = await this.octokit.paginate(this.octokit.apps.listReposAccessibleToInstallation, { per_page: 100 });
+      for (const repo of installationRepos) {
+        if (!this.config.includeArchived && repo.archived) continue;
+        if (!this.config.includeForks && repo.fork) continue;
+        repos.push({ owner: repo.owner.login, name: repo.name, fullName: repo.full_name });
+      }
     } else {
       const iterator = this.octokit.paginate.iterator(
         this.octokit.repos.listForAuthenticatedUser,
@@ -45,69 +99,380 @@ export class GitHubSecurityScanner {
     return repos;
   }
 
-  async scanRepository(owner: string, repo: string): Promise<RepoScanResult> {
-    const { data: repoData } = await this.octokit.repos.get({ owner, repo });
-    const allFindings: SecurityFinding[] = [];
+  /**
+   * Scans one repository. Progress is reported per check as it completes; when
+   * `signal` aborts, in-flight requests are cancelled and the scan rejects with
+   * the abort reason instead of returning a result built from partial checks.
+   */
+  scanRepository(owner: string, repo: string, options: ScanOptions = {}): Promise<RepoScanResult> {
+    return scanSignal.run(options.signal, async () => {
+      try {
+        return await this.scanRepositoryWithSignal(owner, repo, options);
+      } catch (error: any) {
+        if (!options.signal?.aborted) {
+          options.onProgress?.({ type: 'error', repository: `${owner}/${repo}`, error: error instanceof Error ? error : new Error(String(error)) });
+        }
+        throw error;
+      }
+    });
+  }
+
+  private async scanRepositoryWithSignal(owner: string, repo: string, options: ScanOptions): Promise<RepoScanResult> {
+    options.signal?.throwIfAborted();
+    const context = new RepoContext(this.octokit, owner, repo, { server: await this.getServerInfo() });
+    const repoData = await context.getRepository();
+    const repository: RepoScanResult['repository'] = {
+      owner,
+      name: repo,
+      fullName: repoData.full_name,
+      visibility: repoData.visibility as 'public' | 'private' | 'internal',
+      defaultBranch: repoData.default_branch,
+      url: repoData.html_url,
+    };
+    const result = await this.evaluateRepository(context, repository, this.resolvePolicyFor(owner, repoData.full_name, repoData.topics || []), options);
+
+    if (this.history) {
+      try {
+        await this.history.record(result);
+      } catch (error) {
+        // The scan itself succeeded; callers decide how to surface the lost history entry
+        result.historyError = error instanceof Error ? error.message : String(error);
+      }
+    }
 
-    const [branchProtectionFindings, securityFeatureFindings, dependencyFindings, accessControlFindings, repoSettingsFindings] = await Promise.all([
-      checkBranchProtection(this.octokit, owner, repo, repoData.default_branch),
-      checkSecurityFeatures(this.octokit, owner, repo),
-      checkDependencyAlerts(this.octokit, owner, repo),
-      checkAccessControl(this.octokit, owner, repo),
-      checkRepositorySettings(this.octokit, owner, repo),
-    ]);
+    options.onProgress?.({ type: 'repo-finished', repository: repository.fullName, result });
+    return result;
+  }
 
-    allFindings.push(...branchProtectionFindings, ...securityFeatureFindings, ...dependencyFindings, ...accessControlFindings, ...repoSettingsFindings);
+  /**
+   * Scans a local git checkout without calling the API, so no credentials are
+   * needed. File-based checks read the working tree; checks that need the API
+   * are reported as skipped with reason `offline`. The repository name comes from the `origin`
+   * remote, for matching policy rules and suppressions. Results are not recorded
+   * in scan history.
+   */
+  async scanLocalRepository(directory: string, options: ScanOptions = {}): Promise<RepoScanResult> {
+    const context = await LocalRepoContext.open(directory);
+    const { repository } = context;
+    try {
+      const result = await this.evaluateRepository(context, repository, this.resolvePolicyFor(repository.owner, repository.fullName, []), options);
+      options.onProgress?.({ type: 'repo-finished', repository: repository.fullName, result });
+      return result;
+    } catch (error: any) {
+      if (!options.signal?.aborted) {
+        options.onProgress?.({ type: 'error', repository: repository.fullName, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+      throw error;
+    }
+  }
 
+  /** Runs the selected checks against one repository and scores what they found */
+  private async evaluateRepository(context: RepoContext, repository: RepoScanResult['repository'], policy: ResolvedPolicy, { signal, onProgress }: ScanOptions): Promise<RepoScanResult> {
     const severityOrder: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
     const thresholdIndex = severityOrder.indexOf(this.config.severityThreshold || 'low');
-    const filteredFindings = allFindings.filter(f => severityOrder.indexOf(f.severity) <= thresholdIndex);
-
-    const summary = {
-      critical: filteredFindings.filter(f => f.severity === 'critical').length,
-      high: filteredFindings.filter(f => f.severity === 'high').length,
-      medium: filteredFindings.filter(f => f.severity === 'medium').length,
-      low: filteredFindings.filter(f => f.severity === 'low').length,
-      info: filteredFindings.filter(f => f.severity === 'info').length,
-      passed: 0,
-    };
 
-    return {
-      repository: {
-        owner,
-        name: repo,
-        fullName: repoData.full_name,
-        visibility: repoData.visibility as 'public' | 'private' | 'internal',
-        defaultBranch: repoData.default_branch,
-        url: repoData.html_url,
-      },
+    const checks = this.checksFor(policy);
+    onProgress?.({ type: 'repo-started', repository: repository.fullName, checks: checks.length });
+
+    const checkRuns = await Promise.all(checks.map(async check => {
+      const run = await this.runCheck(check, context.server, () => check.run(context, policy.thresholds, policy.releases));
+      const findings = run.findings.map(finding => this.applyPolicy(finding, policy));
+      const { active, suppressed } = applySuppressions(
+        findings.filter(f => severityOrder.indexOf(f.severity) <= thresholdIndex),
+        repository.fullName,
+        this.config.policy?.suppressions || []
+      );
+      if (!signal?.aborted) {
+        onProgress?.({ type: 'check-completed', repository: repository.fullName, coverage: run.coverage });
+        for (const finding of active) onProgress?.({ type: 'finding', repository: repository.fullName, finding });
+      }
+      return { ...run, active, suppressed, belowThreshold: findings.filter(f => severityOrder.indexOf(f.severity) > thresholdIndex) };
+    }));
+    // Checks cut short by the abort would read as errors; drop the whole repository instead
+    signal?.throwIfAborted();
+
+    const filteredFindings: SecurityFinding[] = checkRuns.flatMap(run => run.active);
+    const suppressedFindings: SuppressedFinding[] = checkRuns.flatMap(run => run.suppressed);
+    const passes = checkRuns.flatMap(run => run.passes);
+    const coverage = checkRuns.map(run => run.coverage);
+
+    const summary = summarizeFindings(filteredFindings, passes.length);
+    const scoreBreakdown = this.scoringModel.score(filteredFindings, repository);
+
+    const result: RepoScanResult = {
+      repository,
       scannedAt: new Date(),
       findings: filteredFindings,
-      score: this.calculateScore(filteredFindings),
+      suppressedFindings,
+      severityThreshold: severityOrder[thresholdIndex],
+      belowThreshold: checkRuns.flatMap(run => run.belowThreshold.map(findingKey)),
+      passes,
+      score: scoreBreakdown.score,
+      grade: scoreBreakdown.grade,
+      scoreBreakdown,
       summary,
+      coverage: this.summarizeCoverage(coverage),
     };
+
+    if (result.coverage.belowMinimum && this.config.coverageAction === 'fail') {
+      throw new InsufficientCoverageError(repository.fullName, result.coverage.percent, this.config.minCoverage!);
+    }
+    return result;
   }
 
-  async scanMultipleRepos(repos: string[]): Promise<RepoScanResult[]> {
-    const results: RepoScanResult[] = [];
-    for (const repoFullName of repos) {
+  /**
+   * Scans repositories with at most `config.concurrency` in flight. Results keep the
+   * input order; repositories that could not be scanned at all are listed in `failedRepos`.
+   * After `options.signal` aborts, finished repositories are still returned and the
+   * rest are listed in `cancelledRepos`.
+   */
+  async scanRepositories(repos: string[], onComplete?: (outcome: RepoScanOutcome) => void, options: ScanOptions = {}): Promise<MultiRepoScanResult> {
+    const { signal } = options;
+    const outcomes = await mapWithConcurrency(repos, this.config.concurrency || DEFAULT_SCAN_CONCURRENCY, async (repoFullName): Promise<RepoScanOutcome> => {
+      if (signal?.aborted) return { repository: repoFullName, cancelled: true };
       const [owner, repo] = repoFullName.split('/');
+      let outcome: RepoScanOutcome;
       try {
-        const result = await this.scanRepository(owner, repo);
-        results.push(result);
-      } catch (error) {
-        console.error(`Error scanning ${repoFullName}:`, error);
+        outcome = { repository: repoFullName, result: await this.scanRepository(owner, repo, options) };
+      } catch (error: any) {
+        if (signal?.aborted) return { repository: repoFullName, cancelled: true };
+        outcome = { repository: repoFullName, error: error instanceof Error ? error : new Error(String(error)) };
       }
+      onComplete?.(outcome);
+      return outcome;
+    });
+
+    return {
+      results: outcomes.flatMap(outcome => outcome.result ? [outcome.result] : []),
+      failedRepos: outcomes.flatMap(outcome => outcome.error
+        ? [{ repository: outcome.repository, error: outcome.error.message, httpStatus: httpStatusOf(outcome.error) }]
+        : []),
+      cancelledRepos: outcomes.flatMap(outcome => outcome.cancelled ? [outcome.repository] : []),
+    };
+  }
+
+  /** Like scanRepositories, but returns only the successful results; failures are logged unless `onComplete` is given */
+  async scanMultipleRepos(repos: string[], onComplete?: (outcome: RepoScanOutcome) => void, options: ScanOptions = {}): Promise<RepoScanResult[]> {
+    const { results, failedRepos } = await this.scanRepositories(repos, onComplete, options);
+    if (!onComplete) {
+      for (const failed of failedRepos) console.error(`Error scanning ${failed.repository}:`, failed.error);
     }
     return results;
   }
 
-  private calculateScore(findings: SecurityFinding[]): number {
-    let score = 100;
-    const deductions: Record<Severity, number> = { critical: 25, high: 15, medium: 8, low: 3, info: 0 };
-    for (const finding of findings) { score -= deductions[finding.severity]; }
-    return Math.max(0, score);
+  /**
+   * Runs the organization checks against an organization's settings. Policy rules
+   * matching the organization apply, and suppressions match their `repo` glob
+   * against the organization login. Results are not recorded in scan history.
+   */
+  scanOrganization(org: string, options: ScanOptions = {}): Promise<OrgScanResult> {
+    return scanSignal.run(options.signal, () => this.scanOrganizationWithSignal(org, options));
+  }
+
+  private async scanOrganizationWithSignal(org: string, { signal, onProgress }: ScanOptions): Promise<OrgScanResult> {
+    signal?.throwIfAborted();
+    const context = new OrgContext(this.octokit, org, { server: await this.getServerInfo() });
+    const orgData = await context.getOrganization();
+    const policy = resolvePolicy(this.config.policy, { owner: orgData.login, fullName: orgData.login, topics: [] });
+    const severityOrder: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+    const thresholdIndex = severityOrder.indexOf(this.config.severityThreshold || 'low');
+
+    const checks = this.orgChecksFor(policy);
+    onProgress?.({ type: 'repo-started', repository: orgData.login, checks: checks.length });
+
+    const checkRuns = await Promise.all(checks.map(async check => {
+      const run = await this.runCheck(check, context.server, () => check.run(context));
+      const { active, suppressed } = applySuppressions(
+        run.findings.map(finding => this.applyPolicy(finding, policy)).filter(f => severityOrder.indexOf(f.severity) <= thresholdIndex),
+        orgData.login,
+        this.config.policy?.suppressions || []
+      );
+      if (!signal?.aborted) {
+        onProgress?.({ type: 'check-completed', repository: orgData.login, coverage: run.coverage });
+        for (const finding of active) onProgress?.({ type: 'finding', repository: orgData.login, finding });
+      }
+      return { ...run, active, suppressed };
+    }));
+    signal?.throwIfAborted();
+
+    const findings = checkRuns.flatMap(run => run.active);
+    const passes = checkRuns.flatMap(run => run.passes);
+    const scoreBreakdown = this.scoringModel.score(findings);
+
+    return {
+      organization: { login: orgData.login, name: orgData.name || undefined, url: orgData.html_url, plan: orgData.plan?.name },
+      scannedAt: new Date(),
+      findings,
+      suppressedFindings: checkRuns.flatMap(run => run.suppressed),
+      passes,
+      score: scoreBreakdown.score,
+      grade: scoreBreakdown.grade,
+      scoreBreakdown,
+      summary: summarizeFindings(findings, passes.length),
+      coverage: this.summarizeCoverage(checkRuns.map(run => run.coverage)),
+    };
+  }
+
+  /**
+   * Lists who can access each repository and through which grant, for user
+   * access reviews. Repositories whose access could not be read are returned
+   * in `failedRepos`.
+   */
+  async reviewAccess(repos: string[]): Promise<{ reviews: RepoAccessReview[]; failedRepos: FailedRepo[] }> {
+    const server = await this.getServerInfo();
+    const outcomes = await mapWithConcurrency(repos, this.config.concurrency || DEFAULT_SCAN_CONCURRENCY, async (repoFullName) => {
+      const [owner, repo] = repoFullName.split('/');
+      try {
+        return { repository: repoFullName, review: await reviewRepoAccess(new RepoContext(this.octokit, owner, repo, { server })) };
+      } catch (error: any) {
+        return { repository: repoFullName, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+    });
+    return {
+      reviews: outcomes.flatMap(outcome => outcome.review ? [outcome.review] : []),
+      failedRepos: outcomes.flatMap(outcome => outcome.error
+        ? [{ repository: outcome.repository, error: outcome.error.message, httpStatus: httpStatusOf(outcome.error) }]
+        : []),
+    };
+  }
+
+  /** Detects github.com or the GHES version once per scanner */
+  getServerInfo(): Promise<ServerInfo> {
+    if (!this.server) this.server = detectServer(this.octokit);
+    return this.server;
+  }
+
+  /**
+   * Reports which checks and fixes the configured credentials can use. Identifies
+   * the token, then runs every check against one repository (the given one, or the
+   * first accessible) without recording history.
+   */
+  async preflight(repoFullName?: string): Promise<PreflightReport> {
+    const server = await this.getServerInfo();
+    const token = await inspectToken(this.octokit, this.config);
+    const warnings = tokenWarnings(token);
+
+    let repository = repoFullName;
+    if (!repository) {
+      repository = (await this.listAvailableRepos())[0]?.fullName;
+      if (!repository) warnings.push('No repositories are accessible with these credentials.');
+    }
+    if (!repository) {
+      return { server, token, checks: [], fixes: [], coverage: 0, warnings };
+    }
+
+    const [owner, repo] = repository.split('/');
+    const context = new RepoContext(this.octokit, owner, repo, { server });
+    const repoData = await context.getRepository();
+    const policy = this.resolvePolicyFor(owner, repoData.full_name, repoData.topics || []);
+    const checks = getCheckDefinitions();
+    const runs = await Promise.all(checks.map(check => this.runCheck(check, context.server, () => check.run(context, policy.thresholds, policy.releases))));
+    const capabilities = checks.map((check, i) => checkCapability(check, runs[i].coverage));
+
+    return {
+      server,
+      token,
+      repository: repoData.full_name,
+      checks: capabilities,
+      fixes: FIXABLE_FINDINGS.map(findingId => fixCapability(findingId, FIX_REQUIRED_PERMISSIONS, repoData.permissions?.admin)),
+      coverage: coveragePercent(runs.map(run => run.coverage)),
+      warnings,
+    };
   }
+
+  getRateLimitState(): RateLimitState {
+    return this.rateLimiter.getState();
+  }
+
+  private checksFor(policy: ResolvedPolicy): CheckDefinition[] {
+    return selectChecks({
+      include: this.config.checks && this.config.checks.length > 0 ? this.config.checks : policy.include,
+      exclude: [...(this.config.excludeChecks || []), ...policy.exclude],
+    });
+  }
+
+  private orgChecksFor(policy: ResolvedPolicy): OrgCheckDefinition[] {
+    return selectOrgChecks({
+      include: this.config.checks && this.config.checks.length > 0 ? this.config.checks : policy.include,
+      exclude: [...(this.config.excludeChecks || []), ...policy.exclude],
+    });
+  }
+
+  /** The policy for a repository, with release patterns from the scanner config as the base */
+  private resolvePolicyFor(owner: string, fullName: string, topics: string[]): ResolvedPolicy {
+    return resolvePolicy(this.config.policy, { owner, fullName, topics }, {
+      branches: this.config.releaseBranches ?? DEFAULT_RELEASE_PATTERNS.branches,
+      tags: this.config.releaseTags ?? DEFAULT_RELEASE_PATTERNS.tags,
+    });
+  }
+
+  /**
+   * Runs one check and records how far it got. Permission errors (401/403, and the
+   * 404 GitHub returns for resources the token cannot see) mark the check as skipped
+   * instead of letting the repository look clean. Checks that need a newer GitHub
+   * Enterprise Server than the one scanned are skipped as not supported.
+   */
+  private async runCheck(check: CheckMetadata, server: ServerInfo, run: () => Promise<CheckResult>): Promise<{ findings: SecurityFinding[]; passes: PassedCheck[]; coverage: CheckCoverage }> {
+    try {
+      if (!isSupported(server, check.minEnterpriseVersion)) {
+        throw new UnsupportedOnServerError(check.name, describeServer(server), check.minEnterpriseVersion);
+      }
+      const { findings, passes } = await run();
+      return { findings, passes, coverage: { checkId: check.id, status: findings.length > 0 ? 'failed' : 'passed', findings: findings.length } };
+    } catch (error: any) {
+      const httpStatus = httpStatusOf(error);
+      const reason = skipReason(error, httpStatus);
+      return {
+        findings: [],
+        passes: [],
+        coverage: { checkId: check.id, status: reason ? 'skipped' : 'errored', findings: 0, httpStatus, message: error?.message || String(error), reason },
+      };
+    }
+  }
+
+  private summarizeCoverage(checks: CheckCoverage[]): ScanCoverage {
+    const percent = coveragePercent(checks);
+    const coverage: ScanCoverage = { complete: checks.every(c => c.status === 'passed' || c.status === 'failed'), percent, checks };
+    if (this.config.minCoverage !== undefined && percent < this.config.minCoverage) coverage.belowMinimum = true;
+    return coverage;
+  }
+
+  private applyPolicy(finding: SecurityFinding, policy: ResolvedPolicy): SecurityFinding {
+    const policyRule = policy.findingRules[finding.id];
+    if (!policyRule) return finding;
+    return { ...finding, severity: policy.severities[finding.id] ?? finding.severity, policyRule };
+  }
+}
+
+function skipReason(error: any, httpStatus: number | undefined): SkipReason | undefined {
+  if (error instanceof UnsupportedOnServerError) return 'unsupported';
+  if (error instanceof OfflineError) return 'offline';
+  if (error instanceof CheckSkippedError && error.reason) return error.reason;
+  if (httpStatus === 401 || httpStatus === 403) return 'permission';
+  if (error instanceof CheckSkippedError || httpStatus === 404) return 'unavailable';
+  return undefined;
+}
+
+function httpStatusOf(error: any): number | undefined {
+  if (error instanceof CheckSkippedError) return error.httpStatus;
+  return typeof error?.status === 'number' ? error.status : undefined;
+}
+
+/** Share of checks that were evaluated, 0-100; a scan with no checks counts as fully covered */
+export function coveragePercent(checks: CheckCoverage[]): number {
+  if (checks.length === 0) return 100;
+  return Math.round(checks.filter(c => c.status === 'passed' || c.status === 'failed').length / checks.length * 100);
+}
+
+export function summarizeFindings(findings: SecurityFinding[], passed = 0): RepoScanResult['summary'] {
+  return {
+    critical: findings.filter(f => f.severity === 'critical').length,
+    high: findings.filter(f => f.severity === 'high').length,
+    medium: findings.filter(f => f.severity === 'medium').length,
+    low: findings.filter(f => f.severity === 'low').length,
+    info: findings.filter(f => f.severity === 'info').length,
+    passed,
+  };
 }
 
 export { ScannerConfig, RepoScanResult, SecurityFinding };
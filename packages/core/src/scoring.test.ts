@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { FlatScoringModel, WeightedScoringModel, gradeForScore } from './scoring';
+import { CheckCategory, SecurityFinding, Severity } from './types';
+
+/** One finding per severity, in security-features unless given as [severity, category] */
+function findings(...specs: Array<Severity | [Severity, CheckCategory]>): SecurityFinding[] {
+  return specs.map((spec, index) => {
+    const [severity, category] = typeof spec === 'string' ? [spec, 'security-features' as const] : spec;
+    return {
+      id: `test-finding-${index}`,
+      category,
+      severity,
+      title: `${severity} finding ${index}`,
+      description: `A ${severity} finding.`,
+      recommendation: 'Fix it.',
+    };
+  });
+}
+
+function packageFinding(name: string, severity: Severity): SecurityFinding {
+  return {
+    id: `dep-${severity}-vulns`,
+    category: 'dependencies',
+    severity,
+    title: `1 vulnerability alert(s) in npm package ${name}`,
+    description: `${name} has an open Dependabot alert.`,
+    recommendation: `Upgrade ${name}.`,
+    subject: `npm:${name}`,
+    location: { path: 'package-lock.json' },
+  };
+}
+
+describe('per-item findings', () => {
+  const findings = [
+    ...['lodash', 'minimist', 'axios', 'tar', 'semver'].map(name => packageFinding(name, 'critical')),
+    packageFinding('left-pad', 'high'),
+    packageFinding('debug', 'high'),
+  ];
+
+  it('deduct once per finding ID and severity in the flat model', () => {
+    const result = new FlatScoringModel().score(findings);
+    expect(result.score).toBe(100 - 25 - 15);
+    expect(result.deductions.map(d => d.note)).toEqual(['5 critical findings counted once', '2 high findings counted once']);
+  });
+
+  it('deduct once per finding ID and severity in the weighted model', () => {
+    expect(new WeightedScoringModel().score(findings).score).toBe(100 - 25 - 12);
+  });
+
+  it('score the same as a single item of each severity', () => {
+    const single = [packageFinding('lodash', 'critical'), packageFinding('left-pad', 'high')];
+    expect(new FlatScoringModel().score(findings).score).toBe(new FlatScoringModel().score(single).score);
+  });
+});
+
+describe('open secret alerts', () => {
+  function secretFinding(type: string, severity: Severity): SecurityFinding {
+    return {
+      id: 'sec-open-secret-alerts',
+      category: 'secrets',
+      severity,
+      title: `1 open ${type} secret alert(s)`,
+      description: `Secret scanning found a ${type} secret.`,
+      recommendation: 'Revoke and rotate the secret.',
+      subject: type,
+    };
+  }
+
+  it('deduct once per severity however many secret types are open', () => {
+    const findings = ['AWS Access Key ID', 'Slack API Token', 'GitHub Personal Access Token'].map(type => secretFinding(type, 'critical'));
+    expect(new FlatScoringModel().score(findings).score).toBe(75);
+    expect(new FlatScoringModel().score([...findings, secretFinding('Stripe Key', 'low')]).score).toBe(72);
+  });
+});
+
+describe('release branch findings', () => {
+  function releaseFinding(id: string, branch: string): SecurityFinding {
+    return {
+      id,
+      category: 'branch-protection',
+      severity: 'critical',
+      title: 'Branch protection not enabled',
+      description: `The ${branch} branch has no branch protection.`,
+      recommendation: 'Enable branch protection.',
+      ref: `refs/heads/${branch}`,
+    };
+  }
+
+  it('deduct once per finding ID and severity however many branches match the release patterns', () => {
+    const branches = ['release/1.x', 'release/2.x', 'hotfix/2.1.1'].map(branch => releaseFinding('rb-not-enabled', branch));
+    const result = new FlatScoringModel().score([...branches, releaseFinding('rb-no-pr-reviews', 'release/2.x')]);
+    expect(result.score).toBe(50);
+    expect(result.deductions.map(d => [d.findingId, d.note])).toEqual([['rb-not-enabled', '3 critical findings counted once'], ['rb-no-pr-reviews', undefined]]);
+  });
+});
+
+describe('gradeForScore', () => {
+  it('grades on 10-point boundaries', () => {
+    expect([100, 90, 89, 80, 79, 70, 69, 60, 59, 0].map(gradeForScore)).toEqual(['A', 'A', 'B', 'B', 'C', 'C', 'D', 'D', 'F', 'F']);
+  });
+});
+
+describe('grade boundaries', () => {
+  it('flat model', () => {
+    const cases: Array<[SecurityFinding[], number, string]> = [
+      [findings('medium'), 92, 'A'],
+      [findings('medium', 'low', 'low', 'low', 'low'), 80, 'B'],
+      [findings('medium', 'medium', 'low', 'low'), 78, 'C'],
+      [findings('high', 'high'), 70, 'C'],
+      [findings('critical', 'medium'), 67, 'D'],
+      [findings('critical', 'high'), 60, 'D'],
+      [findings('critical', 'medium', 'medium'), 59, 'F'],
+      [findings('critical', 'critical', 'critical', 'critical', 'critical'), 0, 'F'],
+      [findings('info', 'info'), 100, 'A'],
+    ];
+    for (const [input, score, grade] of cases) {
+      expect(new FlatScoringModel().score(input)).toMatchObject({ score, grade });
+    }
+  });
+
+  it('weighted model', () => {
+    const cases: Array<[SecurityFinding[], number, string]> = [
+      [findings('medium', 'medium'), 90, 'A'],
+      [findings('medium', 'low', 'low', 'low'), 89, 'B'],
+      [findings('high', 'low', ['high', 'repository-settings']), 80, 'B'],
+      [findings('high', 'medium', 'low', 'low'), 79, 'C'],
+      [findings('critical', 'medium'), 70, 'C'],
+      [findings('critical', 'low', 'low', 'low'), 69, 'D'],
+      [findings('critical', 'medium', 'medium', 'medium'), 60, 'D'],
+      [findings('critical', 'high', 'low', 'low'), 59, 'F'],
+    ];
+    for (const [input, score, grade] of cases) {
+      expect(new WeightedScoringModel().score(input)).toMatchObject({ score, grade });
+    }
+  });
+
+  it('weighted model caps and visibility can move a repository across a boundary', () => {
+    const repository = { owner: 'acme', name: 'widget', fullName: 'acme/widget', visibility: 'public' as const, defaultBranch: 'main', url: 'https://github.com/acme/widget' };
+    const lows = findings(...Array<Severity>(10).fill('low'));
+
+    expect(new WeightedScoringModel().score(lows)).toMatchObject({ score: 94, grade: 'A' });
+    expect(new WeightedScoringModel().score(findings('medium', 'medium'), repository)).toMatchObject({ score: 87, grade: 'B' });
+  });
+});
@@ -0,0 +1,148 @@
+import { CheckCategory, Grade, RepoScanResult, ScoreBreakdown, ScoreDeduction, SecurityFinding, Severity } from './types';
+
+export type ScoringModelName = 'flat' | 'weighted';
+
+export interface ScoringModel {
+  name: string;
+  description: string;
+  /** `repository` is absent when scoring organization-level findings */
+  score(findings: SecurityFinding[], repository?: RepoScanResult['repository']): ScoreBreakdown;
+}
+
+export interface WeightedScoringOptions {
+  severityPoints: Record<Severity, number>;
+  /** Multiplier applied to every deduction in the category */
+  categoryWeights: Partial<Record<CheckCategory, number>>;
+  /** Maximum points a category can lose to findings of one severity */
+  severityCaps: Partial<Record<Severity, number>>;
+  visibilityMultipliers: Partial<Record<RepoScanResult['repository']['visibility'], number>>;
+}
+
+export const DEFAULT_WEIGHTED_SCORING: WeightedScoringOptions = {
+  severityPoints: { critical: 25, high: 12, medium: 5, low: 2, info: 0 },
+  categoryWeights: { 'branch-protection': 1.2, 'security-features': 1, 'dependencies': 1, 'access-control': 1, 'secrets': 1, 'repository-settings': 0.5, 'organization': 1, 'workflows': 1 },
+  severityCaps: { critical: 50, high: 30, medium: 15, low: 6 },
+  visibilityMultipliers: { public: 1.25 },
+};
+
+const GRADE_THRESHOLDS: Array<[number, Grade]> = [[90, 'A'], [80, 'B'], [70, 'C'], [60, 'D']];
+
+export function gradeForScore(score: number): Grade {
+  return GRADE_THRESHOLDS.find(([min]) => score >= min)?.[1] ?? 'F';
+}
+
+/** The original model: a fixed deduction per finding by severity */
+export class FlatScoringModel implements ScoringModel {
+  readonly name = 'flat';
+  readonly description = 'Deducts 25/15/8/3 points per critical/high/medium/low finding.';
+  private static readonly DEDUCTIONS: Record<Severity, number> = { critical: 25, high: 15, medium: 8, low: 3, info: 0 };
+
+  score(findings: SecurityFinding[]): ScoreBreakdown {
+    const deductions: ScoreDeduction[] = collapseItems(findings)
+      .filter(({ finding }) => FlatScoringModel.DEDUCTIONS[finding.severity] > 0)
+      .map(({ finding, note }) => ({ findingId: finding.id, category: finding.category, severity: finding.severity, points: FlatScoringModel.DEDUCTIONS[finding.severity], note }));
+    return breakdown(this.name, deductions);
+  }
+}
+
+/**
+ * Weights deductions by category and repository visibility, and caps how much a
+ * single category can lose per severity so a pile of minor findings cannot
+ * outweigh one critical gap.
+ */
+export class WeightedScoringModel implements ScoringModel {
+  readonly name = 'weighted';
+  readonly description = 'Category-weighted deductions with per-severity caps and a public visibility multiplier.';
+  private options: WeightedScoringOptions;
+
+  constructor(options: Partial<WeightedScoringOptions> = {}) {
+    this.options = {
+      severityPoints: { ...DEFAULT_WEIGHTED_SCORING.severityPoints, ...options.severityPoints },
+      categoryWeights: { ...DEFAULT_WEIGHTED_SCORING.categoryWeights, ...options.categoryWeights },
+      severityCaps: { ...DEFAULT_WEIGHTED_SCORING.severityCaps, ...options.severityCaps },
+      visibilityMultipliers: { ...DEFAULT_WEIGHTED_SCORING.visibilityMultipliers, ...options.visibilityMultipliers },
+    };
+  }
+
+  score(findings: SecurityFinding[], repository?: RepoScanResult['repository']): ScoreBreakdown {
+    const { severityPoints, categoryWeights, severityCaps, visibilityMultipliers } = this.options;
+    const visibilityMultiplier = repository ? visibilityMultipliers[repository.visibility] ?? 1 : 1;
+    const spent = new Map<string, number>();
+    const deductions: ScoreDeduction[] = [];
+
+    // Most severe first, so caps trim the least important findings
+    const ordered = collapseItems(findings).sort((a, b) => severityPoints[b.finding.severity] - severityPoints[a.finding.severity]);
+    for (const { finding, note } of ordered) {
+      const weight = categoryWeights[finding.category] ?? 1;
+      let points = severityPoints[finding.severity] * weight * visibilityMultiplier;
+      if (points <= 0) continue;
+
+      const notes: string[] = note ? [note] : [];
+      if (weight !== 1) notes.push(`×${weight} ${finding.category}`);
+      if (visibilityMultiplier !== 1) notes.push(`×${visibilityMultiplier} ${repository!.visibility}`);
+
+      const cap = severityCaps[finding.severity];
+      const capKey = `${finding.category}:${finding.severity}`;
+      if (cap !== undefined) {
+        const remaining = Math.max(0, cap - (spent.get(capKey) || 0));
+        if (points > remaining) {
+          points = remaining;
+          notes.push(`capped at ${cap} for ${finding.severity} ${finding.category} findings`);
+        }
+      }
+      spent.set(capKey, (spent.get(capKey) || 0) + points);
+
+      deductions.push({ findingId: finding.id, category: finding.category, severity: finding.severity, points: round(points), note: notes.join(', ') || undefined });
+    }
+
+    return breakdown(this.name, deductions);
+  }
+}
+
+export function getScoringModel(model: ScoringModelName | ScoringModel = 'flat'): ScoringModel {
+  if (typeof model !== 'string') return model;
+  switch (model) {
+    case 'flat': return new FlatScoringModel();
+    case 'weighted': return new WeightedScoringModel();
+    default: throw new Error(`Unknown scoring model: ${model}. Available models: flat, weighted`);
+  }
+}
+
+/** One line per deduction, e.g. "-25 for bp-not-enabled" */
+export function explainScore(breakdown: ScoreBreakdown): string[] {
+  return breakdown.deductions.map(d => `-${d.points} for ${d.findingId}${d.note ? ` (${d.note})` : ''}`);
+}
+
+/**
+ * Checks that report one finding per item (a `subject` such as a package or
+ * secret type, or a `ref` such as a release branch) deduct once per finding ID
+ * and severity, the way a single finding listing every item would, so the
+ * number of items does not multiply the deduction.
+ */
+function collapseItems(findings: SecurityFinding[]): Array<{ finding: SecurityFinding; note?: string }> {
+  const groups = new Map<string, SecurityFinding[]>();
+  const collapsed: Array<{ finding: SecurityFinding; note?: string }> = [];
+  for (const finding of findings) {
+    if (finding.subject === undefined && finding.ref === undefined) {
+      collapsed.push({ finding });
+      continue;
+    }
+    const key = `${finding.id}:${finding.severity}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(finding);
+  }
+  for (const group of groups.values()) {
+    collapsed.push({ finding: group[0], note: group.length > 1 ? `${group.length} ${group[0].severity} findings counted once` : undefined });
+  }
+  return collapsed;
+}
+
+function breakdown(model: string, deductions: ScoreDeduction[]): ScoreBreakdown {
+  const total = deductions.reduce((sum, d) => sum + d.points, 0);
+  const score = Math.max(0, Math.round(100 - total));
+  return { model, score, grade: gradeForScore(score), deductions };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,92 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { Octokit } from '@octokit/rest';
+import { detectServer, isSupported, normalizeBaseUrl } from './server';
+import { GitHubSecurityScanner } from './scanner';
+
+describe('normalizeBaseUrl', () => {
+  it('adds /api/v3 to a bare GHES host', () => {
+    expect(normalizeBaseUrl('https://github.example.com')).toBe('https://github.example.com/api/v3');
+    expect(normalizeBaseUrl('https://github.example.com/')).toBe('https://github.example.com/api/v3');
+  });
+
+  it('keeps an explicit API path without a trailing slash', () => {
+    expect(normalizeBaseUrl('https://github.example.com/api/v3/')).toBe('https://github.example.com/api/v3');
+    expect(normalizeBaseUrl('https://proxy.example.com/github/api')).toBe('https://proxy.example.com/github/api');
+  });
+
+  it('defaults to github.com', () => {
+    expect(normalizeBaseUrl()).toBe('https://api.github.com');
+    expect(normalizeBaseUrl('https://api.github.com/')).toBe('https://api.github.com');
+  });
+});
+
+describe('isSupported', () => {
+  it('compares GHES versions numerically', () => {
+    expect(isSupported({ enterprise: true, version: '3.10.1' }, '3.8')).toBe(true);
+    expect(isSupported({ enterprise: true, version: '3.4.0' }, '3.5')).toBe(false);
+  });
+
+  it('allows github.com and unknown versions', () => {
+    expect(isSupported({ enterprise: false }, '3.8')).toBe(true);
+    expect(isSupported({ enterprise: true }, '3.8')).toBe(true);
+  });
+});
+
+describe('against a mock GHES server', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let meta: { status: number; headers: Record<string, string>; body: object };
+
+  beforeEach(async () => {
+    meta = { status: 200, headers: { 'x-github-enterprise-version': '3.4.2' }, body: { verifiable_password_authentication: true } };
+    server = http.createServer((req, res) => {
+      const path = req.url!.replace(/^\/api\/v3/, '').split('?')[0];
+      if (path === '/meta') {
+        res.writeHead(meta.status, { 'content-type': 'application/json', ...meta.headers });
+        return res.end(JSON.stringify(meta.body));
+      }
+      if (path === '/repos/acme/widget') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        return res.end(JSON.stringify({ full_name: 'acme/widget', visibility: 'private', default_branch: 'main', html_url: 'https://github.example.com/acme/widget', topics: [] }));
+      }
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ message: 'Not Found' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    // A bare host, so the scanner has to add /api/v3 itself
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('reads the version from the x-github-enterprise-version header', async () => {
+    expect(await detectServer(new Octokit({ baseUrl: `${baseUrl}/api/v3` }))).toEqual({ enterprise: true, version: '3.4.2' });
+  });
+
+  it('falls back to installed_version in /meta', async () => {
+    meta = { status: 200, headers: {}, body: { installed_version: '3.9.0' } };
+    expect(await detectServer(new Octokit({ baseUrl: `${baseUrl}/api/v3` }))).toEqual({ enterprise: true, version: '3.9.0' });
+  });
+
+  it('reads the header from an error response to /meta', async () => {
+    meta = { status: 401, headers: { 'x-github-enterprise-version': '3.7.1' }, body: { message: 'Requires authentication' } };
+    expect(await detectServer(new Octokit({ baseUrl: `${baseUrl}/api/v3` }))).toEqual({ enterprise: true, version: '3.7.1' });
+  });
+
+  it('skips checks that need a newer GHES release as unsupported', async () => {
+    const scanner = new GitHubSecurityScanner({ token: 'test-token', baseUrl, checks: ['push-protection', 'vulnerable-dependencies', 'security-policy'] });
+
+    const result = await scanner.scanRepository('acme', 'widget');
+
+    expect(await scanner.getServerInfo()).toEqual({ enterprise: true, version: '3.4.2' });
+    const coverage = Object.fromEntries(result.coverage.checks.map(check => [check.checkId, check]));
+    expect(coverage['push-protection']).toMatchObject({ status: 'skipped', reason: 'unsupported' });
+    expect(coverage['vulnerable-dependencies']).toMatchObject({ status: 'skipped', reason: 'unsupported' });
+    expect(coverage['push-protection'].message).toContain('requires 3.5 or later');
+    expect(coverage['security-policy'].status).toBe('failed');
+  });
+});
@@ -0,0 +1,109 @@
+import { Octokit } from '@octokit/rest';
+import { assertCredentials, GitHubCredentials, InstallationTokenProvider } from './auth';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+export interface GitHubServerOptions {
+  /** REST API root, e.g. https://github.example.com/api/v3 for GitHub Enterprise Server */
+  baseUrl?: string;
+  /** Sent as the X-GitHub-Api-Version header, e.g. 2022-11-28 */
+  apiVersion?: string;
+}
+
+export interface ServerInfo {
+  /** True for GitHub Enterprise Server */
+  enterprise: boolean;
+  /** Installed GHES version, e.g. 3.9.2; undefined for github.com or when it cannot be read */
+  version?: string;
+}
+
+export const GITHUB_DOTCOM: ServerInfo = { enterprise: false };
+
+/**
+ * Normalizes a configured API URL. A bare GHES host such as
+ * https://github.example.com gets the /api/v3 path the REST API lives under.
+ */
+export function normalizeBaseUrl(baseUrl?: string): string {
+  if (!baseUrl) return GITHUB_API_URL;
+  const url = new URL(baseUrl);
+  const path = url.pathname.replace(/\/+$/, '');
+  if (!path && url.hostname !== 'api.github.com') url.pathname = '/api/v3';
+  return url.toString().replace(/\/+$/, '');
+}
+
+/** Creates a client for either credential type; GitHub App clients mint and refresh installation tokens on demand */
+export function createOctokit(credentials: string | GitHubCredentials, server: GitHubServerOptions = {}): Octokit {
+  const { token, app } = typeof credentials === 'string' ? { token: credentials, app: undefined } : credentials;
+  assertCredentials({ token, app });
+  const baseUrl = normalizeBaseUrl(server.baseUrl);
+  const octokit = new Octokit({ auth: token, baseUrl });
+
+  if (app) {
+    const installation = new InstallationTokenProvider(app, baseUrl);
+    octokit.hook.wrap('request', async (request, options) => {
+      options.headers.authorization = `token ${await installation.getToken()}`;
+      try {
+        return await request(options);
+      } catch (error: any) {
+        // The installation token was revoked or expired early; mint a new one once
+        if (error?.status !== 401) throw error;
+        installation.invalidate();
+        options.headers.authorization = `token ${await installation.getToken()}`;
+        return request(options);
+      }
+    });
+  }
+
+  const apiVersion = server.apiVersion;
+  if (apiVersion) {
+    octokit.hook.before('request', options => {
+      options.headers['x-github-api-version'] = apiVersion;
+    });
+  }
+  return octokit;
+}
+
+/**
+ * Identifies the server behind an Octokit instance. GHES sends its version in
+ * the x-github-enterprise-version header and as `installed_version` in
+ * GET /meta; github.com sends neither. A custom base URL whose /meta cannot be
+ * read is assumed to be GHES, of unknown version unless the error response
+ * carried the header.
+ */
+export async function detectServer(octokit: Octokit): Promise<ServerInfo> {
+  if (octokit.request.endpoint.DEFAULTS.baseUrl === GITHUB_API_URL) return GITHUB_DOTCOM;
+  try {
+    const { data, headers } = await octokit.meta.get();
+    const version = enterpriseVersion(headers) ?? (data as { installed_version?: string }).installed_version;
+    return version ? { enterprise: true, version } : GITHUB_DOTCOM;
+  } catch (error: any) {
+    return { enterprise: true, version: enterpriseVersion(error?.response?.headers) };
+  }
+}
+
+/** The x-github-enterprise-version header, e.g. "3.9.2" */
+function enterpriseVersion(headers: Record<string, unknown> = {}): string | undefined {
+  const value = headers['x-github-enterprise-version'];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/** Whether a feature that GHES gained in `minEnterpriseVersion` is available; unknown versions are given the benefit of the doubt */
+export function isSupported(server: ServerInfo, minEnterpriseVersion?: string): boolean {
+  if (!server.enterprise || !minEnterpriseVersion || !server.version) return true;
+  return compareVersions(server.version, minEnterpriseVersion) >= 0;
+}
+
+export function describeServer(server: ServerInfo): string {
+  if (!server.enterprise) return 'github.com';
+  return server.version ? `GitHub Enterprise Server ${server.version}` : 'GitHub Enterprise Server';
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { applySuppressions, findSuppression, isSuppressionExpired } from './suppressions';
+import { SecurityFinding, Suppression } from './types';
+
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+function finding(id: string): SecurityFinding {
+  return {
+    id,
+    category: 'access-control',
+    severity: 'medium',
+    title: id,
+    description: `${id} description`,
+    recommendation: `${id} recommendation`,
+  };
+}
+
+function suppression(findingId: string, repo: string, expires: string): Suppression {
+  return { findingId, repo, expires, justification: 'Accepted by the security team', approver: 'security@acme.example' };
+}
+
+describe('isSuppressionExpired', () => {
+  it('expires at the expiry time', () => {
+    expect(isSuppressionExpired(suppression('ac-outside-collaborators', 'acme/*', '2026-06-16'), NOW)).toBe(false);
+    expect(isSuppressionExpired(suppression('ac-outside-collaborators', 'acme/*', '2026-06-15T12:00:00Z'), NOW)).toBe(true);
+    expect(isSuppressionExpired(suppression('ac-outside-collaborators', 'acme/*', '2026-01-01'), NOW)).toBe(true);
+  });
+});
+
+describe('findSuppression', () => {
+  it('matches the finding ID and repository glob of an unexpired suppression', () => {
+    const active = suppression('ac-outside-collaborators', 'acme/*', '2027-01-01');
+    const suppressions = [suppression('ac-outside-collaborators', 'acme/widget', '2026-01-01'), suppression('ac-old-deploy-keys', 'acme/*', '2027-01-01'), active];
+
+    expect(findSuppression(finding('ac-outside-collaborators'), 'acme/widget', suppressions, NOW)).toBe(active);
+    expect(findSuppression(finding('ac-outside-collaborators'), 'other/widget', suppressions, NOW)).toBeUndefined();
+    expect(findSuppression(finding('ac-too-many-admins'), 'acme/widget', suppressions, NOW)).toBeUndefined();
+  });
+});
+
+describe('applySuppressions', () => {
+  it('moves findings with an unexpired suppression to the suppressed list', () => {
+    const findings = [finding('ac-outside-collaborators'), finding('ac-old-deploy-keys'), finding('ac-too-many-admins')];
+    const suppressions = [
+      suppression('ac-outside-collaborators', 'acme/widget', '2027-01-01'),
+      suppression('ac-old-deploy-keys', 'acme/*', '2026-06-01'),
+    ];
+
+    const result = applySuppressions(findings, 'acme/widget', suppressions, NOW);
+
+    expect(result.active.map(f => f.id)).toEqual(['ac-old-deploy-keys', 'ac-too-many-admins']);
+    expect(result.suppressed).toHaveLength(1);
+    expect(result.suppressed[0]).toMatchObject({ id: 'ac-outside-collaborators', suppression: suppressions[0] });
+  });
+
+  it('reactivates findings once their suppression expires', () => {
+    const suppressions = [suppression('ac-outside-collaborators', 'acme/widget', '2026-07-01')];
+    const findings = [finding('ac-outside-collaborators')];
+
+    expect(applySuppressions(findings, 'acme/widget', suppressions, NOW).suppressed).toHaveLength(1);
+    expect(applySuppressions(findings, 'acme/widget', suppressions, new Date('2026-07-02')).active).toHaveLength(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { SecurityFinding, SuppressedFinding, Suppression } from './types';
+import { matchesGlob } from './utils/glob';
+
+export interface SuppressionResult {
+  active: SecurityFinding[];
+  suppressed: SuppressedFinding[];
+}
+
+export function isSuppressionExpired(suppression: Suppression, now: Date = new Date()): boolean {
+  return new Date(suppression.expires).getTime() <= now.getTime();
+}
+
+export function findSuppression(
+  finding: SecurityFinding,
+  repoFullName: string,
+  suppressions: Suppression[],
+  now: Date = new Date()
+): Suppression | undefined {
+  return suppressions.find(s =>
+    s.findingId === finding.id &&
+    matchesGlob(repoFullName, s.repo) &&
+    !isSuppressionExpired(s, now)
+  );
+}
+
+/**
+ * Splits findings into active findings and accepted risks.
+ * Expired suppressions are ignored, so their findings become active again.
+ */
+export function applySuppressions(
+  findings: SecurityFinding[],
+  repoFullName: string,
+  suppressions: Suppression[],
+  now: Date = new Date()
+): SuppressionResult {
+  const result: SuppressionResult = { active: [], suppressed: [] };
+  for (const finding of findings) {
+    const suppression = findSuppression(finding, repoFullName, suppressions, now);
+    if (suppression) result.suppressed.push({ ...finding, suppression });
+    else result.active.push(finding);
+  }
+  return result;
+}
@@ -0,0 +1,52 @@
+import { summarizeFindings } from '../scanner';
+import { FlatScoringModel } from '../scoring';
+import { CheckStatus, RepoScanResult, SecurityFinding, Severity, SuppressedFinding } from '../types';
+
+/** Reported by the security-policy check */
+export const securityPolicyFinding: SecurityFinding = {
+  id: 'sf-no-security-policy',
+  category: 'security-features',
+  severity: 'medium',
+  title: 'No security policy',
+  description: 'Repository lacks a SECURITY.md file for vulnerability reporting.',
+  recommendation: 'Create a SECURITY.md file.',
+};
+
+export interface ScanFixture {
+  scannedAt?: Date;
+  /** Status of the security-policy check; without one the result has no coverage entry for it */
+  status?: CheckStatus;
+  suppressedFindings?: SuppressedFinding[];
+  severityThreshold?: Severity;
+  belowThreshold?: string[];
+  repository?: Partial<RepoScanResult['repository']>;
+}
+
+/** A scan of acme/widget, scored with the flat model the way the scanner would */
+export function scanResult(findings: SecurityFinding[], fixture: ScanFixture = {}): RepoScanResult {
+  const scoreBreakdown = new FlatScoringModel().score(findings);
+  const { status } = fixture;
+  return {
+    repository: { owner: 'acme', name: 'widget', fullName: 'acme/widget', visibility: 'private', defaultBranch: 'main', url: 'https://github.com/acme/widget', ...fixture.repository },
+    scannedAt: fixture.scannedAt ?? new Date('2026-01-01'),
+    findings,
+    suppressedFindings: fixture.suppressedFindings ?? [],
+    severityThreshold: fixture.severityThreshold,
+    belowThreshold: fixture.belowThreshold,
+    passes: [],
+    score: scoreBreakdown.score,
+    grade: scoreBreakdown.grade,
+    scoreBreakdown,
+    summary: summarizeFindings(findings),
+    coverage: {
+      complete: status === undefined || status === 'passed' || status === 'failed',
+      percent: status === 'skipped' || status === 'errored' ? 0 : 100,
+      checks: status ? [{ checkId: 'security-policy', status, findings: findings.length }] : [],
+    },
+  };
+}
+
+/** The finding suppressed by a policy entry that expires in 2099 */
+export function suppressed(finding: SecurityFinding): SuppressedFinding {
+  return { ...finding, suppression: { findingId: finding.id, repo: 'acme/*', justification: 'Accepted risk', approver: 'security@acme.example', expires: '2099-01-01' } };
+}
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { RateLimitOptions } from './rate-limit';
+import { ScoringModel, ScoringModelName } from './scoring';
+import { GitHubAppCredentials } from './auth';
 
 export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
 
@@ -8,7 +11,9 @@ export type CheckCategory =
   | 'access-control'
   | 'repository-settings'
   | 'secrets'
-  | 'dependencies';
+  | 'dependencies'
+  | 'organization'
+  | 'workflows';
 
 export interface SecurityFinding {
   id: string;
@@ -21,6 +26,94 @@ export interface SecurityFinding {
   soc2Control?: string;
   currentValue?: unknown;
   expectedValue?: unknown;
+  policyRule?: string;
+  /** Release branch or tag the finding applies to, e.g. refs/heads/release/2.x; absent for the default branch and repository-wide findings */
+  ref?: string;
+  /** What the finding is about when a check reports the same issue once per item, e.g. a secret type or package; part of the finding's identity */
+  subject?: string;
+  /** File (and 1-based line) in the repository the finding points at */
+  location?: FindingLocation;
+  /** Suggested content for the file in `location` that resolves the finding, e.g. a corrected dependabot.yml */
+  snippet?: string;
+}
+
+export interface FindingLocation {
+  path: string;
+  line?: number;
+}
+
+export interface CheckMetadata {
+  id: string;
+  name: string;
+  category: CheckCategory;
+  description: string;
+  defaultSeverity: Severity;
+  soc2Control?: string;
+  requiredPermissions: string[];
+  findingIds: string[];
+  /** Oldest GitHub Enterprise Server release with the APIs this check uses */
+  minEnterpriseVersion?: string;
+}
+
+/** A condition a check evaluated and found satisfied; `id` is the finding it rules out */
+export interface PassedCheck {
+  id: string;
+  category: CheckCategory;
+  title: string;
+  observedValue: string;
+  soc2Control?: string;
+  /** Release branch or tag the condition was verified on */
+  ref?: string;
+}
+
+export interface CheckResult {
+  findings: SecurityFinding[];
+  passes: PassedCheck[];
+}
+
+export interface Suppression {
+  findingId: string;
+  repo: string;
+  justification: string;
+  approver: string;
+  expires: string;
+}
+
+export interface SuppressedFinding extends SecurityFinding {
+  suppression: Suppression;
+}
+
+/**
+ * passed: ran without findings; failed: produced findings; skipped: the token
+ * could not read the data (or the feature is unavailable); errored: unexpected failure
+ */
+export type CheckStatus = 'passed' | 'failed' | 'skipped' | 'errored';
+
+/**
+ * Why a check was skipped. permission: the token was refused (401/403);
+ * unsupported: the server lacks the API; unavailable: the data was not found
+ * or the feature is disabled, which can also mean the token cannot see it;
+ * offline: the check needs the API and a local checkout was scanned
+ */
+export type SkipReason = 'permission' | 'unsupported' | 'unavailable' | 'offline';
+
+export interface CheckCoverage {
+  checkId: string;
+  status: CheckStatus;
+  findings: number;
+  httpStatus?: number;
+  message?: string;
+  reason?: SkipReason;
+}
+
+export interface ScanCoverage {
+  /** False when any check was skipped or errored, so the score rests on partial evidence */
+  complete: boolean;
+  /** Share of selected checks that were evaluated, 0-100 */
+  percent: number;
+  /** Set when `minCoverage` is configured and this scan fell short of it */
+  belowMinimum?: boolean;
+  checks: CheckCoverage[];
 }
 
 export interface RepoScanResult {
@@ -28,13 +121,22 @@ export interface RepoScanResult {
     owner: string;
     name: string;
     fullName: string;
-    visibility: 'public' | 'private' | 'internal';
+    /** Unknown for a local checkout, which has no repository settings to read */
+    visibility: 'public' | 'private' | 'internal' | 'unknown';
     defaultBranch: string;
     url: string;
   };
   scannedAt: Date;
   findings: SecurityFinding[];
+  suppressedFindings: SuppressedFinding[];
+  /** Lowest severity the scan reported; absent in results recorded before it was tracked */
+  severityThreshold?: Severity;
+  /** findingKey of each finding the checks reported below `severityThreshold`, so comparisons do not read them as resolved */
+  belowThreshold?: string[];
+  passes: PassedCheck[];
   score: number;
+  grade: Grade;
+  scoreBreakdown: ScoreBreakdown;
   summary: {
     critical: number;
     high: number;
@@ -43,6 +145,137 @@ export interface RepoScanResult {
     info: number;
     passed: number;
   };
+  coverage: ScanCoverage;
+  /** Why the scan could not be recorded in scan history, when history is enabled and recording failed */
+  historyError?: string;
+}
+
+/** Result of the organization-level checks; suppressions match their `repo` glob against the organization login */
+export interface OrgScanResult {
+  organization: {
+    login: string;
+    name?: string;
+    url: string;
+    plan?: string;
+  };
+  scannedAt: Date;
+  findings: SecurityFinding[];
+  suppressedFindings: SuppressedFinding[];
+  passes: PassedCheck[];
+  score: number;
+  grade: Grade;
+  scoreBreakdown: ScoreBreakdown;
+  summary: RepoScanResult['summary'];
+  coverage: ScanCoverage;
+}
+
+/** Base repository permission levels, lowest first */
+export type AccessLevel = 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+export interface TeamAccess {
+  slug: string;
+  name: string;
+  permission: AccessLevel;
+  /** Role name as GitHub reports it; differs from `permission` for custom repository roles */
+  role: string;
+  /** Logins of the team's members, including members of child teams */
+  members: string[];
+  parent?: string;
+}
+
+export interface UserAccess {
+  login: string;
+  /** Effective base permission on the repository */
+  permission: AccessLevel;
+  /** Effective role name; a custom role's name when one is assigned */
+  role: string;
+  /** `outside` for users who are not members of the owning organization, and for collaborators on user-owned repositories */
+  affiliation: 'owner' | 'member' | 'outside';
+  /** Granted individually rather than through a team */
+  direct: boolean;
+  /** Slugs of the teams the user inherits access from */
+  teams: string[];
+  /** Access comes only from the organization (base permission or owner role), not from a grant on this repository */
+  viaOrganization: boolean;
+}
+
+/** Who can access a repository and how, for CC6.2 user access reviews */
+export interface RepoAccessReview {
+  repository: string;
+  reviewedAt: Date;
+  teams: TeamAccess[];
+  users: UserAccess[];
+}
+
+export type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface ScoreDeduction {
+  findingId: string;
+  category: CheckCategory;
+  severity: Severity;
+  points: number;
+  /** Why the deduction differs from the base points, e.g. a weight or cap */
+  note?: string;
+}
+
+export interface ScoreBreakdown {
+  model: string;
+  score: number;
+  grade: Grade;
+  deductions: ScoreDeduction[];
+}
+
+export interface FailedRepo {
+  repository: string;
+  error: string;
+  httpStatus?: number;
+}
+
+export interface MultiRepoScanResult {
+  results: RepoScanResult[];
+  failedRepos: FailedRepo[];
+  /** Repositories not scanned, or discarded mid-scan, because the scan was aborted */
+  cancelledRepos: string[];
+}
+
+/** Progress reported while scanning; `repository` is the owner/repo being scanned */
+export type ScanEvent =
+  | { type: 'repo-started'; repository: string; checks: number }
+  | { type: 'check-completed'; repository: string; coverage: CheckCoverage }
+  | { type: 'finding'; repository: string; finding: SecurityFinding }
+  | { type: 'repo-finished'; repository: string; result: RepoScanResult }
+  | { type: 'error'; repository: string; error: Error };
+
+export interface ScanOptions {
+  /** Aborting cancels in-flight requests; repositories already scanned are still returned */
+  signal?: AbortSignal;
+  onProgress?: (event: ScanEvent) => void;
+}
+
+export interface ValueChange<T> {
+  previous: T;
+  current: T;
+}
+
+export interface RepoScanDiff {
+  repository: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  newFindings: SecurityFinding[];
+  resolvedFindings: SecurityFinding[];
+  unchangedFindings: SecurityFinding[];
+  score: { previous: number | null; current: number | null; delta: number };
+  visibilityChange?: ValueChange<string>;
+  defaultBranchChange?: ValueChange<string>;
+}
+
+export interface ScanDiff {
+  generatedAt: Date;
+  repositories: RepoScanDiff[];
+  totals: {
+    newFindings: number;
+    resolvedFindings: number;
+    unchangedFindings: number;
+  };
 }
 
 export interface BranchProtection {
@@ -75,7 +308,10 @@ export interface SecuritySettings {
 
 export interface SOC2Report {
   generatedAt: Date;
+  /** Organizations whose settings were checked, when organization results were included */
+  organizations?: string[];
   repositories: string[];
+  failedRepositories: FailedRepo[];
   controls: SOC2Control[];
   overallCompliance: number;
 }
@@ -84,25 +320,176 @@ export interface SOC2Control {
   id: string;
   name: string;
   description: string;
-  status: 'compliant' | 'partial' | 'non-compliant';
+  /** incomplete: no blocking findings, but some evidence could not be collected */
+  status: 'compliant' | 'partial' | 'non-compliant' | 'incomplete';
   findings: SecurityFinding[];
+  acceptedRisks: SuppressedFinding[];
   evidence: string[];
+  coverageGaps: string[];
 }
 
+export interface PolicyThresholds {
+  maxAdmins: number;
+  minApprovingReviews: number;
+  deployKeyMaxAgeDays: number;
+  /** Percent of files CODEOWNERS must assign an owner to */
+  minCodeownersCoverage: number;
+  /** Days since a code scanning tool last uploaded results for the default branch */
+  maxCodeScanningAgeDays: number;
+  /** Days an open Dependabot alert of each severity may stay open before its remediation SLA is breached */
+  criticalRemediationDays: number;
+  highRemediationDays: number;
+  mediumRemediationDays: number;
+  lowRemediationDays: number;
+}
+
+/** Branch and tag name globs, besides the default branch, whose protection is checked */
+export interface ReleasePatterns {
+  branches: string[];
+  tags: string[];
+}
+
+export interface PolicyOverrides {
+  thresholds?: Partial<PolicyThresholds>;
+  releases?: Partial<ReleasePatterns>;
+  severities?: Record<string, Severity>;
+  checks?: { include?: string[]; exclude?: string[] };
+}
+
+export interface PolicyRule extends PolicyOverrides {
+  name: string;
+  match: { orgs?: string[]; repos?: string[]; topics?: string[] };
+}
+
+export interface Policy extends PolicyOverrides {
+  version: 1;
+  rules: PolicyRule[];
+  suppressions: Suppression[];
+}
+
+export const DEFAULT_POLICY_THRESHOLDS: PolicyThresholds = {
+  maxAdmins: 5,
+  minApprovingReviews: 2,
+  deployKeyMaxAgeDays: 365,
+  minCodeownersCoverage: 100,
+  maxCodeScanningAgeDays: 30,
+  criticalRemediationDays: 7,
+  highRemediationDays: 30,
+  mediumRemediationDays: 90,
+  lowRemediationDays: 180,
+};
+
+export const DEFAULT_RELEASE_PATTERNS: ReleasePatterns = {
+  branches: ['release/**', 'hotfix/**'],
+  tags: ['v*'],
+};
+
 export interface ScannerConfig {
-  token: string;
+  /** Personal access token; set either this or `app`, except to only scan local checkouts */
+  token?: string;
+  /** GitHub App installation to authenticate as instead of a token */
+  app?: GitHubAppCredentials;
+  /** REST API root for GitHub Enterprise Server, e.g. https://github.example.com/api/v3 */
+  baseUrl?: string;
+  /** Sent as the X-GitHub-Api-Version header */
+  apiVersion?: string;
   repos?: string[];
   org?: string;
   includeArchived?: boolean;
   includeForks?: boolean;
   severityThreshold?: Severity;
+  checks?: string[];
+  excludeChecks?: string[];
+  policy?: Policy;
+  historyDir?: string;
+  /** Repositories scanned in parallel by scanMultipleRepos */
+  concurrency?: number;
+  rateLimit?: RateLimitOptions;
+  /** Scoring model name or a custom model; defaults to 'flat' */
+  scoring?: ScoringModelName | ScoringModel;
+  /** Minimum share of checks (0-100) that must be evaluated for a repository */
+  minCoverage?: number;
+  /** What to do below `minCoverage`: flag the result (default) or fail the repository */
+  coverageAction?: 'warn' | 'fail';
+  /** Release branch globs to check; a policy's `releases.branches` takes precedence */
+  releaseBranches?: string[];
+  /** Release tag globs to check; a policy's `releases.tags` takes precedence */
+  releaseTags?: string[];
 }
 
+const SeveritySchema = z.enum(['critical', 'high', 'medium', 'low', 'info']);
+
+const PolicyOverridesSchema = z.object({
+  thresholds: z.object({
+    maxAdmins: z.number().int().min(0).optional(),
+    minApprovingReviews: z.number().int().min(0).max(6).optional(),
+    deployKeyMaxAgeDays: z.number().int().positive().optional(),
+    minCodeownersCoverage: z.number().min(0).max(100).optional(),
+    maxCodeScanningAgeDays: z.number().int().positive().optional(),
+    criticalRemediationDays: z.number().int().positive().optional(),
+    highRemediationDays: z.number().int().positive().optional(),
+    mediumRemediationDays: z.number().int().positive().optional(),
+    lowRemediationDays: z.number().int().positive().optional(),
+  }).strict().optional(),
+  releases: z.object({
+    branches: z.array(z.string().min(1)).optional(),
+    tags: z.array(z.string().min(1)).optional(),
+  }).strict().optional(),
+  severities: z.record(SeveritySchema).optional(),
+  checks: z.object({
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+  }).strict().optional(),
+});
+
+export const PolicySchema = PolicyOverridesSchema.extend({
+  version: z.literal(1).default(1),
+  rules: z.array(PolicyOverridesSchema.extend({
+    name: z.string().min(1),
+    match: z.object({
+      orgs: z.array(z.string()).optional(),
+      repos: z.array(z.string()).optional(),
+      topics: z.array(z.string()).optional(),
+    }).strict(),
+  }).strict()).default([]),
+  suppressions: z.array(z.object({
+    findingId: z.string().min(1),
+    repo: z.string().min(1),
+    justification: z.string().min(1),
+    approver: z.string().min(1),
+    expires: z.string().refine(value => !isNaN(Date.parse(value)), { message: 'expires must be an ISO 8601 date' }),
+  }).strict()).default([]),
+}).strict();
+
 export const ScannerConfigSchema = z.object({
-  token: z.string().min(1),
+  token: z.string().min(1).optional(),
+  app: z.object({
+    appId: z.union([z.string().min(1), z.number().int().positive()]),
+    privateKey: z.string().min(1),
+    installationId: z.union([z.string().min(1), z.number().int().positive()]),
+  }).strict().optional(),
+  baseUrl: z.string().url().optional(),
+  apiVersion: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'apiVersion must be a date such as 2022-11-28' }).optional(),
   repos: z.array(z.string()).optional(),
   org: z.string().optional(),
   includeArchived: z.boolean().default(false),
   includeForks: z.boolean().default(false),
   severityThreshold: z.enum(['critical', 'high', 'medium', 'low', 'info']).default('low'),
-});
+  checks: z.array(z.string()).optional(),
+  excludeChecks: z.array(z.string()).optional(),
+  policy: PolicySchema.optional(),
+  historyDir: z.string().optional(),
+  concurrency: z.number().int().min(1).max(32).optional(),
+  scoring: z.enum(['flat', 'weighted']).optional(),
+  minCoverage: z.number().min(0).max(100).optional(),
+  coverageAction: z.enum(['warn', 'fail']).optional(),
+  releaseBranches: z.array(z.string().min(1)).optional(),
+  releaseTags: z.array(z.string().min(1)).optional(),
+  rateLimit: z.object({
+    maxRetries: z.number().int().min(0).optional(),
+    minRemaining: z.number().int().min(0).optional(),
+    baseBackoffMs: z.number().int().positive().optional(),
+    maxWaitMs: z.number().int().positive().optional(),
+  }).optional(),
+  // Neither credential is valid for local scans; API scans report missing credentials when they first call the API
+}).refine(config => !(config.token && config.app), { message: 'Provide either token or app credentials, not both' });
@@ -0,0 +1,2 @@
+// Kept in sync with packages/core/package.json and recorded with every stored scan
+export const SCANNER_VERSION = '0.1.0';
@@ -8,8 +8,22 @@ import {
 import {
   GitHubSecurityScanner,
   generateSOC2Report,
+  explainScore,
+  shortRef,
+  formatLocation,
+  ScoringModelName,
+  GitHubServerOptions,
+  GitHubCredentials,
+  loadAppCredentialsFromEnv,
   formatSOC2ReportMarkdown,
   Severity,
+  listChecks,
+  CheckCategory,
+  Policy,
+  loadPolicyFile,
+  findPolicyFile,
+  ScanHistoryStore,
+  defaultHistoryDirectory,
 } from '@ghsec/core';
 
 const server = new Server(
@@ -36,7 +50,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             token: {
               type: 'string',
-              description: 'GitHub personal access token (optional if GITHUB_TOKEN env is set)',
+              description: 'GitHub personal access token (optional if GITHUB_TOKEN or GitHub App env credentials are set)',
             },
             org: {
               type: 'string',
@@ -63,7 +77,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             token: {
               type: 'string',
-              description: 'GitHub personal access token (optional if GITHUB_TOKEN env is set)',
+              description: 'GitHub personal access token (optional if GITHUB_TOKEN or GitHub App env credentials are set)',
             },
             repo: {
               type: 'string',
@@ -75,6 +89,26 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Minimum severity level to report',
               default: 'low',
             },
+            checks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only run these checks (check IDs or categories, see list_checks)',
+            },
+            excludeChecks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Skip these checks (check IDs or categories)',
+            },
+            scoring: {
+              type: 'string',
+              enum: ['flat', 'weighted'],
+              description: 'Scoring model used for the security score',
+              default: 'flat',
+            },
+            policyFile: {
+              type: 'string',
+              description: 'Path to a .ghsec.yml/.ghsec.json policy file (optional if GHSEC_POLICY env is set)',
+            },
           },
           required: ['repo'],
         },
@@ -87,7 +121,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             token: {
               type: 'string',
-              description: 'GitHub personal access token (optional if GITHUB_TOKEN env is set)',
+              description: 'GitHub personal access token (optional if GITHUB_TOKEN or GitHub App env credentials are set)',
             },
             repos: {
               type: 'array',
@@ -100,10 +134,87 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Minimum severity level to report',
               default: 'low',
             },
+            checks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only run these checks (check IDs or categories, see list_checks)',
+            },
+            excludeChecks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Skip these checks (check IDs or categories)',
+            },
+            concurrency: {
+              type: 'number',
+              description: 'Number of repositories to scan in parallel',
+              default: 4,
+            },
+            scoring: {
+              type: 'string',
+              enum: ['flat', 'weighted'],
+              description: 'Scoring model used for the security score',
+              default: 'flat',
+            },
+            policyFile: {
+              type: 'string',
+              description: 'Path to a .ghsec.yml/.ghsec.json policy file (optional if GHSEC_POLICY env is set)',
+            },
           },
           required: ['repos'],
         },
       },
+      {
+        name: 'scan_org',
+        description: 'Check organization-level security settings: two-factor requirement, base permissions, repository creation, security defaults for new repositories, Actions policy and outside collaborators',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            token: {
+              type: 'string',
+              description: 'GitHub personal access token (optional if GITHUB_TOKEN or GitHub App env credentials are set); most settings are only visible to organization owners',
+            },
+            org: {
+              type: 'string',
+              description: 'Organization login',
+            },
+            severity: {
+              type: 'string',
+              enum: ['critical', 'high', 'medium', 'low', 'info'],
+              description: 'Minimum severity level to report',
+              default: 'low',
+            },
+            checks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only run these checks (check IDs, see list_checks with category "organization")',
+            },
+            excludeChecks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Skip these checks (check IDs or categories)',
+            },
+            policyFile: {
+              type: 'string',
+              description: 'Path to a .ghsec.yml/.ghsec.json policy file (optional if GHSEC_POLICY env is set)',
+            },
+          },
+          required: ['org'],
+        },
+      },
+      {
+        name: 'list_checks',
+        description: 'List the available security checks with their severity, SOC 2 control, required permissions and finding IDs',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            category: {
+              type: 'string',
+              enum: ['branch-protection', 'security-features', 'access-control', 'repository-settings', 'secrets', 'dependencies', 'organization', 'workflows'],
+              description: 'Only list checks in this category',
+            },
+          },
+        },
+      },
       {
         name: 'generate_soc2_report',
         description: 'Generate a SOC 2 compliance report for selected repositories',
@@ -112,17 +223,43 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             token: {
               type: 'string',
-              description: 'GitHub personal access token (optional if GITHUB_TOKEN env is set)',
+              description: 'GitHub personal access token (optional if GITHUB_TOKEN or GitHub App env credentials are set)',
             },
             repos: {
               type: 'array',
               items: { type: 'string' },
               description: 'List of repositories to include in the report',
             },
+            org: {
+              type: 'string',
+              description: 'Organization whose settings checks to include in the report (optional)',
+            },
+            concurrency: {
+              type: 'number',
+              description: 'Number of repositories to scan in parallel',
+              default: 4,
+            },
+            policyFile: {
+              type: 'string',
+              description: 'Path to a .ghsec.yml/.ghsec.json policy file (optional if GHSEC_POLICY env is set)',
+            },
           },
           required: ['repos'],
         },
       },
+      {
+        name: 'get_scan_history',
+        description: 'Read the local scan history: score over time, when findings first appeared, and mean time to remediate',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repo: {
+              type: 'string',
+              description: 'Repository in owner/repo format (omit for organization-wide remediation times)',
+            },
+          },
+        },
+      },
       {
         name: 'get_recommendations',
         description: 'Get specific recommendations for fixing a security finding',
@@ -146,16 +283,30 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 });
 
 // Tool implementations
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
-  const token = (args?.token as string) || process.env.GITHUB_TOKEN;
+  const credentials = resolveCredentials(args?.token as string);
+
+  // The check catalog is static and does not need GitHub access
+  if (name === 'list_checks') {
+    return {
+      content: [{ type: 'text', text: formatCheckList(args?.category as CheckCategory) }],
+    };
+  }
+
+  // History is read from the local store and does not need GitHub access
+  if (name === 'get_scan_history') {
+    return {
+      content: [{ type: 'text', text: await formatScanHistory(args?.repo as string) }],
+    };
+  }
 
-  if (!token) {
+  if (!credentials) {
     return {
       content: [
         {
           type: 'text',
-          text: 'Error: GitHub token required. Provide token parameter or set GITHUB_TOKEN environment variable.',
+          text: 'Error: GitHub credentials required. Provide token parameter, or set GITHUB_TOKEN or the GITHUB_APP_ID, GITHUB_APP_INSTALLATION_ID and GITHUB_APP_PRIVATE_KEY environment variables.',
         },
       ],
     };
@@ -165,7 +316,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     switch (name) {
       case 'list_repos': {
         const scanner = new GitHubSecurityScanner({
-          token,
+          ...credentials,
+          ...serverOptions(),
           org: args?.org as string,
           includeArchived: args?.includeArchived as boolean,
           includeForks: args?.includeForks as boolean,
@@ -184,20 +336,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'scan_repo': {
         const scanner = new GitHubSecurityScanner({
-          token,
+          ...credentials,
+          ...serverOptions(),
           severityThreshold: (args?.severity as Severity) || 'low',
+          checks: args?.checks as string[],
+          excludeChecks: args?.excludeChecks as string[],
+          policy: loadPolicy(args?.policyFile as string),
+          historyDir: defaultHistoryDirectory(),
+          scoring: args?.scoring as ScoringModelName,
         });
 
         const [owner, repo] = (args?.repo as string).split('/');
-        const result = await scanner.scanRepository(owner, repo);
+        const result = await scanner.scanRepository(owner, repo, { signal: extra.signal });
 
         let response = `## Security Scan: ${result.repository.fullName}\n\n`;
-        response += `**Score:** ${result.score}/100\n`;
+        response += `**Score:** ${result.score}/100 (grade ${result.grade}, ${result.scoreBreakdown.model} model)${result.coverage.complete ? '' : ' (incomplete evidence)'}\n`;
         response += `**Visibility:** ${result.repository.visibility}\n`;
-        response += `**Default Branch:** ${result.repository.defaultBranch}\n\n`;
+        response += `**Default Branch:** ${result.repository.defaultBranch}\n`;
+        if (result.historyError) response += `**Not recorded in scan history:** ${result.historyError}\n`;
+        response += '\n';
 
         if (result.findings.length === 0) {
-          response += '✅ **No security issues found!**\n';
+          response += result.coverage.complete ? '✅ **No security issues found!**\n' : '✅ **No security issues found in the checks that ran.**\n';
         } else {
           response += `### Findings (${result.findings.length})\n\n`;
           
@@ -206,9 +366,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                         finding.severity === 'high' ? '🟠' :
                         finding.severity === 'medium' ? '🟡' : '🔵';
             
-            response += `${icon} **${finding.title}** (${finding.severity})\n`;
+            response += `${icon} **${finding.title}**${finding.ref ? ` [${shortRef(finding.ref)}]` : ''} (${finding.severity})\n`;
             response += `   ${finding.description}\n`;
+            if (finding.location) {
+              response += `   📄 \`${formatLocation(finding.location)}\`\n`;
+            }
             response += `   💡 *${finding.recommendation}*\n`;
+            if (finding.snippet) {
+              response += `   Suggested \`${finding.location?.path ?? 'content'}\`:\n\n\`\`\`\n${finding.snippet.trimEnd()}\n\`\`\`\n`;
+            }
+            if (finding.policyRule) {
+              response += `   📐 Policy rule: ${finding.policyRule}\n`;
+            }
             if (finding.documentationUrl) {
               response += `   📚 [Documentation](${finding.documentationUrl})\n`;
             }
@@ -216,11 +385,33 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
 
+        const notEvaluated = result.coverage.checks.filter(c => c.status === 'skipped' || c.status === 'errored');
+        if (notEvaluated.length > 0) {
+          response += `\n### Checks Not Evaluated (${notEvaluated.length})\n\n`;
+          for (const check of notEvaluated) {
+            response += `⚠️ **${check.checkId}** ${check.status}${check.httpStatus ? ` (HTTP ${check.httpStatus})` : ''}: ${check.message}\n`;
+          }
+        }
+
+        if (result.suppressedFindings.length > 0) {
+          response += `\n### Accepted Risks (${result.suppressedFindings.length})\n\n`;
+          for (const finding of result.suppressedFindings) {
+            response += `⚪ **${finding.title}** — ${finding.suppression.justification} (approved by ${finding.suppression.approver}, expires ${finding.suppression.expires})\n`;
+          }
+        }
+
+        const scoreExplanation = explainScore(result.scoreBreakdown);
+        if (scoreExplanation.length > 0) {
+          response += `\n### Score Breakdown\n\n`;
+          for (const line of scoreExplanation) response += `- ${line}\n`;
+        }
+
         response += `\n### Summary\n`;
         response += `- Critical: ${result.summary.critical}\n`;
         response += `- High: ${result.summary.high}\n`;
         response += `- Medium: ${result.summary.medium}\n`;
         response += `- Low: ${result.summary.low}\n`;
+        response += `- Passed: ${result.summary.passed}\n`;
 
         return {
           content: [{ type: 'text', text: response }],
@@ -229,19 +420,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'scan_multiple_repos': {
         const scanner = new GitHubSecurityScanner({
-          token,
+          ...credentials,
+          ...serverOptions(),
           severityThreshold: (args?.severity as Severity) || 'low',
+          checks: args?.checks as string[],
+          excludeChecks: args?.excludeChecks as string[],
+          policy: loadPolicy(args?.policyFile as string),
+          historyDir: defaultHistoryDirectory(),
+          concurrency: args?.concurrency as number,
+          scoring: args?.scoring as ScoringModelName,
         });
 
         const repos = args?.repos as string[];
-        const results = await scanner.scanMultipleRepos(repos);
+        const { results, failedRepos } = await scanner.scanRepositories(repos, undefined, { signal: extra.signal });
 
         let response = `## Security Scan Results\n\n`;
         response += `Scanned ${results.length} repositories\n\n`;
 
         for (const result of results) {
           const icon = result.score >= 80 ? '✅' : result.score >= 60 ? '⚠️' : '❌';
-          response += `${icon} **${result.repository.fullName}** - Score: ${result.score}/100, Issues: ${result.findings.length}\n`;
+          const incomplete = result.coverage.complete ? '' : ' (incomplete evidence)';
+          response += `${icon} **${result.repository.fullName}** - Score: ${result.score}/100 (${result.grade})${incomplete}, Issues: ${result.findings.length}\n`;
+          if (result.historyError) response += `   Not recorded in scan history: ${result.historyError}\n`;
+        }
+
+        for (const failed of failedRepos) {
+          response += `❗ **${failed.repository}** - Not scanned: ${failed.httpStatus ? `HTTP ${failed.httpStatus} ` : ''}${failed.error}\n`;
         }
 
         const avgScore = Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length);
@@ -252,15 +456,76 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'scan_org': {
+        const scanner = new GitHubSecurityScanner({
+          ...credentials,
+          ...serverOptions(),
+          severityThreshold: (args?.severity as Severity) || 'low',
+          checks: args?.checks as string[],
+          excludeChecks: args?.excludeChecks as string[],
+          policy: loadPolicy(args?.policyFile as string),
+        });
+
+        const result = await scanner.scanOrganization(args?.org as string, { signal: extra.signal });
+
+        let response = `## Organization Security Scan: ${result.organization.login}\n\n`;
+        response += `**Score:** ${result.score}/100 (grade ${result.grade}, ${result.scoreBreakdown.model} model)${result.coverage.complete ? '' : ' (incomplete evidence)'}\n\n`;
+
+        if (result.findings.length === 0) {
+          response += result.coverage.complete ? '✅ **No security issues found!**\n' : '✅ **No security issues found in the checks that ran.**\n';
+        } else {
+          response += `### Findings (${result.findings.length})\n\n`;
+          for (const finding of result.findings) {
+            const icon = finding.severity === 'critical' ? '🔴' :
+                        finding.severity === 'high' ? '🟠' :
+                        finding.severity === 'medium' ? '🟡' : '🔵';
+            response += `${icon} **${finding.title}** (${finding.severity}, ${finding.soc2Control})\n`;
+            response += `   ${finding.description}\n`;
+            if (finding.currentValue !== undefined) {
+              response += `   Current: ${finding.currentValue}\n`;
+            }
+            response += `   💡 *${finding.recommendation}*\n`;
+            if (finding.documentationUrl) {
+              response += `   📚 [Documentation](${finding.documentationUrl})\n`;
+            }
+            response += '\n';
+          }
+        }
+
+        const notEvaluated = result.coverage.checks.filter(c => c.status === 'skipped' || c.status === 'errored');
+        if (notEvaluated.length > 0) {
+          response += `\n### Checks Not Evaluated (${notEvaluated.length})\n\n`;
+          for (const check of notEvaluated) {
+            response += `⚠️ **${check.checkId}** ${check.status}${check.httpStatus ? ` (HTTP ${check.httpStatus})` : ''}: ${check.message}\n`;
+          }
+        }
+
+        if (result.suppressedFindings.length > 0) {
+          response += `\n### Accepted Risks (${result.suppressedFindings.length})\n\n`;
+          for (const finding of result.suppressedFindings) {
+            response += `⚪ **${finding.title}** — ${finding.suppression.justification} (approved by ${finding.suppression.approver}, expires ${finding.suppression.expires})\n`;
+          }
+        }
+
+        return {
+          content: [{ type: 'text', text: response }],
+        };
+      }
+
       case 'generate_soc2_report': {
         const scanner = new GitHubSecurityScanner({
-          token,
+          ...credentials,
+          ...serverOptions(),
           severityThreshold: 'info',
+          policy: loadPolicy(args?.policyFile as string),
+          historyDir: defaultHistoryDirectory(),
+          concurrency: args?.concurrency as number,
         });
 
         const repos = args?.repos as string[];
-        const results = await scanner.scanMultipleRepos(repos);
-        const report = generateSOC2Report(results);
+        const { results, failedRepos } = await scanner.scanRepositories(repos, undefined, { signal: extra.signal });
+        const orgResults = args?.org ? [await scanner.scanOrganization(args.org as string, { signal: extra.signal })] : [];
+        const report = generateSOC2Report(results, failedRepos, orgResults);
         const markdown = formatSOC2ReportMarkdown(report);
 
         return {
@@ -292,6 +557,70 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// A token argument wins over GITHUB_TOKEN, which wins over GitHub App credentials in the environment
+function resolveCredentials(token?: string): GitHubCredentials | undefined {
+  if (token || process.env.GITHUB_TOKEN) return { token: token || process.env.GITHUB_TOKEN };
+  const app = loadAppCredentialsFromEnv();
+  return app ? { app } : undefined;
+}
+
+// GitHub Enterprise Server connection, configured once for the server process
+function serverOptions(): GitHubServerOptions {
+  return { baseUrl: process.env.GITHUB_API_URL, apiVersion: process.env.GITHUB_API_VERSION };
+}
+
+// Policy file precedence: tool argument, GHSEC_POLICY env, then the server's working directory
+function loadPolicy(policyFile?: string): Policy | undefined {
+  const filePath = policyFile || process.env.GHSEC_POLICY || findPolicyFile(process.cwd());
+  return filePath ? loadPolicyFile(filePath) : undefined;
+}
+
+async function formatScanHistory(repo?: string): Promise<string> {
+  const store = new ScanHistoryStore(defaultHistoryDirectory());
+  let response = '';
+
+  if (repo) {
+    const [scores, findings] = await Promise.all([store.getScoreHistory(repo), store.getFindingHistory(repo)]);
+    if (scores.length === 0) return `No scan history recorded for ${repo}.`;
+
+    response += `## Scan History: ${repo}\n\n### Score Over Time\n\n`;
+    for (const point of scores) {
+      response += `- ${point.scannedAt.toISOString().slice(0, 10)}: ${point.score}/100 (${point.findings} findings)\n`;
+    }
+    response += `\n### Open Findings\n\n`;
+    for (const finding of findings.filter(f => f.open)) {
+      response += `- **${finding.title}**${finding.ref ? ` [${shortRef(finding.ref)}]` : ''} (${finding.severity}) — first seen ${finding.firstSeen.toISOString().slice(0, 10)}\n`;
+    }
+  } else {
+    const repositories = await store.listRepositories();
+    if (repositories.length === 0) return 'No scan history recorded yet.';
+    response += `## Scan History\n\nTracked repositories: ${repositories.join(', ')}\n`;
+  }
+
+  const stats = await store.getMeanTimeToRemediate(repo);
+  if (stats.length > 0) {
+    response += `\n### Mean Time to Remediate\n\n`;
+    for (const stat of stats) {
+      response += `- ${stat.findingId}: ${stat.meanTimeToRemediateDays} days (${stat.remediations} remediations)\n`;
+    }
+  }
+
+  return response;
+}
+
+function formatCheckList(category?: CheckCategory): string {
+  const checks = listChecks(category);
+
+  let response = `## Available Checks (${checks.length})\n\n`;
+  for (const check of checks) {
+    response += `- **${check.id}** (${check.category}, ${check.defaultSeverity}${check.soc2Control ? `, ${check.soc2Control}` : ''}): ${check.description}\n`;
+    response += `  - Permissions: ${check.requiredPermissions.join(', ')}\n`;
+    response += `  - Findings: ${check.findingIds.join(', ')}\n`;
+  }
+
+  return response;
+}
+
 function getDetailedRecommendations(findingId: string): string {
   const recommendations: Record<string, string> = {
     'bp-not-enabled': `## Enable Branch Protection\n\n### Steps:\n1. Go to your repository on GitHub\n2. Click **Settings** → **Branches**\n3. Under "Branch protection rules", click **Add rule**\n4. Enter your default branch name (e.g., \`main\`)\n5. Configure the following recommended settings:\n   - ✅ Require a pull request before merging\n   - ✅ Require approvals (at least 2)\n   - ✅ Dismiss stale pull request approvals\n   - ✅ Require status checks to pass\n   - ✅ Do not allow bypassing the above settings\n\n### API Alternative:\n\`\`\`bash\ngh api repos/{owner}/{repo}/branches/main/protection -X PUT -f required_status_checks='{"strict":true,"contexts":[]}' -f enforce_admins=true -f required_pull_request_reviews='{"required_approving_review_count":2}'\n\`\`\`\n`,
@@ -301,7 +630,8 @@ function getDetailedRecommendations(findingId: string): string {
     'sf-no-security-policy': `## Add Security Policy\n\n### Steps:\n1. Create a file named \`SECURITY.md\` in your repository root or \`.github\` folder\n2. Include:\n   - Supported versions\n   - How to report vulnerabilities\n   - Expected response time\n   - Disclosure policy\n\n### Template:\n\`\`\`markdown\n# Security Policy\n\n## Supported Versions\n| Version | Supported |\n| ------- | --------- |\n| 1.x.x   | ✅        |\n| < 1.0   | ❌        |\n\n## Reporting a Vulnerability\nPlease report security vulnerabilities to security@example.com.\nWe will respond within 48 hours and provide updates every 72 hours.\n\`\`\`\n`,
   };
 
-  return recommendations[findingId] || `No detailed recommendations available for finding: ${findingId}. Please refer to the general recommendation in the scan results.`;
+  // Release branch findings (rb-*) share the guidance of their default-branch counterpart
+  return recommendations[findingId] || recommendations[findingId.replace(/^rb-/, 'bp-')] || `No detailed recommendations available for finding: ${findingId}. Please refer to the general recommendation in the scan results.`;
 }
 
 // Start server
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
-import { GitHubSecurityScanner, SecurityFixer } from '@ghsec/core';
+import { GitHubSecurityScanner, SecurityFixer, GitHubServerOptions, FixerOptions, FailedRepo, RepoScanResult, generateSOC2Report, formatSOC2ReportJSON, formatSOC2ReportMarkdown } from '@ghsec/core';
 import { SecurityTreeProvider } from './treeProvider';
 import { ResultsPanel } from './resultsPanel';
 import { ScanResult, AvailableRepo } from './types';
+import { loadWorkspacePolicy } from './policy';
 
 const TOKEN_KEY = 'ghsec.github-token';
 
@@ -10,6 +11,7 @@ let scanner: GitHubSecurityScanner | null = null;
 let fixer: SecurityFixer | null = null;
 let treeProvider: SecurityTreeProvider;
 let results: ScanResult[] = [];
+let failedRepos: FailedRepo[] = [];
 let secretStorage: vscode.SecretStorage;
 
 export function activate(context: vscode.ExtensionContext) {
@@ -38,8 +40,8 @@ async function restoreConnection() {
   const storedToken = await secretStorage.get(TOKEN_KEY);
   if (storedToken) {
     try {
-      scanner = new GitHubSecurityScanner({ token: storedToken });
-      fixer = new SecurityFixer(storedToken);
+      scanner = new GitHubSecurityScanner({ token: storedToken, ...githubServerOptions() });
+      fixer = new SecurityFixer(storedToken, githubServerOptions(), fixerOptions());
       const repos = await fetchRepos(storedToken);
       treeProvider.setConnected(true, repos.length);
       treeProvider.refresh();
@@ -63,8 +65,8 @@ async function connectCommand() {
   }
 
   try {
-    scanner = new GitHubSecurityScanner({ token: inputToken });
-    fixer = new SecurityFixer(inputToken);
+    scanner = new GitHubSecurityScanner({ token: inputToken, ...githubServerOptions() });
+    fixer = new SecurityFixer(inputToken, githubServerOptions(), fixerOptions());
 
     // Test connection by fetching repos
     const repos = await fetchRepos(inputToken);
@@ -90,14 +92,25 @@ async function disconnectCommand() {
   scanner = null;
   fixer = null;
   results = [];
+  failedRepos = [];
   treeProvider.setConnected(false, 0);
   treeProvider.setResults([]);
   treeProvider.refresh();
   vscode.window.showInformationMessage('Disconnected from GitHub. Token removed.');
 }
 
+/** GitHub Enterprise Server connection from the `ghsec.baseUrl` and `ghsec.apiVersion` settings */
+function githubServerOptions(): GitHubServerOptions {
+  const config = vscode.workspace.getConfiguration('ghsec');
+  return { baseUrl: config.get<string>('baseUrl') || undefined, apiVersion: config.get<string>('apiVersion') || undefined };
+}
+
+function fixerOptions(): FixerOptions {
+  return { branchProtection: vscode.workspace.getConfiguration('ghsec').get<'classic' | 'ruleset'>('branchProtectionFix') };
+}
+
 async function fetchRepos(token: string): Promise<AvailableRepo[]> {
-  const tempScanner = new GitHubSecurityScanner({ token });
+  const tempScanner = new GitHubSecurityScanner({ token, ...githubServerOptions() });
   return tempScanner.listAvailableRepos();
 }
 
@@ -113,6 +126,13 @@ async function scanCommand() {
     return;
   }
 
+  try {
+    scanner = new GitHubSecurityScanner({ token: storedToken, ...githubServerOptions(), policy: loadWorkspacePolicy() });
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Failed to load policy: ${err.message}`);
+    return;
+  }
+
   const repos = await fetchRepos(storedToken);
   
   const selected = await vscode.window.showQuickPick(
@@ -127,38 +147,47 @@ async function scanCommand() {
     return;
   }
 
-  await vscode.window.withProgress({
+  const cancelled = await vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
     title: 'Scanning repositories...',
-    cancellable: false
-  }, async (progress) => {
-    results = [];
+    cancellable: true
+  }, async (progress, token) => {
+    const controller = new AbortController();
+    token.onCancellationRequested(() => controller.abort());
     const total = selected.length;
+    let completed = 0;
+
+    const scan = await scanner!.scanRepositories(selected.map(s => s.repo.fullName), ({ repository, error }) => {
+      completed++;
+      progress.report({ message: `${repository} (${completed}/${total})`, increment: 100 / total });
+      if (error) vscode.window.showWarningMessage(`Failed to scan ${repository}: ${error.message}`);
+    }, {
+      signal: controller.signal,
+      onProgress: (event) => {
+        if (event.type === 'check-completed') {
+          progress.report({ message: `${event.repository}: ${event.coverage.checkId} (${completed}/${total} repositories)` });
+        }
+      },
+    });
 
-    for (let i = 0; i < selected.length; i++) {
-      const repo = selected[i].repo;
-      progress.report({ 
-        message: `${repo.fullName} (${i + 1}/${total})`,
-        increment: (100 / total)
-      });
-
-      try {
-        const result = await scanner!.scanRepository(repo.owner, repo.name);
-        results.push(result as ScanResult);
-      } catch (err: any) {
-        vscode.window.showWarningMessage(`Failed to scan ${repo.fullName}: ${err.message}`);
-      }
-    }
-
+    // Keep whatever finished before the scan was cancelled
+    results = scan.results as ScanResult[];
+    failedRepos = scan.failedRepos;
     treeProvider.setResults(results);
     treeProvider.refresh();
+    return scan.cancelledRepos.length > 0;
   });
 
+  if (results.length === 0) {
+    vscode.window.showInformationMessage(cancelled ? 'Scan cancelled before any repository finished.' : 'No repositories could be scanned.');
+    return;
+  }
+
   const totalFindings = results.reduce((sum, r) => sum + r.findings.length, 0);
   const avgScore = Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length);
 
   vscode.window.showInformationMessage(
-    `Scan complete! ${results.length} repos, ${totalFindings} findings, avg score: ${avgScore}/100`
+    `${cancelled ? 'Scan cancelled' : 'Scan complete'}! ${results.length} repos, ${totalFindings} findings, avg score: ${avgScore}/100`
   );
 
   // Auto-show results panel (token retrieved securely when needed)
@@ -187,54 +216,19 @@ async function generateReportCommand() {
 
   const uri = await vscode.window.showSaveDialog({
     defaultUri: vscode.Uri.file(`soc2-report-${new Date().toISOString().split('T')[0]}.json`),
-    filters: { 'JSON': ['json'] }
+    filters: { 'JSON': ['json'], 'Markdown': ['md'] }
   });
 
   if (!uri) return;
 
-  const report = {
-    generatedAt: new Date().toISOString(),
-    repositoriesScanned: results.length,
-    results: results,
-    soc2Summary: generateSOC2Summary(results)
-  };
+  // `results` holds the scanner's full results, so the report also sees passes, accepted risks and check coverage
+  const report = generateSOC2Report(results as RepoScanResult[], failedRepos);
+  const output = uri.fsPath.endsWith('.md') ? formatSOC2ReportMarkdown(report) : formatSOC2ReportJSON(report);
 
-  await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(report, null, 2)));
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(output));
   vscode.window.showInformationMessage(`SOC 2 report saved to ${uri.fsPath}`);
 }
 
-function generateSOC2Summary(results: ScanResult[]) {
-  const controlFindings: Record<string, any[]> = {
-    'CC6.1': [], 'CC6.2': [], 'CC6.7': [], 'CC7.1': [], 'CC7.4': [], 'CC8.1': []
-  };
-
-  results.forEach(result => {
-    result.findings.forEach(finding => {
-      if (finding.soc2Control && controlFindings[finding.soc2Control]) {
-        controlFindings[finding.soc2Control].push({
-          ...finding,
-          repo: result.repository.fullName
-        });
-      }
-    });
-  });
-
-  return Object.entries(controlFindings).map(([id, findings]) => {
-    const criticalOrHigh = findings.filter(f => f.severity === 'critical' || f.severity === 'high');
-    let status: string;
-    
-    if (criticalOrHigh.length === 0 && findings.length <= 2) {
-      status = 'compliant';
-    } else if (criticalOrHigh.length === 0) {
-      status = 'partial';
-    } else {
-      status = 'non-compliant';
-    }
-
-    return { controlId: id, status, findingsCount: findings.length, findings };
-  });
-}
-
 async function fixFindingCommand(finding?: any, repoFullName?: string) {
   if (!fixer) {
     vscode.window.showErrorMessage('Not connected to GitHub.');
@@ -256,7 +250,7 @@ async function fixFindingCommand(finding?: any, repoFullName?: string) {
 
   const [owner, repo] = repoFullName.split('/');
   const result = results.find(r => r.repository.fullName === repoFullName);
-  const branch = result?.repository.defaultBranch || 'main';
+  const branch = finding.ref?.startsWith('refs/heads/') ? finding.ref.slice('refs/heads/'.length) : result?.repository.defaultBranch || 'main';
 
   try {
     const fixResult = await fixer.fixFinding(owner, repo, finding.id, branch);
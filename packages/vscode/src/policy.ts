@@ -0,0 +1,26 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Policy, loadPolicyFile, findPolicyFile } from '@ghsec/core';
+
+/**
+ * Loads the policy file from the `ghsec.policyFile` setting, falling back to a
+ * .ghsec.yml/.ghsec.json in the first workspace folder that has one.
+ */
+export function loadWorkspacePolicy(): Policy | undefined {
+  const folders = vscode.workspace.workspaceFolders || [];
+  const configured = vscode.workspace.getConfiguration('ghsec').get<string>('policyFile');
+
+  let filePath: string | undefined;
+  if (configured) {
+    filePath = path.isAbsolute(configured) || folders.length === 0
+      ? configured
+      : path.join(folders[0].uri.fsPath, configured);
+  } else {
+    for (const folder of folders) {
+      filePath = findPolicyFile(folder.uri.fsPath);
+      if (filePath) break;
+    }
+  }
+
+  return filePath ? loadPolicyFile(filePath) : undefined;
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { SecurityFixer } from '@ghsec/core';
+import { SecurityFixer, shortRef, formatLocation } from '@ghsec/core';
 import { ScanResult, SOC2_CONTROLS } from './types';
 
 export class ResultsPanel {
@@ -24,7 +24,7 @@ export class ResultsPanel {
       async (message) => {
         switch (message.command) {
           case 'fix':
-            await this.handleFix(message.findingId, message.repoFullName);
+            await this.handleFix(message.findingId, message.repoFullName, message.ref);
             break;
           case 'openSettings':
             vscode.env.openExternal(vscode.Uri.parse(message.url));
@@ -65,10 +65,10 @@ export class ResultsPanel {
     }
   }
 
-  private async handleFix(findingId: string, repoFullName: string) {
+  private async handleFix(findingId: string, repoFullName: string, ref?: string) {
     const [owner, repo] = repoFullName.split('/');
     const result = this.results.find(r => r.repository.fullName === repoFullName);
-    const branch = result?.repository.defaultBranch || 'main';
+    const branch = ref?.startsWith('refs/heads/') ? ref.slice('refs/heads/'.length) : result?.repository.defaultBranch || 'main';
 
     try {
       const fixResult = await this.fixer.fixFinding(owner, repo, findingId, branch);
@@ -332,21 +332,27 @@ export class ResultsPanel {
             ${result.score}/100
           </div>
         </div>
+        ${result.coverage.complete ? '' : `
+          <div style="opacity: 0.8; margin-top: 4px;">⚠ Incomplete evidence: ${result.coverage.checks.filter(c => c.status === 'skipped' || c.status === 'errored').map(c => `${c.checkId} ${c.status}${c.httpStatus ? ` (HTTP ${c.httpStatus})` : ''}`).join(', ')}</div>
+        `}
       </div>
       ${result.findings.length === 0 ? `
-        <div class="empty">✓ No security issues found!</div>
+        <div class="empty">✓ No security issues found${result.coverage.complete ? '!' : ' in the checks that ran'}</div>
       ` : result.findings.map(finding => `
         <div class="repo-item">
           <div class="finding">
             <div class="finding-title">
               <span class="badge badge-${finding.severity}">${finding.severity}</span>
               <strong>${finding.title}</strong>
+              ${finding.ref ? `<span class="badge">${shortRef(finding.ref)}</span>` : ''}
+              ${finding.location ? `<span class="badge">${formatLocation(finding.location)}</span>` : ''}
               ${finding.soc2Control ? `<span class="badge" style="background: #8b5cf620; color: #8b5cf6;">${finding.soc2Control}</span>` : ''}
             </div>
             <div class="finding-desc">${finding.description}</div>
             <div class="finding-rec">💡 ${finding.recommendation}</div>
+            ${finding.snippet ? `<pre style="margin: 6px 0; padding: 8px; overflow-x: auto; background: var(--vscode-textCodeBlock-background);">${finding.snippet.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</pre>` : ''}
             <div class="finding-actions">
-              <button class="btn-fix" onclick="fix('${finding.id}', '${result.repository.fullName}')">
+              <button class="btn-fix" onclick="fix('${finding.id}', '${result.repository.fullName}', '${finding.ref || ''}')">
                 🔧 Fix It
               </button>
               <button class="btn-settings" onclick="openSettings('${result.repository.fullName}', '${finding.category}')">
@@ -362,8 +368,8 @@ export class ResultsPanel {
   <script>
     const vscode = acquireVsCodeApi();
     
-    function fix(findingId, repoFullName) {
-      vscode.postMessage({ command: 'fix', findingId, repoFullName });
+    function fix(findingId, repoFullName, ref) {
+      vscode.postMessage({ command: 'fix', findingId, repoFullName, ref: ref || undefined });
     }
     
     function openSettings(repoFullName, category) {
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { shortRef, formatLocation } from '@ghsec/core';
 import { ScanResult, SOC2_CONTROLS } from './types';
 
 export class SecurityTreeProvider implements vscode.TreeDataProvider<TreeItem> {
@@ -129,7 +130,7 @@ export class SecurityTreeProvider implements vscode.TreeDataProvider<TreeItem> {
         'repo'
       );
       item.repoFullName = result.repository.fullName;
-      item.description = `${result.findings.length} findings`;
+      item.description = `${result.findings.length} findings${result.coverage.complete ? '' : ', incomplete evidence'}`;
       
       if (result.score >= 80) {
         item.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green'));
@@ -185,8 +186,8 @@ export class SecurityTreeProvider implements vscode.TreeDataProvider<TreeItem> {
         vscode.TreeItemCollapsibleState.None,
         'finding'
       );
-      item.description = finding.severity;
-      item.tooltip = `${finding.description}\n\n💡 ${finding.recommendation}`;
+      item.description = finding.ref ? `${finding.severity} · ${shortRef(finding.ref)}` : finding.severity;
+      item.tooltip = `${finding.description}${finding.location ? `\n\n📄 ${formatLocation(finding.location)}` : ''}\n\n💡 ${finding.recommendation}`;
       
       const severityIcon = {
         critical: new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red')),
@@ -14,6 +14,15 @@ export interface ScanResult {
     low: number;
     info: number;
   };
+  coverage: {
+    complete: boolean;
+    checks: Array<{
+      checkId: string;
+      status: 'passed' | 'failed' | 'skipped' | 'errored';
+      httpStatus?: number;
+      message?: string;
+    }>;
+  };
 }
 
 export interface Finding {
@@ -25,6 +34,10 @@ export interface Finding {
   recommendation: string;
   documentationUrl?: string;
   soc2Control?: string;
+  policyRule?: string;
+  ref?: string;
+  location?: { path: string; line?: number };
+  snippet?: string;
 }
 
 export interface AvailableRepo {
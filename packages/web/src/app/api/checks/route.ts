@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listChecks, CheckCategory } from '@ghsec/core';
+
+export async function GET(request: NextRequest) {
+  const category = request.nextUrl.searchParams.get('category') as CheckCategory | null;
+  return NextResponse.json({ checks: listChecks(category || undefined) });
+}
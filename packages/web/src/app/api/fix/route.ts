@@ -1,18 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SecurityFixer } from '@ghsec/core';
+import { credentialsFromRequest } from '@/lib/credentials';
 
 export async function POST(request: NextRequest) {
   try {
-    const { token, owner, repo, findingId, branch } = await request.json();
+    const body = await request.json();
+    const { owner, repo, findingId, branch, branchProtection } = body;
+    const credentials = credentialsFromRequest(body);
 
-    if (!token || !owner || !repo || !findingId) {
+    if (!credentials || !owner || !repo || !findingId) {
       return NextResponse.json(
-        { error: 'Token, owner, repo, and findingId are required' },
+        { error: 'Token (or GitHub App credentials), owner, repo, and findingId are required' },
         { status: 400 }
       );
     }
 
-    const fixer = new SecurityFixer(token);
+    if (branchProtection !== undefined && branchProtection !== 'classic' && branchProtection !== 'ruleset') {
+      return NextResponse.json(
+        { error: 'branchProtection must be "classic" or "ruleset"' },
+        { status: 400 }
+      );
+    }
+
+    const fixer = new SecurityFixer(credentials, {}, { branchProtection });
     const result = await fixer.fixFinding(owner, repo, findingId, branch);
 
     return NextResponse.json(result);
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScanHistoryStore, defaultHistoryDirectory } from '@ghsec/core';
+
+export async function GET(request: NextRequest) {
+  try {
+    const repo = request.nextUrl.searchParams.get('repo');
+    const store = new ScanHistoryStore(defaultHistoryDirectory());
+
+    if (!repo) {
+      const [repositories, remediation] = await Promise.all([
+        store.listRepositories(),
+        store.getMeanTimeToRemediate(),
+      ]);
+      return NextResponse.json({ repositories, remediation });
+    }
+
+    const [scores, findings, remediation] = await Promise.all([
+      store.getScoreHistory(repo),
+      store.getFindingHistory(repo),
+      store.getMeanTimeToRemediate(repo),
+    ]);
+    return NextResponse.json({ repository: repo, scores, findings, remediation });
+  } catch (error: any) {
+    console.error('History error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to read scan history' },
+      { status: 500 }
+    );
+  }
+}
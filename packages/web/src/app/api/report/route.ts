@@ -5,25 +5,28 @@ import {
   formatSOC2ReportMarkdown,
   formatSOC2ReportJSON 
 } from '@ghsec/core';
+import { credentialsFromRequest } from '@/lib/credentials';
 
 export async function POST(request: NextRequest) {
   try {
-    const { token, repos, format = 'markdown' } = await request.json();
+    const body = await request.json();
+    const { repos, format = 'markdown' } = body;
+    const credentials = credentialsFromRequest(body);
 
-    if (!token || !repos || repos.length === 0) {
+    if (!credentials || !repos || repos.length === 0) {
       return NextResponse.json(
-        { error: 'Token and repos are required' },
+        { error: 'Token (or GitHub App credentials) and repos are required' },
         { status: 400 }
       );
     }
 
     const scanner = new GitHubSecurityScanner({
-      token,
+      ...credentials,
       severityThreshold: 'info',
     });
 
-    const results = await scanner.scanMultipleRepos(repos);
-    const report = generateSOC2Report(results);
+    const { results, failedRepos } = await scanner.scanRepositories(repos);
+    const report = generateSOC2Report(results, failedRepos);
 
     if (format === 'json') {
       return NextResponse.json({ report });
@@ -1,19 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GitHubSecurityScanner } from '@ghsec/core';
+import { credentialsFromRequest } from '@/lib/credentials';
 
 export async function POST(request: NextRequest) {
   try {
-    const { token } = await request.json();
+    const credentials = credentialsFromRequest(await request.json());
 
-    if (!token) {
+    if (!credentials) {
       return NextResponse.json(
-        { error: 'Token is required' },
+        { error: 'Token or GitHub App credentials are required' },
         { status: 400 }
       );
     }
 
     const scanner = new GitHubSecurityScanner({
-      token,
+      ...credentials,
       severityThreshold: 'low',
     });
 
@@ -1,25 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GitHubSecurityScanner } from '@ghsec/core';
+import { GitHubSecurityScanner, ScanEvent, findUnknownChecks, defaultHistoryDirectory } from '@ghsec/core';
+import { credentialsFromRequest } from '@/lib/credentials';
 
 export async function POST(request: NextRequest) {
   try {
-    const { token, repos } = await request.json();
+    const body = await request.json();
+    const { repos, checks, excludeChecks, concurrency, scoring, stream } = body;
+    const credentials = credentialsFromRequest(body);
 
-    if (!token || !repos || repos.length === 0) {
+    if (!credentials || !repos || repos.length === 0) {
       return NextResponse.json(
-        { error: 'Token and repos are required' },
+        { error: 'Token (or GitHub App credentials) and repos are required' },
+        { status: 400 }
+      );
+    }
+
+    const unknownChecks = findUnknownChecks([...(checks || []), ...(excludeChecks || [])]);
+    if (unknownChecks.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown check or category: ${unknownChecks.join(', ')}` },
         { status: 400 }
       );
     }
 
     const scanner = new GitHubSecurityScanner({
-      token,
+      ...credentials,
       severityThreshold: 'low',
+      checks,
+      excludeChecks,
+      historyDir: defaultHistoryDirectory(),
+      concurrency,
+      scoring,
     });
 
-    const results = await scanner.scanMultipleRepos(repos);
+    if (stream) return streamScan(scanner, repos, request.signal);
 
-    return NextResponse.json({ results });
+    const { results, failedRepos, cancelledRepos } = await scanner.scanRepositories(repos, undefined, { signal: request.signal });
+
+    return NextResponse.json({ results, failedRepos, cancelledRepos });
   } catch (error: any) {
     console.error('Scan error:', error);
     return NextResponse.json(
@@ -28,3 +46,37 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Streams scan progress as newline-delimited JSON: one message per scan event, then a
+ * final "done" message. Finished repositories arrive in "repo-finished" messages, so a
+ * client that disconnects early keeps them; the disconnect cancels the rest of the scan.
+ */
+function streamScan(scanner: GitHubSecurityScanner, repos: string[], signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  signal.addEventListener('abort', () => abort.abort(), { once: true });
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: object) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(JSON.stringify(message) + '\n'));
+      };
+      try {
+        const { failedRepos, cancelledRepos } = await scanner.scanRepositories(repos, undefined, {
+          signal: abort.signal,
+          onProgress: (event: ScanEvent) => send(event.type === 'error' ? { ...event, error: event.error.message } : event),
+        });
+        send({ type: 'done', failedRepos, cancelledRepos });
+      } catch (error: any) {
+        send({ type: 'done', error: error.message || 'Scan failed' });
+      }
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Shield, AlertTriangle, CheckCircle, FileText, Search } from 'lucide-react';
 
 interface ScanResult {
@@ -11,6 +11,7 @@ interface ScanResult {
     url: string;
   };
   score: number;
+  grade: string;
   findings: Array<{
     id: string;
     category: string;
@@ -19,6 +20,9 @@ interface ScanResult {
     description: string;
     recommendation: string;
     documentationUrl?: string;
+    ref?: string;
+    location?: { path: string; line?: number };
+    snippet?: string;
   }>;
   summary: {
     critical: number;
@@ -26,7 +30,28 @@ interface ScanResult {
     medium: number;
     low: number;
     info: number;
+    passed: number;
   };
+  coverage: {
+    complete: boolean;
+    checks: Array<{
+      checkId: string;
+      status: 'passed' | 'failed' | 'skipped' | 'errored';
+      httpStatus?: number;
+      message?: string;
+    }>;
+  };
+}
+
+interface FailedRepo {
+  repository: string;
+  error: string;
+  httpStatus?: number;
+}
+
+interface ScoreHistoryPoint {
+  scannedAt: string;
+  score: number;
 }
 
 export default function Home() {
@@ -34,7 +59,11 @@ export default function Home() {
   const [repos, setRepos] = useState('');
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<ScanResult[]>([]);
+  const [failedRepos, setFailedRepos] = useState<FailedRepo[]>([]);
   const [error, setError] = useState('');
+  const [history, setHistory] = useState<Record<string, ScoreHistoryPoint[]>>({});
+  const [scanProgress, setScanProgress] = useState('');
+  const scanAbort = useRef<AbortController | null>(null);
 
   const handleScan = async () => {
     if (!token || !repos) {
@@ -44,30 +73,83 @@ export default function Home() {
 
     setLoading(true);
     setError('');
+    setResults([]);
+    setFailedRepos([]);
+    setScanProgress('');
+    const controller = new AbortController();
+    scanAbort.current = controller;
+    const scanned: ScanResult[] = [];
 
     try {
       const response = await fetch('/api/scan', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
         body: JSON.stringify({
           token,
           repos: repos.split('\n').map(r => r.trim()).filter(Boolean),
+          stream: true,
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('Scan failed');
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Scan failed');
       }
 
-      const data = await response.json();
-      setResults(data.results);
+      // Newline-delimited JSON progress messages, ending with "done"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const checksDone: Record<string, { done: number; total: number }> = {};
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines.filter(Boolean)) {
+          const message = JSON.parse(line);
+          if (message.type === 'repo-started') checksDone[message.repository] = { done: 0, total: message.checks };
+          else if (message.type === 'check-completed' && checksDone[message.repository]) checksDone[message.repository].done++;
+          else if (message.type === 'repo-finished') {
+            delete checksDone[message.repository];
+            scanned.push(message.result);
+            setResults([...scanned]);
+          } else if (message.type === 'error') {
+            delete checksDone[message.repository];
+          } else if (message.type === 'done') {
+            if (message.error) throw new Error(message.error);
+            setFailedRepos(message.failedRepos || []);
+          }
+          setScanProgress(Object.entries(checksDone).map(([repo, c]) => `${repo}: ${c.done}/${c.total} checks`).join(' · '));
+        }
+      }
     } catch (err: any) {
-      setError(err.message || 'An error occurred');
+      if (err.name === 'AbortError') setError(`Scan cancelled: ${scanned.length} repositor${scanned.length === 1 ? 'y' : 'ies'} finished before cancelling`);
+      else setError(err.message || 'An error occurred');
     } finally {
+      scanAbort.current = null;
+      setScanProgress('');
       setLoading(false);
+      if (scanned.length > 0) loadHistory(scanned);
     }
   };
 
+  const loadHistory = async (scanResults: ScanResult[]) => {
+    const entries = await Promise.all(scanResults.map(async (result) => {
+      try {
+        const response = await fetch(`/api/history?repo=${encodeURIComponent(result.repository.fullName)}`);
+        if (!response.ok) return [result.repository.fullName, []] as const;
+        const data = await response.json();
+        return [result.repository.fullName, data.scores as ScoreHistoryPoint[]] as const;
+      } catch {
+        return [result.repository.fullName, []] as const;
+      }
+    }));
+    setHistory(Object.fromEntries(entries));
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
@@ -141,6 +223,18 @@ export default function Home() {
               </>
             )}
           </button>
+
+          {loading && (
+            <div className="flex items-center justify-between gap-4 text-sm text-gray-600 dark:text-gray-400">
+              <span>{scanProgress || 'Starting scan...'}</span>
+              <button
+                onClick={() => scanAbort.current?.abort()}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -167,6 +261,19 @@ export default function Home() {
             </div>
           </div>
 
+          {failedRepos.length > 0 && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+              <h3 className="font-semibold text-red-800 dark:text-red-200">Repositories not scanned</h3>
+              <ul className="mt-2 text-sm text-red-700 dark:text-red-300">
+                {failedRepos.map(failed => (
+                  <li key={failed.repository}>
+                    {failed.repository}: {failed.httpStatus ? `HTTP ${failed.httpStatus} ` : ''}{failed.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Repository Results */}
           {results.map((result) => (
             <div key={result.repository.fullName} className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
@@ -179,11 +286,32 @@ export default function Home() {
                     <p className="text-sm text-gray-500 dark:text-gray-400">
                       {result.repository.visibility} • {result.repository.defaultBranch}
                     </p>
+                    {(history[result.repository.fullName]?.length || 0) > 1 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Score trend: {history[result.repository.fullName].slice(-5).map(point => point.score).join(' → ')}
+                      </p>
+                    )}
                   </div>
-                  <div className={`text-2xl font-bold ${getScoreColor(result.score)}`}>
-                    {result.score}/100
+                  <div className="text-right">
+                    <div className={`text-2xl font-bold ${getScoreColor(result.score)}`}>
+                      {result.score}/100
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Grade {result.grade}</div>
+                    {!result.coverage.complete && (
+                      <div className="text-xs text-yellow-600 dark:text-yellow-400">Incomplete evidence</div>
+                    )}
                   </div>
                 </div>
+
+                {result.coverage.checks.some(c => c.status === 'skipped' || c.status === 'errored') && (
+                  <ul className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+                    {result.coverage.checks.filter(c => c.status === 'skipped' || c.status === 'errored').map(check => (
+                      <li key={check.checkId}>
+                        {check.checkId} {check.status}{check.httpStatus ? ` (HTTP ${check.httpStatus})` : ''}: {check.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 
                 {/* Severity Summary */}
                 <div className="flex gap-2 mt-3">
@@ -207,6 +335,11 @@ export default function Home() {
                       {result.summary.low} Low
                     </span>
                   )}
+                  {result.summary.passed > 0 && (
+                    <span className="px-2 py-1 text-xs font-medium rounded bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                      {result.summary.passed} Passed
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -214,7 +347,7 @@ export default function Home() {
               {result.findings.length > 0 ? (
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
                   {result.findings.map((finding) => (
-                    <div key={finding.id} className="p-4">
+                    <div key={`${finding.id}@${finding.ref || ''}#${finding.location?.path || ''}`} className="p-4">
                       <div className="flex items-start gap-3">
                         <AlertTriangle className={`w-5 h-5 mt-0.5 ${
                           finding.severity === 'critical' ? 'text-red-500' :
@@ -226,6 +359,16 @@ export default function Home() {
                             <span className="font-medium text-gray-900 dark:text-white">
                               {finding.title}
                             </span>
+                            {finding.ref && (
+                              <span className="px-2 py-0.5 text-xs font-mono rounded bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                                {finding.ref.replace(/^refs\/(heads|tags)\//, '')}
+                              </span>
+                            )}
+                            {finding.location && (
+                              <span className="px-2 py-0.5 text-xs font-mono rounded bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                                {finding.location.line ? `${finding.location.path}:${finding.location.line}` : finding.location.path}
+                              </span>
+                            )}
                             <span className={`px-2 py-0.5 text-xs font-medium rounded ${getSeverityColor(finding.severity)}`}>
                               {finding.severity}
                             </span>
@@ -236,6 +379,11 @@ export default function Home() {
                           <div className="mt-2 p-2 bg-blue-50 dark:bg-blue-900/20 rounded text-sm text-blue-800 dark:text-blue-200">
                             💡 {finding.recommendation}
                           </div>
+                          {finding.snippet && (
+                            <pre className="mt-2 p-2 overflow-x-auto rounded bg-gray-100 dark:bg-gray-900 text-xs font-mono text-gray-800 dark:text-gray-200">
+                              {finding.snippet}
+                            </pre>
+                          )}
                           {finding.documentationUrl && (
                             <a
                               href={finding.documentationUrl}
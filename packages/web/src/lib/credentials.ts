@@ -0,0 +1,12 @@
+import { GitHubAppCredentials, GitHubCredentials } from '@ghsec/core';
+
+/**
+ * Credentials for an API request: a token or GitHub App credentials from the request
+ * body. The server's own GITHUB_APP_* configuration is never used for requests, since
+ * the routes have no authentication and anyone reaching them would act as the app.
+ */
+export function credentialsFromRequest(body: { token?: string; app?: GitHubAppCredentials }): GitHubCredentials | undefined {
+  if (body.token) return { token: body.token };
+  if (body.app) return { app: body.app };
+  return undefined;
+}